@@ -0,0 +1,311 @@
+import {
+  type ActionAPIContext,
+  type ActionClient,
+  defineAction,
+} from 'astro:actions';
+import { z } from 'astro/zod';
+import type { WordPressClient } from 'fluent-wp-client';
+import type { WordPressCdnPurgeFailure } from '../../cache/cdn';
+import {
+  createAuthorInvalidationTags,
+  createContentInvalidationTags,
+  createResourceInvalidationTags,
+  createTaxonomyInvalidationTags,
+  createTermInvalidationTags,
+  createUserInvalidationTags,
+} from '../../cache/hints';
+import { invalidateWordPressTags } from '../../cache/invalidate';
+import {
+  type ResolvableActionClient,
+  resolveRequiredActionClient,
+} from '../post/client';
+import {
+  assertCacheEnabled,
+  resolveContentResource,
+  resolveTermResource,
+} from './shared';
+
+const DEFAULT_CHUNK_SIZE = 50;
+const MAX_BULK_ITEMS = 1000;
+const SLUG_PATTERN = /^[a-z0-9_-]+$/i;
+
+const bulkIdSchema = z.number().int().positive();
+const bulkSlugSchema = z.string().regex(SLUG_PATTERN);
+
+/**
+ * One target of a bulk invalidation: a single post, term, or user, a whole
+ * REST resource, a taxonomy's term listings, an author, or one raw cache tag.
+ */
+export const wpCacheBulkInvalidateItemSchema = z.discriminatedUnion('entity', [
+  z.object({
+    entity: z.literal('post'),
+    id: bulkIdSchema,
+    post_type: bulkSlugSchema,
+  }),
+  z.object({
+    entity: z.literal('term'),
+    id: bulkIdSchema,
+    taxonomy: bulkSlugSchema,
+  }),
+  z.object({ entity: z.literal('user'), id: bulkIdSchema }),
+  z.object({ entity: z.literal('resource'), resource: bulkSlugSchema }),
+  z.object({ entity: z.literal('taxonomy'), taxonomy: bulkSlugSchema }),
+  z.object({ entity: z.literal('author'), id: bulkIdSchema }),
+  z.object({ entity: z.literal('tag'), tag: z.string().min(1).max(256) }),
+]);
+
+export type WpCacheBulkInvalidateItem = z.infer<
+  typeof wpCacheBulkInvalidateItemSchema
+>;
+
+/**
+ * Input schema for invalidating many cached WordPress entities at once.
+ */
+export const wpCacheBulkInvalidateInputSchema = z.object({
+  items: z.array(wpCacheBulkInvalidateItemSchema).min(1).max(MAX_BULK_ITEMS),
+});
+
+export type WpCacheBulkInvalidateInput = z.infer<
+  typeof wpCacheBulkInvalidateInputSchema
+>;
+
+/**
+ * Outcome of one bulk invalidation item, in input order.
+ */
+export interface CacheBulkInvalidationItemResult {
+  index: number;
+  item: WpCacheBulkInvalidateItem;
+  status: 'invalidated' | 'failed';
+  /** Tags derived for this item (empty when they could not be derived). */
+  tags: string[];
+  error?: string;
+}
+
+/**
+ * Success payload returned by the bulk invalidation action.
+ */
+export interface CacheBulkInvalidationResult {
+  /** `true` when every item was invalidated. */
+  invalidated: boolean;
+  /** Deduplicated tags that were invalidated. */
+  tags: string[];
+  /** Route URLs queued for a background re-render, when warmup is enabled. */
+  warmed: string[];
+  /** CDN purge adapters that rejected a purge. */
+  cdnFailures: WordPressCdnPurgeFailure[];
+  items: CacheBulkInvalidationItemResult[];
+}
+
+/**
+ * Low-level options accepted by `executeWpCacheBulkInvalidate`.
+ */
+export interface ExecuteWpCacheBulkInvalidateOptions {
+  /** Maximum tags per `context.cache.invalidate()` call (default: 50) */
+  chunkSize?: number;
+}
+
+/**
+ * Shared non-auth options accepted by the bulk invalidation action factory.
+ */
+export type WpCacheBulkInvalidateActionOptions =
+  ExecuteWpCacheBulkInvalidateOptions;
+
+/**
+ * Reads the message of one failure for the per-item report.
+ */
+function toErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Cache invalidation failed.';
+}
+
+/**
+ * Splits one tag list into chunks of at most `size` tags.
+ */
+function chunkTags(tags: string[], size: number): string[][] {
+  const chunks: string[][] = [];
+
+  for (let start = 0; start < tags.length; start += size) {
+    chunks.push(tags.slice(start, start + size));
+  }
+
+  return chunks;
+}
+
+/**
+ * Invalidates many cached WordPress entities, resources, taxonomies, authors,
+ * or raw tags. Tags are deduplicated and invalidated in chunks; an item fails
+ * when its post type or taxonomy cannot be resolved or when a chunk holding
+ * one of its tags fails.
+ */
+export async function executeWpCacheBulkInvalidate(
+  client: WordPressClient,
+  input: WpCacheBulkInvalidateInput,
+  context: ActionAPIContext,
+  options?: ExecuteWpCacheBulkInvalidateOptions,
+): Promise<CacheBulkInvalidationResult> {
+  assertCacheEnabled(context);
+
+  const chunkSize = Math.max(1, options?.chunkSize ?? DEFAULT_CHUNK_SIZE);
+  const contentResources = new Map<string, Promise<string>>();
+  const termResources = new Map<string, Promise<string>>();
+
+  /**
+   * Resolves one post type or taxonomy once per call.
+   */
+  function resolveOnce(
+    cache: Map<string, Promise<string>>,
+    slug: string,
+    resolve: (client: WordPressClient, slug: string) => Promise<string>,
+  ): Promise<string> {
+    let resource = cache.get(slug);
+
+    if (!resource) {
+      resource = resolve(client, slug);
+      cache.set(slug, resource);
+    }
+
+    return resource;
+  }
+
+  /**
+   * Derives the tags of one bulk item.
+   */
+  async function deriveTags(item: WpCacheBulkInvalidateItem) {
+    switch (item.entity) {
+      case 'post': {
+        const resource = await resolveOnce(
+          contentResources,
+          item.post_type,
+          resolveContentResource,
+        );
+
+        return createContentInvalidationTags(resource, item.id);
+      }
+      case 'term': {
+        const resource = await resolveOnce(
+          termResources,
+          item.taxonomy,
+          resolveTermResource,
+        );
+
+        return createTermInvalidationTags(resource, {
+          id: item.id,
+          taxonomy: item.taxonomy,
+          parent: 0,
+        });
+      }
+      case 'user':
+        return createUserInvalidationTags(item.id);
+      case 'resource':
+        return createResourceInvalidationTags(item.resource);
+      case 'taxonomy':
+        return createTaxonomyInvalidationTags(item.taxonomy);
+      case 'author':
+        return createAuthorInvalidationTags(item.id);
+      case 'tag':
+        return [item.tag];
+    }
+  }
+
+  const derived = await Promise.all(
+    input.items.map(
+      async (item): Promise<{ tags: string[]; error?: string }> => {
+        try {
+          return { tags: await deriveTags(item) };
+        } catch (error) {
+          return { tags: [], error: toErrorMessage(error) };
+        }
+      },
+    ),
+  );
+  const tags = [...new Set(derived.flatMap((entry) => entry.tags))];
+  const failedTags = new Map<string, string>();
+  const queued = new Set<string>();
+  const cdnFailures: WordPressCdnPurgeFailure[] = [];
+
+  for (const chunk of chunkTags(tags, chunkSize)) {
+    try {
+      const invalidation = await invalidateWordPressTags(context, chunk);
+
+      for (const url of invalidation.warmed) {
+        queued.add(url);
+      }
+
+      cdnFailures.push(...invalidation.cdnFailures);
+    } catch (error) {
+      for (const tag of chunk) {
+        failedTags.set(tag, toErrorMessage(error));
+      }
+    }
+  }
+
+  const items = input.items.map(
+    (item, index): CacheBulkInvalidationItemResult => {
+      const entry = derived[index];
+      const error =
+        entry.error ??
+        entry.tags.map((tag) => failedTags.get(tag)).find(Boolean);
+
+      return {
+        index,
+        item,
+        status: error ? 'failed' : 'invalidated',
+        tags: entry.tags,
+        ...(error ? { error } : {}),
+      };
+    },
+  );
+
+  const invalidatedTags = tags.filter((tag) => !failedTags.has(tag));
+
+  return {
+    invalidated: items.every((item) => item.status === 'invalidated'),
+    tags: invalidatedTags,
+    warmed: [...queued],
+    cdnFailures,
+    items,
+  };
+}
+
+/**
+ * Creates one Astro action that invalidates many cached WordPress entities,
+ * resources, taxonomies, authors, or raw tags in one call.
+ *
+ * @example
+ * await actions.wpCacheBulkInvalidate({
+ *   items: [
+ *     { entity: 'post', id: 42, post_type: 'book' },
+ *     { entity: 'resource', resource: 'books' },
+ *     { entity: 'tag', tag: 'wp:settings' },
+ *   ],
+ * });
+ */
+export function createWpCacheBulkInvalidateAction(
+  client: ResolvableActionClient,
+  options?: WpCacheBulkInvalidateActionOptions,
+): ActionClient<
+  CacheBulkInvalidationResult,
+  undefined,
+  typeof wpCacheBulkInvalidateInputSchema
+> &
+  string {
+  return defineAction({
+    input: wpCacheBulkInvalidateInputSchema,
+    handler: async (
+      input: WpCacheBulkInvalidateInput,
+      context: ActionAPIContext,
+    ) => {
+      const resolvedClient = await resolveRequiredActionClient(client, context);
+      return executeWpCacheBulkInvalidate(
+        resolvedClient,
+        input,
+        context,
+        options,
+      );
+    },
+  }) as ActionClient<
+    CacheBulkInvalidationResult,
+    undefined,
+    typeof wpCacheBulkInvalidateInputSchema
+  > &
+    string;
+}
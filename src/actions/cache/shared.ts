@@ -1,6 +1,12 @@
 import { type ActionAPIContext, ActionError } from 'astro:actions';
 import { z } from 'astro/zod';
 import type { WordPressClient } from 'fluent-wp-client';
+import {
+  hasWordPressCdnPurgeAdapters,
+  type WordPressCdnPurgeFailure,
+} from '../../cache/cdn';
+import { invalidateWordPressTags } from '../../cache/invalidate';
+import { hasWordPressLiveCaches } from '../../cache/memory';
 import { withActionClient } from '../post/client';
 
 /**
@@ -19,6 +25,10 @@ export interface CacheInvalidationResult {
   invalidated: true;
   resource: string;
   tags: string[];
+  /** Route URLs queued for a background re-render, when warmup is enabled. */
+  warmed: string[];
+  /** CDN purge adapters that rejected the purge. */
+  cdnFailures: WordPressCdnPurgeFailure[];
 }
 
 type RestResourceDefinition = {
@@ -26,10 +36,23 @@ type RestResourceDefinition = {
 };
 
 /**
- * Ensures the current action request can talk to Astro's route cache provider.
+ * Reports whether the current action request can reach Astro's route cache
+ * provider, a live loader memory cache, or a registered CDN purge adapter.
+ */
+export function isCacheInvalidationEnabled(context: ActionAPIContext): boolean {
+  return (
+    context.cache.enabled ||
+    hasWordPressLiveCaches() ||
+    hasWordPressCdnPurgeAdapters()
+  );
+}
+
+/**
+ * Ensures the current action request can reach Astro's route cache provider,
+ * a live loader memory cache, or a registered CDN purge adapter.
  */
 export function assertCacheEnabled(context: ActionAPIContext): void {
-  if (context.cache.enabled) {
+  if (isCacheInvalidationEnabled(context)) {
     return;
   }
 
@@ -90,7 +113,9 @@ export async function resolveTermResource(
 }
 
 /**
- * Invalidates one set of Astro cache tags and returns the action response payload.
+ * Invalidates one set of cache tags in Astro's route cache, every live loader
+ * memory cache, and every registered CDN, queues warming of the affected
+ * routes, and returns the action response payload.
  */
 export async function invalidateCacheTags(
   context: ActionAPIContext,
@@ -104,11 +129,10 @@ export async function invalidateCacheTags(
     });
   }
 
-  await context.cache.invalidate({ tags });
-
   return {
     invalidated: true,
     resource,
     tags,
+    ...(await invalidateWordPressTags(context, tags)),
   };
 }
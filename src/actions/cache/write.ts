@@ -0,0 +1,275 @@
+import type { ActionAPIContext } from 'astro:actions';
+import type {
+  WordPressCategory,
+  WordPressClient,
+  WordPressPost,
+} from 'fluent-wp-client';
+import {
+  createContentWriteInvalidationTags,
+  createResourceInvalidationTags,
+  createTermWriteInvalidationTags,
+  createUserWriteInvalidationTags,
+} from '../../cache/hints';
+import { withActionClient } from '../post/client';
+import {
+  type CacheInvalidationResult,
+  invalidateCacheTags,
+  isCacheInvalidationEnabled,
+} from './shared';
+
+/**
+ * Opt-in cache invalidation shared by every write action factory.
+ */
+export interface WriteActionCacheOptions {
+  /**
+   * Invalidates the route and live loader cache tags of the written entry
+   * after WordPress accepted the change (default: false).
+   */
+  invalidateCache?: boolean;
+}
+
+/**
+ * Reports an invalidation that failed after WordPress accepted the write.
+ */
+export interface CacheInvalidationFailure {
+  invalidated: false;
+  resource: string;
+  tags: string[];
+  error: string;
+}
+
+/**
+ * Write action result, extended with the invalidated tags when the action
+ * was created with `invalidateCache: true` and caching is enabled.
+ */
+export type WithCacheInvalidation<T> = T & {
+  cacheInvalidation?: CacheInvalidationResult | CacheInvalidationFailure;
+};
+
+/**
+ * Describes the write one action is about to run.
+ */
+type WriteTarget = {
+  operation: 'create' | 'update' | 'delete';
+  resource: string;
+  /** Entry ID; read from the write result for creations. */
+  id?: number;
+};
+
+/**
+ * Reads the numeric `id` of one write result, if it kept one.
+ */
+function readResultId(result: unknown): number | undefined {
+  if (typeof result !== 'object' || result === null || !('id' in result)) {
+    return undefined;
+  }
+
+  return typeof result.id === 'number' ? result.id : undefined;
+}
+
+/**
+ * Attaches the invalidation summary to one object result.
+ */
+function withInvalidationResult<T>(
+  result: T,
+  cacheInvalidation: CacheInvalidationResult | CacheInvalidationFailure,
+): WithCacheInvalidation<T> {
+  if (typeof result !== 'object' || result === null) {
+    return result as WithCacheInvalidation<T>;
+  }
+
+  return { ...result, cacheInvalidation };
+}
+
+/**
+ * Invalidates the tags of one accepted write. Failures are reported instead
+ * of thrown, so the action still returns the saved entity.
+ */
+async function invalidateWrittenTags(
+  context: ActionAPIContext,
+  resource: string,
+  tags: string[],
+): Promise<CacheInvalidationResult | CacheInvalidationFailure> {
+  try {
+    return await invalidateCacheTags(context, resource, tags);
+  } catch (error) {
+    return {
+      invalidated: false,
+      resource,
+      tags,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Entry states read around one write. `unknown` is set when a read failed,
+ * so the written entry's tags could not be derived.
+ */
+type WriteStates<TEntry, TResult> = {
+  result: TResult;
+  before?: TEntry;
+  after?: TEntry;
+  unknown: boolean;
+};
+
+/**
+ * Runs one write between reads of the entry state before and after it.
+ * Failed reads never block or fail the write: their state stays unknown.
+ */
+async function readWriteStates<TEntry, TResult>(
+  target: WriteTarget,
+  read: (id: number) => Promise<TEntry>,
+  write: () => Promise<TResult>,
+): Promise<WriteStates<TEntry, TResult>> {
+  let unknown = false;
+
+  /**
+   * Reads one state, recording a failed read instead of throwing.
+   */
+  async function readState(
+    id: number | undefined,
+  ): Promise<TEntry | undefined> {
+    if (id === undefined) {
+      return undefined;
+    }
+
+    try {
+      return await read(id);
+    } catch {
+      unknown = true;
+      return undefined;
+    }
+  }
+
+  const before =
+    target.operation !== 'create' ? await readState(target.id) : undefined;
+  const result = await write();
+  const after =
+    target.operation !== 'delete'
+      ? await readState(target.id ?? readResultId(result))
+      : undefined;
+
+  return { result, before, after, unknown };
+}
+
+/**
+ * Widens one write's tags to the whole resource when an entry state is
+ * unknown.
+ */
+function withResourceFallback(
+  resource: string,
+  tags: string[],
+  unknown: boolean,
+): string[] {
+  return unknown
+    ? [...new Set([...tags, ...createResourceInvalidationTags(resource)])]
+    : tags;
+}
+
+/**
+ * Runs one post, page, or custom post type write and invalidates the entry,
+ * relationship, and filtered collection tags of its state before and after
+ * the change. Runs the write alone when caching is disabled.
+ */
+export async function writeContentWithCacheInvalidation<T>(
+  client: WordPressClient,
+  context: ActionAPIContext,
+  target: WriteTarget,
+  write: () => Promise<T>,
+): Promise<WithCacheInvalidation<T>> {
+  if (!isCacheInvalidationEnabled(context)) {
+    return (await write()) as WithCacheInvalidation<T>;
+  }
+
+  const { result, before, after, unknown } = await readWriteStates(
+    target,
+    (id) =>
+      withActionClient(
+        client,
+        async (resolvedClient) =>
+          (await resolvedClient
+            .content(target.resource)
+            .item(id)) as WordPressPost,
+      ),
+    write,
+  );
+  const tags = withResourceFallback(
+    target.resource,
+    createContentWriteInvalidationTags(target.resource, before, after),
+    unknown,
+  );
+
+  return withInvalidationResult(
+    result,
+    await invalidateWrittenTags(context, target.resource, tags),
+  );
+}
+
+/**
+ * Runs one taxonomy term write and invalidates the term entry, entries
+ * related to the term, and the taxonomy listings. Runs the write alone when
+ * caching is disabled.
+ */
+export async function writeTermWithCacheInvalidation<T>(
+  client: WordPressClient,
+  context: ActionAPIContext,
+  target: WriteTarget,
+  write: () => Promise<T>,
+): Promise<WithCacheInvalidation<T>> {
+  if (!isCacheInvalidationEnabled(context)) {
+    return (await write()) as WithCacheInvalidation<T>;
+  }
+
+  const { result, before, after, unknown } = await readWriteStates(
+    target,
+    (id) =>
+      withActionClient(
+        client,
+        async (resolvedClient) =>
+          (await resolvedClient
+            .terms(target.resource)
+            .item(id)) as WordPressCategory,
+      ),
+    write,
+  );
+  const tags = withResourceFallback(
+    target.resource,
+    createTermWriteInvalidationTags(target.resource, before, after),
+    unknown,
+  );
+
+  return withInvalidationResult(
+    result,
+    await invalidateWrittenTags(context, target.resource, tags),
+  );
+}
+
+/**
+ * Runs one user write and invalidates the user entry, content written by the
+ * user, and user listings. `relatedIds` covers users receiving reassigned
+ * content. Runs the write alone when caching is disabled.
+ */
+export async function writeUserWithCacheInvalidation<T>(
+  context: ActionAPIContext,
+  target: Omit<WriteTarget, 'resource'> & { relatedIds?: number[] },
+  write: () => Promise<T>,
+): Promise<WithCacheInvalidation<T>> {
+  if (!isCacheInvalidationEnabled(context)) {
+    return (await write()) as WithCacheInvalidation<T>;
+  }
+
+  const result = await write();
+  const tags = [
+    ...new Set(
+      [target.id ?? readResultId(result), ...(target.relatedIds ?? [])].flatMap(
+        (id) => createUserWriteInvalidationTags(id),
+      ),
+    ),
+  ];
+
+  return withInvalidationResult(
+    result,
+    await invalidateWrittenTags(context, 'users', tags),
+  );
+}
@@ -42,6 +42,20 @@ export {
   executeGetAbility,
   getAbilityInputSchema,
 } from './ability/get';
+export type {
+  CacheBulkInvalidationItemResult,
+  CacheBulkInvalidationResult,
+  ExecuteWpCacheBulkInvalidateOptions,
+  WpCacheBulkInvalidateActionOptions,
+  WpCacheBulkInvalidateInput,
+  WpCacheBulkInvalidateItem,
+} from './cache/bulk';
+export {
+  createWpCacheBulkInvalidateAction,
+  executeWpCacheBulkInvalidate,
+  wpCacheBulkInvalidateInputSchema,
+  wpCacheBulkInvalidateItemSchema,
+} from './cache/bulk';
 export type { WpCacheInvalidateInput } from './cache/invalidate';
 // Cache invalidation actions
 export {
@@ -49,6 +63,11 @@ export {
   executeWpCacheInvalidate,
   wpCacheInvalidateInputSchema,
 } from './cache/invalidate';
+export type {
+  CacheInvalidationFailure,
+  WithCacheInvalidation,
+  WriteActionCacheOptions,
+} from './cache/write';
 export type {
   ActionClientResolver,
   ActionResponseMapper,
@@ -11,6 +11,11 @@ import {
   type WordPressPostWriteBase,
   type WordPressStandardSchema,
 } from 'fluent-wp-client/zod';
+import {
+  type WithCacheInvalidation,
+  type WriteActionCacheOptions,
+  writeContentWithCacheInvalidation,
+} from '../cache/write';
 import { validateActionResponse } from '../response-validation';
 import {
   type ActionResponseMapper,
@@ -63,7 +68,8 @@ export type ExecuteCreateConfig<T = WordPressPost> = ExecuteCreateOptions<T>;
 /**
  * Shared non-auth options accepted by the create-post action factory.
  */
-export interface CreatePostActionOptions<T = WordPressPost> {
+export interface CreatePostActionOptions<T = WordPressPost>
+  extends WriteActionCacheOptions {
   /** REST resource path (default: 'posts') — set to 'pages' or a CPT rest_base */
   resource?: string;
   /** Optional parser override for the action response */
@@ -149,18 +155,19 @@ export function createCreatePostAction<
 >(
   client: ResolvableActionClient,
   options?: CreatePostActionFactoryOptions<TResponse, TSchema>,
-): ActionClient<TResponse, undefined, TSchema> & string;
+): ActionClient<WithCacheInvalidation<TResponse>, undefined, TSchema> & string;
 export function createCreatePostAction<
   TResponse = WordPressPost,
   TSchema extends typeof createPostInputSchema = typeof createPostInputSchema,
 >(
   client: ResolvableActionClient,
   options?: CreatePostActionFactoryOptions<TResponse, TSchema>,
-): ActionClient<TResponse, undefined, TSchema> & string {
+): ActionClient<WithCacheInvalidation<TResponse>, undefined, TSchema> & string {
   const inputSchema = (options?.schema ?? createPostInputSchema) as TSchema;
   const resource = options?.resource;
   const responseSchema = options?.responseSchema;
   const mapResponse = options?.mapResponse;
+  const invalidateCache = options?.invalidateCache;
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   return defineAction({
@@ -168,11 +175,26 @@ export function createCreatePostAction<
     handler: async (input: z.infer<TSchema>, context: ActionAPIContext) => {
       const resolvedClient = await resolveRequiredActionClient(client, context);
 
-      return executeCreatePost<TResponse>(
-        resolvedClient,
-        input as CreatePostInput & Record<string, unknown>,
-        { resource, responseSchema, mapResponse },
-      );
+      const create = () =>
+        executeCreatePost<TResponse>(
+          resolvedClient,
+          input as CreatePostInput & Record<string, unknown>,
+          { resource, responseSchema, mapResponse },
+        );
+
+      return invalidateCache
+        ? writeContentWithCacheInvalidation(
+            resolvedClient,
+            context,
+            { operation: 'create', resource: resource ?? 'posts' },
+            create,
+          )
+        : create();
     },
-  } as any) as ActionClient<TResponse, undefined, TSchema> & string;
+  } as any) as ActionClient<
+    WithCacheInvalidation<TResponse>,
+    undefined,
+    TSchema
+  > &
+    string;
 }
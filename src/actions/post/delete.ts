@@ -5,6 +5,11 @@ import {
 } from 'astro:actions';
 import { z } from 'astro/zod';
 import type { WordPressClient } from 'fluent-wp-client';
+import {
+  type WithCacheInvalidation,
+  type WriteActionCacheOptions,
+  writeContentWithCacheInvalidation,
+} from '../cache/write';
 import {
   type ResolvableActionClient,
   resolveRequiredActionClient,
@@ -44,7 +49,7 @@ export type ExecuteDeleteConfig = ExecuteDeleteOptions;
 /**
  * Shared non-auth options accepted by the delete-post action factory.
  */
-export interface DeletePostActionOptions {
+export interface DeletePostActionOptions extends WriteActionCacheOptions {
   /** REST resource path (default: 'posts') — set to 'pages' or a CPT rest_base */
   resource?: string;
 }
@@ -83,19 +88,38 @@ export async function executeDeletePost(
 export function createDeletePostAction(
   client: ResolvableActionClient,
   options?: DeletePostActionOptions,
-): ActionClient<DeletePostResult, undefined, typeof deletePostInputSchema> &
+): ActionClient<
+  WithCacheInvalidation<DeletePostResult>,
+  undefined,
+  typeof deletePostInputSchema
+> &
   string {
   const resource = options?.resource;
+  const invalidateCache = options?.invalidateCache;
 
   return defineAction({
     input: deletePostInputSchema,
     handler: async (input: DeletePostInput, context: ActionAPIContext) => {
       const resolvedClient = await resolveRequiredActionClient(client, context);
-      return executeDeletePost(resolvedClient, input, { resource });
+      const remove = () =>
+        executeDeletePost(resolvedClient, input, { resource });
+
+      return invalidateCache
+        ? writeContentWithCacheInvalidation(
+            resolvedClient,
+            context,
+            {
+              operation: 'delete',
+              resource: resource ?? 'posts',
+              id: input.id,
+            },
+            remove,
+          )
+        : remove();
     },
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
   } as any) as ActionClient<
-    DeletePostResult,
+    WithCacheInvalidation<DeletePostResult>,
     undefined,
     typeof deletePostInputSchema
   > &
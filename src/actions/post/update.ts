@@ -9,6 +9,11 @@ import {
   type WordPressPost,
   type WordPressStandardSchema,
 } from 'fluent-wp-client/zod';
+import {
+  type WithCacheInvalidation,
+  type WriteActionCacheOptions,
+  writeContentWithCacheInvalidation,
+} from '../cache/write';
 import { validateActionResponse } from '../response-validation';
 import {
   type ActionResponseMapper,
@@ -63,7 +68,8 @@ export type ExecuteUpdateConfig<T = WordPressPost> = ExecuteUpdateOptions<T>;
 /**
  * Shared non-auth options accepted by the update-post action factory.
  */
-export interface UpdatePostActionOptions<T = WordPressPost> {
+export interface UpdatePostActionOptions<T = WordPressPost>
+  extends WriteActionCacheOptions {
   /** REST resource path (default: 'posts') — set to 'pages' or a CPT rest_base */
   resource?: string;
   /** Optional parser override for the action response */
@@ -152,18 +158,19 @@ export function createUpdatePostAction<
 >(
   client: ResolvableActionClient,
   options?: UpdatePostActionFactoryOptions<TResponse, TSchema>,
-): ActionClient<TResponse, undefined, TSchema> & string;
+): ActionClient<WithCacheInvalidation<TResponse>, undefined, TSchema> & string;
 export function createUpdatePostAction<
   TResponse = WordPressPost,
   TSchema extends typeof updatePostInputSchema = typeof updatePostInputSchema,
 >(
   client: ResolvableActionClient,
   options?: UpdatePostActionFactoryOptions<TResponse, TSchema>,
-): ActionClient<TResponse, undefined, TSchema> & string {
+): ActionClient<WithCacheInvalidation<TResponse>, undefined, TSchema> & string {
   const inputSchema = (options?.schema ?? updatePostInputSchema) as TSchema;
   const resource = options?.resource;
   const responseSchema = options?.responseSchema;
   const mapResponse = options?.mapResponse;
+  const invalidateCache = options?.invalidateCache;
 
   // TypeScript defers evaluation of ActionHandler<TSchema, …> when TSchema is a
   // generic parameter — `as any` is scoped to this call site only and does not
@@ -174,11 +181,30 @@ export function createUpdatePostAction<
     handler: async (input: z.infer<TSchema>, context: ActionAPIContext) => {
       const resolvedClient = await resolveRequiredActionClient(client, context);
 
-      return executeUpdatePost<TResponse>(
-        resolvedClient,
-        input as UpdatePostInput & Record<string, unknown>,
-        { resource, responseSchema, mapResponse },
-      );
+      const update = () =>
+        executeUpdatePost<TResponse>(
+          resolvedClient,
+          input as UpdatePostInput & Record<string, unknown>,
+          { resource, responseSchema, mapResponse },
+        );
+
+      return invalidateCache
+        ? writeContentWithCacheInvalidation(
+            resolvedClient,
+            context,
+            {
+              operation: 'update',
+              resource: resource ?? 'posts',
+              id: input.id,
+            },
+            update,
+          )
+        : update();
     },
-  } as any) as ActionClient<TResponse, undefined, TSchema> & string;
+  } as any) as ActionClient<
+    WithCacheInvalidation<TResponse>,
+    undefined,
+    TSchema
+  > &
+    string;
 }
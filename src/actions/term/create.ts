@@ -10,6 +10,11 @@ import {
   type WordPressCategory,
   type WordPressStandardSchema,
 } from 'fluent-wp-client';
+import {
+  type WithCacheInvalidation,
+  type WriteActionCacheOptions,
+  writeTermWithCacheInvalidation,
+} from '../cache/write';
 import {
   type ResolvableActionClient,
   resolveRequiredActionClient,
@@ -51,7 +56,8 @@ export type ExecuteCreateTermConfig<T = WordPressCategory> =
 /**
  * Shared non-auth options accepted by the create-term action factory.
  */
-export interface CreateTermActionOptions<T = WordPressCategory> {
+export interface CreateTermActionOptions<T = WordPressCategory>
+  extends WriteActionCacheOptions {
   /** REST resource path (default: 'categories') — set to 'tags' or a custom taxonomy rest_base */
   resource?: string;
   /** Optional parser override for the action response */
@@ -103,10 +109,11 @@ export function createCreateTermAction<
 >(
   client: ResolvableActionClient,
   options?: CreateTermActionFactoryOptions<TResponse, TSchema>,
-): ActionClient<TResponse, undefined, TSchema> & string {
+): ActionClient<WithCacheInvalidation<TResponse>, undefined, TSchema> & string {
   const inputSchema = (options?.schema ?? createTermInputSchema) as TSchema;
   const resource = options?.resource;
   const responseSchema = options?.responseSchema;
+  const invalidateCache = options?.invalidateCache;
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   return defineAction({
@@ -114,11 +121,26 @@ export function createCreateTermAction<
     handler: async (input: z.infer<TSchema>, context: ActionAPIContext) => {
       const resolvedClient = await resolveRequiredActionClient(client, context);
 
-      return executeCreateTerm<TResponse>(
-        resolvedClient,
-        input as CreateTermInput & Record<string, unknown>,
-        { resource, responseSchema },
-      );
+      const create = () =>
+        executeCreateTerm<TResponse>(
+          resolvedClient,
+          input as CreateTermInput & Record<string, unknown>,
+          { resource, responseSchema },
+        );
+
+      return invalidateCache
+        ? writeTermWithCacheInvalidation(
+            resolvedClient,
+            context,
+            { operation: 'create', resource: resource ?? 'categories' },
+            create,
+          )
+        : create();
     },
-  } as any) as ActionClient<TResponse, undefined, TSchema> & string;
+  } as any) as ActionClient<
+    WithCacheInvalidation<TResponse>,
+    undefined,
+    TSchema
+  > &
+    string;
 }
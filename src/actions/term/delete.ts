@@ -5,6 +5,11 @@ import {
 } from 'astro:actions';
 import { z } from 'astro/zod';
 import type { WordPressClient } from 'fluent-wp-client';
+import {
+  type WithCacheInvalidation,
+  type WriteActionCacheOptions,
+  writeTermWithCacheInvalidation,
+} from '../cache/write';
 import {
   type ResolvableActionClient,
   resolveRequiredActionClient,
@@ -42,7 +47,7 @@ export type ExecuteDeleteTermConfig = ExecuteDeleteTermOptions;
 /**
  * Shared non-auth options accepted by the delete-term action factory.
  */
-export interface DeleteTermActionOptions {
+export interface DeleteTermActionOptions extends WriteActionCacheOptions {
   /** REST resource path (default: 'categories') — set to 'tags' or a custom taxonomy rest_base */
   resource?: string;
 }
@@ -76,19 +81,38 @@ export async function executeDeleteTerm(
 export function createDeleteTermAction(
   client: ResolvableActionClient,
   options?: DeleteTermActionOptions,
-): ActionClient<DeleteTermResult, undefined, typeof deleteTermInputSchema> &
+): ActionClient<
+  WithCacheInvalidation<DeleteTermResult>,
+  undefined,
+  typeof deleteTermInputSchema
+> &
   string {
   const resource = options?.resource;
+  const invalidateCache = options?.invalidateCache;
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   return defineAction({
     input: deleteTermInputSchema,
     handler: async (input: DeleteTermInput, context: ActionAPIContext) => {
       const resolvedClient = await resolveRequiredActionClient(client, context);
-      return executeDeleteTerm(resolvedClient, input, { resource });
+      const remove = () =>
+        executeDeleteTerm(resolvedClient, input, { resource });
+
+      return invalidateCache
+        ? writeTermWithCacheInvalidation(
+            resolvedClient,
+            context,
+            {
+              operation: 'delete',
+              resource: resource ?? 'categories',
+              id: input.id,
+            },
+            remove,
+          )
+        : remove();
     },
   } as any) as ActionClient<
-    DeleteTermResult,
+    WithCacheInvalidation<DeleteTermResult>,
     undefined,
     typeof deleteTermInputSchema
   > &
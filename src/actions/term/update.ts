@@ -10,6 +10,11 @@ import {
   type WordPressCategory,
   type WordPressStandardSchema,
 } from 'fluent-wp-client';
+import {
+  type WithCacheInvalidation,
+  type WriteActionCacheOptions,
+  writeTermWithCacheInvalidation,
+} from '../cache/write';
 import {
   type ResolvableActionClient,
   resolveRequiredActionClient,
@@ -46,7 +51,8 @@ export type ExecuteUpdateTermConfig<T = WordPressCategory> =
 /**
  * Shared non-auth options accepted by the update-term action factory.
  */
-export interface UpdateTermActionOptions<T = WordPressCategory> {
+export interface UpdateTermActionOptions<T = WordPressCategory>
+  extends WriteActionCacheOptions {
   /** REST resource path (default: 'categories') — set to 'tags' or a custom taxonomy rest_base */
   resource?: string;
   /** Optional parser override for the action response */
@@ -97,10 +103,11 @@ export function createUpdateTermAction<
 >(
   client: ResolvableActionClient,
   options?: UpdateTermActionFactoryOptions<TResponse, TSchema>,
-): ActionClient<TResponse, undefined, TSchema> & string {
+): ActionClient<WithCacheInvalidation<TResponse>, undefined, TSchema> & string {
   const inputSchema = (options?.schema ?? updateTermInputSchema) as TSchema;
   const resource = options?.resource;
   const responseSchema = options?.responseSchema;
+  const invalidateCache = options?.invalidateCache;
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   return defineAction({
@@ -108,11 +115,30 @@ export function createUpdateTermAction<
     handler: async (input: z.infer<TSchema>, context: ActionAPIContext) => {
       const resolvedClient = await resolveRequiredActionClient(client, context);
 
-      return executeUpdateTerm<TResponse>(
-        resolvedClient,
-        input as UpdateTermInput & Record<string, unknown>,
-        { resource, responseSchema },
-      );
+      const update = () =>
+        executeUpdateTerm<TResponse>(
+          resolvedClient,
+          input as UpdateTermInput & Record<string, unknown>,
+          { resource, responseSchema },
+        );
+
+      return invalidateCache
+        ? writeTermWithCacheInvalidation(
+            resolvedClient,
+            context,
+            {
+              operation: 'update',
+              resource: resource ?? 'categories',
+              id: input.id,
+            },
+            update,
+          )
+        : update();
     },
-  } as any) as ActionClient<TResponse, undefined, TSchema> & string;
+  } as any) as ActionClient<
+    WithCacheInvalidation<TResponse>,
+    undefined,
+    TSchema
+  > &
+    string;
 }
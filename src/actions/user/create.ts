@@ -11,6 +11,11 @@ import {
   type WordPressAuthor,
   type WordPressStandardSchema,
 } from 'fluent-wp-client';
+import {
+  type WithCacheInvalidation,
+  type WriteActionCacheOptions,
+  writeUserWithCacheInvalidation,
+} from '../cache/write';
 import {
   type ResolvableActionClient,
   resolveRequiredActionClient,
@@ -55,7 +60,8 @@ export type ExecuteCreateUserConfig<T = WordPressAuthor> =
 /**
  * Shared non-auth options accepted by the create-user action factory.
  */
-export interface CreateUserActionOptions<T = WordPressAuthor> {
+export interface CreateUserActionOptions<T = WordPressAuthor>
+  extends WriteActionCacheOptions {
   /** Optional parser override for the action response */
   responseSchema?: WordPressStandardSchema<T>;
 }
@@ -103,9 +109,10 @@ export function createCreateUserAction<
 >(
   client: ResolvableActionClient,
   options?: CreateUserActionFactoryOptions<TResponse, TSchema>,
-): ActionClient<TResponse, undefined, TSchema> & string {
+): ActionClient<WithCacheInvalidation<TResponse>, undefined, TSchema> & string {
   const inputSchema = (options?.schema ?? createUserInputSchema) as TSchema;
   const responseSchema = options?.responseSchema;
+  const invalidateCache = options?.invalidateCache;
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   return defineAction({
@@ -113,11 +120,25 @@ export function createCreateUserAction<
     handler: async (input: z.infer<TSchema>, context: ActionAPIContext) => {
       const resolvedClient = await resolveRequiredActionClient(client, context);
 
-      return executeCreateUser<TResponse>(
-        resolvedClient,
-        input as CreateUserInput & Record<string, unknown>,
-        { responseSchema },
-      );
+      const create = () =>
+        executeCreateUser<TResponse>(
+          resolvedClient,
+          input as CreateUserInput & Record<string, unknown>,
+          { responseSchema },
+        );
+
+      return invalidateCache
+        ? writeUserWithCacheInvalidation(
+            context,
+            { operation: 'create' },
+            create,
+          )
+        : create();
     },
-  } as any) as ActionClient<TResponse, undefined, TSchema> & string;
+  } as any) as ActionClient<
+    WithCacheInvalidation<TResponse>,
+    undefined,
+    TSchema
+  > &
+    string;
 }
@@ -5,6 +5,11 @@ import {
 } from 'astro:actions';
 import { z } from 'astro/zod';
 import type { WordPressClient } from 'fluent-wp-client';
+import {
+  type WithCacheInvalidation,
+  type WriteActionCacheOptions,
+  writeUserWithCacheInvalidation,
+} from '../cache/write';
 import {
   type ResolvableActionClient,
   resolveRequiredActionClient,
@@ -44,7 +49,7 @@ export type ExecuteDeleteUserConfig = ExecuteDeleteUserOptions;
 /**
  * Shared non-auth options accepted by the delete-user action factory.
  */
-export interface DeleteUserActionOptions {}
+export interface DeleteUserActionOptions extends WriteActionCacheOptions {}
 
 /**
  * @deprecated Use `DeleteUserActionOptions` instead.
@@ -75,17 +80,36 @@ export async function executeDeleteUser(
  */
 export function createDeleteUserAction(
   client: ResolvableActionClient,
-): ActionClient<DeleteUserResult, undefined, typeof deleteUserInputSchema> &
+  options?: DeleteUserActionOptions,
+): ActionClient<
+  WithCacheInvalidation<DeleteUserResult>,
+  undefined,
+  typeof deleteUserInputSchema
+> &
   string {
+  const invalidateCache = options?.invalidateCache;
+
   return defineAction({
     input: deleteUserInputSchema,
     handler: async (input: DeleteUserInput, context: ActionAPIContext) => {
       const resolvedClient = await resolveRequiredActionClient(client, context);
-      return executeDeleteUser(resolvedClient, input);
+      const remove = () => executeDeleteUser(resolvedClient, input);
+
+      return invalidateCache
+        ? writeUserWithCacheInvalidation(
+            context,
+            {
+              operation: 'delete',
+              id: input.id,
+              relatedIds: [input.reassign],
+            },
+            remove,
+          )
+        : remove();
     },
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
   } as any) as ActionClient<
-    DeleteUserResult,
+    WithCacheInvalidation<DeleteUserResult>,
     undefined,
     typeof deleteUserInputSchema
   > &
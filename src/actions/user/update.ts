@@ -11,6 +11,11 @@ import {
   type WordPressAuthor,
   type WordPressStandardSchema,
 } from 'fluent-wp-client';
+import {
+  type WithCacheInvalidation,
+  type WriteActionCacheOptions,
+  writeUserWithCacheInvalidation,
+} from '../cache/write';
 import {
   type ResolvableActionClient,
   resolveRequiredActionClient,
@@ -56,7 +61,8 @@ export type ExecuteUpdateUserConfig<T = WordPressAuthor> =
 /**
  * Shared non-auth options accepted by the update-user action factory.
  */
-export interface UpdateUserActionOptions<T = WordPressAuthor> {
+export interface UpdateUserActionOptions<T = WordPressAuthor>
+  extends WriteActionCacheOptions {
   /** Optional parser override for the action response */
   responseSchema?: WordPressStandardSchema<T>;
 }
@@ -105,9 +111,10 @@ export function createUpdateUserAction<
 >(
   client: ResolvableActionClient,
   options?: UpdateUserActionFactoryOptions<TResponse, TSchema>,
-): ActionClient<TResponse, undefined, TSchema> & string {
+): ActionClient<WithCacheInvalidation<TResponse>, undefined, TSchema> & string {
   const inputSchema = (options?.schema ?? updateUserInputSchema) as TSchema;
   const responseSchema = options?.responseSchema;
+  const invalidateCache = options?.invalidateCache;
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   return defineAction({
@@ -115,11 +122,25 @@ export function createUpdateUserAction<
     handler: async (input: z.infer<TSchema>, context: ActionAPIContext) => {
       const resolvedClient = await resolveRequiredActionClient(client, context);
 
-      return executeUpdateUser<TResponse>(
-        resolvedClient,
-        input as UpdateUserInput & Record<string, unknown>,
-        { responseSchema },
-      );
+      const update = () =>
+        executeUpdateUser<TResponse>(
+          resolvedClient,
+          input as UpdateUserInput & Record<string, unknown>,
+          { responseSchema },
+        );
+
+      return invalidateCache
+        ? writeUserWithCacheInvalidation(
+            context,
+            { operation: 'update', id: input.id },
+            update,
+          )
+        : update();
     },
-  } as any) as ActionClient<TResponse, undefined, TSchema> & string;
+  } as any) as ActionClient<
+    WithCacheInvalidation<TResponse>,
+    undefined,
+    TSchema
+  > &
+    string;
 }
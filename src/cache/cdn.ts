@@ -0,0 +1,240 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+/**
+ * Purges tagged responses from one CDN or reverse proxy.
+ */
+export interface WordPressCdnPurgeAdapter {
+  /** Adapter name, e.g. `'fastly'`. */
+  name: string;
+  /** Purges every cached response carrying one of the surrogate keys. */
+  purge: (keys: string[]) => Promise<void>;
+}
+
+/**
+ * One CDN purge adapter that rejected a purge.
+ */
+export interface WordPressCdnPurgeFailure {
+  /** Name of the failing adapter. */
+  adapter: string;
+  /** Error message of the rejected purge. */
+  error: string;
+}
+
+/**
+ * One response header that lists the surrogate keys of a route.
+ */
+export interface WordPressSurrogateKeyHeader {
+  /** Header name, e.g. `Cache-Tag` or `Surrogate-Key`. */
+  name: string;
+  /** Separator between keys (default: `' '`). */
+  separator?: string;
+  /** Maximum header value length in bytes (default: 16 KB). */
+  maxLength?: number;
+}
+
+const DEFAULT_HEADER_SEPARATOR = ' ';
+const DEFAULT_HEADER_MAX_LENGTH = 16 * 1024;
+const HASHED_KEY_PREFIX = 'wph:';
+const HASHED_KEY_LENGTH = 8;
+const SAFE_KEY_PATTERN = /^[A-Za-z0-9:_-]+$/;
+
+/**
+ * Purge adapters registered in this process.
+ */
+const purgeAdapters = new Set<WordPressCdnPurgeAdapter>();
+
+/**
+ * Tags recorded by live loaders during one request.
+ */
+const tagStorage = new AsyncLocalStorage<Set<string>>();
+
+/**
+ * Runs one callback (usually middleware `next`) and collects the cache tags
+ * of every public live loader result it produced. Unlike `Astro.cache.tags`,
+ * this also works when no Astro cache provider is configured.
+ */
+export async function collectWordPressCacheTags<T>(
+  callback: () => Promise<T>,
+): Promise<{ value: T; tags: string[] }> {
+  const tags = new Set<string>();
+  const value = await tagStorage.run(tags, callback);
+
+  // Nested collectors (e.g. two middlewares) pass their tags outward too.
+  recordWordPressCacheTags([...tags]);
+
+  return { value, tags: [...tags] };
+}
+
+/**
+ * Runs middleware `next` and reads the whole response body inside the tag
+ * collector. Astro renders child components while the body streams, so tags
+ * read as soon as `next()` resolves miss their live loader calls.
+ */
+export async function collectWordPressResponseCacheTags(
+  next: () => Promise<Response>,
+): Promise<{ value: Response; tags: string[] }> {
+  return collectWordPressCacheTags(async () => {
+    const response = await next();
+
+    if (response.body === null) {
+      return response;
+    }
+
+    return new Response(await response.arrayBuffer(), {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  });
+}
+
+/**
+ * Records the tags of one live loader cache hint for the current request.
+ */
+export function recordWordPressCacheTags(tags: string[] | undefined): void {
+  const collected = tagStorage.getStore();
+
+  for (const tag of tags ?? []) {
+    collected?.add(tag);
+  }
+}
+
+/**
+ * Hashes one cache tag into a short surrogate key. The same tag always maps to
+ * the same key, so purges can target responses whose headers were hashed.
+ */
+export async function createWordPressHashedSurrogateKey(
+  tag: string,
+): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(tag),
+  );
+  const hex = [...new Uint8Array(digest)]
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+  return `${HASHED_KEY_PREFIX}${hex.slice(0, HASHED_KEY_LENGTH)}`;
+}
+
+/**
+ * Reports whether one tag can be sent as-is in a surrogate key header.
+ */
+function isSafeSurrogateKey(tag: string): boolean {
+  return SAFE_KEY_PATTERN.test(tag);
+}
+
+/**
+ * Formats the surrogate key header value of one route. Tags are sent as-is
+ * when they fit; otherwise every tag is replaced by its hashed key. Tags with
+ * characters outside `[A-Za-z0-9:_-]` are always hashed. Returns `undefined`
+ * when even the hashed keys exceed the header limit.
+ */
+export async function formatWordPressSurrogateKeyHeader(
+  tags: string[],
+  header: WordPressSurrogateKeyHeader,
+): Promise<string | undefined> {
+  const separator = header.separator ?? DEFAULT_HEADER_SEPARATOR;
+  const maxLength = header.maxLength ?? DEFAULT_HEADER_MAX_LENGTH;
+  const unique = [...new Set(tags)].sort();
+  const encoder = new TextEncoder();
+  const fits = (keys: string[]) =>
+    encoder.encode(keys.join(separator)).length <= maxLength;
+  const keys = await Promise.all(
+    unique.map((tag) =>
+      isSafeSurrogateKey(tag) ? tag : createWordPressHashedSurrogateKey(tag),
+    ),
+  );
+
+  if (fits(keys)) {
+    return [...new Set(keys)].join(separator);
+  }
+
+  const hashed = [
+    ...new Set(
+      await Promise.all(unique.map(createWordPressHashedSurrogateKey)),
+    ),
+  ].sort();
+
+  return fits(hashed) ? hashed.join(separator) : undefined;
+}
+
+/**
+ * Expands cache tags into every surrogate key a response may carry for them:
+ * the tag itself when it is header-safe, plus its hashed key.
+ */
+export async function getWordPressSurrogateKeys(
+  tags: string[],
+): Promise<string[]> {
+  const keys = await Promise.all(
+    tags.map(async (tag) => [
+      ...(isSafeSurrogateKey(tag) ? [tag] : []),
+      await createWordPressHashedSurrogateKey(tag),
+    ]),
+  );
+
+  return [...new Set(keys.flat())];
+}
+
+/**
+ * Registers one CDN purge adapter that cache invalidation actions, write
+ * actions, and the webhook route call with every invalidated tag set.
+ * Returns a function that removes the adapter again.
+ *
+ * @example
+ * // src/middleware.ts
+ * registerWordPressCdnPurgeAdapter(
+ *   createFastlyPurgeAdapter({
+ *     serviceId: import.meta.env.FASTLY_SERVICE_ID,
+ *     apiToken: import.meta.env.FASTLY_API_TOKEN,
+ *   }),
+ * );
+ */
+export function registerWordPressCdnPurgeAdapter(
+  adapter: WordPressCdnPurgeAdapter,
+): () => void {
+  purgeAdapters.add(adapter);
+
+  return () => {
+    purgeAdapters.delete(adapter);
+  };
+}
+
+/**
+ * Reports whether any CDN purge adapter is registered in this process.
+ */
+export function hasWordPressCdnPurgeAdapters(): boolean {
+  return purgeAdapters.size > 0;
+}
+
+/**
+ * Purges the surrogate keys of the tags from every registered CDN. Every
+ * adapter runs even when another one fails; resolves with the failures.
+ */
+export async function purgeWordPressCdnCaches(
+  tags: string[],
+): Promise<WordPressCdnPurgeFailure[]> {
+  if (purgeAdapters.size === 0 || tags.length === 0) {
+    return [];
+  }
+
+  const keys = await getWordPressSurrogateKeys(tags);
+  const adapters = [...purgeAdapters];
+  const results = await Promise.allSettled(
+    adapters.map((adapter) => adapter.purge(keys)),
+  );
+
+  return results.flatMap((result, index) =>
+    result.status === 'rejected'
+      ? [
+          {
+            adapter: adapters[index].name,
+            error:
+              result.reason instanceof Error
+                ? result.reason.message
+                : String(result.reason),
+          },
+        ]
+      : [],
+  );
+}
@@ -6,6 +6,13 @@ import type {
   WordPressPost,
   WordPressTag,
 } from 'fluent-wp-client';
+import type {
+  WordPressAcfRelationMap,
+  WordPressComment,
+  WordPressMenu,
+  WordPressMenuSource,
+  WordPressSearchResult,
+} from '../loaders/types';
 
 /**
  * Minimal cache hint shape shared between live loaders and cache invalidation helpers.
@@ -21,6 +28,7 @@ type WordPressPostLikeEntry = Pick<WordPressPost | WordPressPage, never> & {
   categories?: number[];
   tags?: number[];
   featured_media?: number;
+  acf?: unknown;
   date?: string;
   date_gmt?: string;
   modified?: string;
@@ -44,8 +52,64 @@ type WordPressTermEntry = Pick<
 
 type WordPressUserEntry = Pick<WordPressAuthor, 'id'>;
 
+type WordPressCommentEntry = Pick<
+  WordPressComment,
+  'id' | 'post' | 'author' | 'date' | 'date_gmt'
+>;
+
+type WordPressSearchEntry = Pick<
+  WordPressSearchResult,
+  'id' | 'type' | 'subtype' | 'resource' | 'entry'
+>;
+
+type WordPressMenuEntry = Pick<
+  WordPressMenu,
+  'id' | 'source' | 'locations' | 'modified_gmt'
+>;
+
+/**
+ * Post-like entry fields that decide which filtered listings contain it.
+ */
+export type WordPressMembershipEntry = {
+  id?: number;
+  status?: string;
+  author?: number;
+  parent?: number;
+  [field: string]: unknown;
+};
+
 const GLOBAL_CACHE_TAG = 'wp';
 
+/**
+ * Scalar fields that scope listings besides taxonomy term arrays.
+ */
+const MEMBERSHIP_FIELDS = ['status', 'author', 'parent'] as const;
+
+/**
+ * Entry fields whose listings (`sticky`, `slug`) have no scoped tag, so a
+ * change to them refreshes unscoped listings.
+ */
+const UNSCOPED_MEMBERSHIP_FIELDS = ['sticky', 'slug'] as const;
+
+/**
+ * Reports whether one filter narrows a listing by parameters without scoped
+ * tags (`sticky`, `slug`, `categoriesExclude`, `author_exclude`, and other
+ * exclusions), so the listing also needs the unscoped collection tag.
+ */
+function hasUnscopedMembershipFilter(source: Record<string, unknown>): boolean {
+  return Object.entries(source).some(
+    ([field, value]) =>
+      value !== undefined &&
+      ((UNSCOPED_MEMBERSHIP_FIELDS as readonly string[]).includes(field) ||
+        /(?:_e|E)xclude$/.test(field)),
+  );
+}
+
+/**
+ * Core taxonomy fields of posts; custom taxonomies are passed per loader.
+ */
+const CORE_TAXONOMY_FIELDS = ['categories', 'tags'] as const;
+
 /**
  * Removes duplicate cache tags while preserving their insertion order.
  */
@@ -154,30 +218,167 @@ function createContentRelationshipTags(
 }
 
 /**
- * Creates a cache hint for one post, page, or custom content entry.
+ * ID keys of the objects ACF returns for relation fields: posts and users
+ * (`ID`), terms (`term_id`), and image or file arrays (`id`).
+ */
+const ACF_OBJECT_ID_KEYS = ['ID', 'term_id', 'id'] as const;
+
+/**
+ * Reads the related IDs of one ACF field value: single IDs, ID arrays, and
+ * the post, term, user, image, and file objects ACF returns for them.
+ */
+function readAcfRelationIds(value: unknown): number[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(readAcfRelationIds);
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    const record = value as Record<string, unknown>;
+    const key = ACF_OBJECT_ID_KEYS.find((candidate) => candidate in record);
+
+    return key ? readAcfRelationIds(record[key]) : [];
+  }
+
+  const id = typeof value === 'string' ? Number(value) : value;
+
+  return typeof id === 'number' && Number.isInteger(id) && id > 0 ? [id] : [];
+}
+
+/**
+ * Creates the entry tags of every entry one post-like entry references
+ * through the configured ACF relation fields.
+ */
+function createAcfRelationshipTags(
+  entry: WordPressPostLikeEntry,
+  relations: WordPressAcfRelationMap | undefined,
+): string[] {
+  if (!relations || typeof entry.acf !== 'object' || entry.acf === null) {
+    return [];
+  }
+
+  const acf = entry.acf as Record<string, unknown>;
+
+  return Object.entries(relations).flatMap(([field, resources]) => {
+    const ids = readAcfRelationIds(acf[field]);
+
+    return (typeof resources === 'string' ? [resources] : resources).flatMap(
+      (resource) => ids.map((id) => `wp:entry:${resource}:${id}`),
+    );
+  });
+}
+
+/**
+ * Creates a cache hint for one post, page, or custom content entry. Pass the
+ * entry's ACF relation fields to tag it with the entries it references.
  */
 export function createContentEntryCacheHint(
   resource: string,
   entry: WordPressPostLikeEntry,
+  acfRelations?: WordPressAcfRelationMap,
 ): WordPressCacheHint {
   return {
     tags: dedupeTags([
       ...createBaseEntryTags(resource, entry.id),
       ...createContentRelationshipTags(entry),
+      ...createAcfRelationshipTags(entry, acfRelations),
     ]),
     lastModified: getWordPressLastModified(entry),
   };
 }
 
 /**
- * Creates the collection-level cache hint for post-like resources.
+ * Builds the tag of listings scoped to one field value, or of unscoped
+ * listings when no field is given.
+ */
+function createCollectionTag(
+  resource: string,
+  field?: string,
+  value?: string | number,
+): string {
+  return field === undefined
+    ? `wp:collection:${resource}`
+    : `wp:collection:${resource}:${field}:${value}`;
+}
+
+/**
+ * Reads the values of one filter or entry field: single values, arrays, and
+ * comma-separated strings. Numeric fields only keep IDs (`0` is a valid
+ * top-level `parent`).
+ */
+function readMembershipValues(
+  value: unknown,
+  numeric: boolean,
+): Array<string | number> {
+  const values = Array.isArray(value)
+    ? value
+    : typeof value === 'string'
+      ? value.split(',')
+      : [value];
+
+  return values.flatMap((item): Array<string | number> => {
+    if (!numeric) {
+      return typeof item === 'string' && item.trim() ? [item.trim()] : [];
+    }
+
+    const id = typeof item === 'string' ? Number(item.trim()) : item;
+
+    return typeof id === 'number' && Number.isInteger(id) && id >= 0
+      ? [id]
+      : [];
+  });
+}
+
+/**
+ * Creates the filter-derived tags of one post-like listing. Listings scoped
+ * by status, author, parent, or taxonomy terms only carry those tags, so
+ * changes to unrelated entries never invalidate them; other listings, and
+ * listings also filtered by `sticky`, `slug`, or `*_exclude`, carry the
+ * unscoped collection tag.
+ */
+function createContentFilterTags(
+  resource: string,
+  filter: object | undefined,
+  taxonomies: readonly string[],
+): string[] {
+  const source = (filter ?? {}) as Record<string, unknown>;
+  const tags = [...MEMBERSHIP_FIELDS, ...CORE_TAXONOMY_FIELDS, ...taxonomies]
+    // `status: 'any'` spans every status, so it cannot scope the listing.
+    .filter(
+      (field) =>
+        source[field] !== undefined &&
+        !(
+          field === 'status' &&
+          readMembershipValues(source[field], false).includes('any')
+        ),
+    )
+    .flatMap((field) =>
+      readMembershipValues(source[field], field !== 'status').map((value) =>
+        createCollectionTag(resource, field, value),
+      ),
+    );
+
+  return tags.length > 0 && !hasUnscopedMembershipFilter(source)
+    ? tags
+    : [...tags, createCollectionTag(resource)];
+}
+
+/**
+ * Creates the collection-level cache hint for post-like resources. Filters
+ * add scoped tags (see `createContentMembershipInvalidationTags()`); pass
+ * the REST fields of custom taxonomies so their filters are scoped too.
  */
 export function createContentCollectionCacheHint(
   resource: string,
   entries: WordPressPostLikeEntry[],
+  filter?: object,
+  taxonomies: readonly string[] = [],
 ): WordPressCacheHint {
   return {
-    tags: dedupeTags([GLOBAL_CACHE_TAG, `wp:resource:${resource}`]),
+    tags: dedupeTags([
+      GLOBAL_CACHE_TAG,
+      `wp:resource:${resource}`,
+      ...createContentFilterTags(resource, filter, taxonomies),
+    ]),
     lastModified: getMostRecentLastModified(entries),
   };
 }
@@ -278,6 +479,138 @@ export function createUserCollectionCacheHint(): WordPressCacheHint {
   };
 }
 
+/**
+ * Creates a cache hint for one search result using the tags of the matched
+ * entry, so editing that post or term invalidates cached search pages.
+ * Hydrated results also carry relationship tags and `lastModified`.
+ */
+export function createSearchEntryCacheHint(
+  result: WordPressSearchEntry,
+): WordPressCacheHint {
+  if (result.type === 'post' && result.entry) {
+    return createContentEntryCacheHint(
+      result.resource,
+      result.entry as WordPressPostLikeEntry,
+    );
+  }
+
+  if (result.type === 'term' && result.entry) {
+    return createTermEntryCacheHint(
+      result.resource,
+      result.entry as WordPressTermEntry,
+    );
+  }
+
+  return {
+    tags: dedupeTags([
+      ...createBaseEntryTags(result.resource, result.id),
+      ...(result.type === 'term'
+        ? [`wp:term:${result.subtype}:${result.id}`]
+        : []),
+    ]),
+  };
+}
+
+/**
+ * Tag carried by every cached view of the site settings singleton.
+ */
+const SETTINGS_CACHE_TAG = 'wp:settings';
+
+/**
+ * Creates the cache hint for the site settings singleton. Settings expose no
+ * modification timestamp, so the hint carries tags only.
+ */
+export function createSettingsCacheHint(): WordPressCacheHint {
+  return {
+    tags: [GLOBAL_CACHE_TAG, SETTINGS_CACHE_TAG],
+  };
+}
+
+/**
+ * Builds the tag shared by every cached comment view of one post, so comment
+ * moderation only invalidates that post's pages.
+ */
+function createPostCommentsTag(postId: number): string {
+  return `wp:post-comments:${postId}`;
+}
+
+/**
+ * Creates a cache hint for one comment, tagged with its parent post.
+ */
+export function createCommentEntryCacheHint(
+  entry: WordPressCommentEntry,
+): WordPressCacheHint {
+  const tags = createBaseEntryTags('comments', entry.id);
+
+  if (entry.post > 0) {
+    tags.push(
+      `wp:entry:posts:${entry.post}`,
+      createPostCommentsTag(entry.post),
+    );
+  }
+
+  if (entry.author > 0) {
+    tags.push(`wp:author:${entry.author}`);
+  }
+
+  return {
+    tags: dedupeTags(tags),
+    lastModified: getWordPressLastModified(entry),
+  };
+}
+
+/**
+ * Creates the collection-level cache hint for comments. Post-scoped listings
+ * carry the per-post comment tag so new or approved comments refresh them.
+ */
+export function createCommentCollectionCacheHint(
+  entries: WordPressCommentEntry[],
+  filter?: { post?: number | number[] },
+): WordPressCacheHint {
+  const postIds =
+    filter?.post === undefined
+      ? entries.map((entry) => entry.post)
+      : [filter.post].flat();
+
+  return {
+    tags: dedupeTags([
+      GLOBAL_CACHE_TAG,
+      'wp:resource:comments',
+      ...postIds.filter((id) => id > 0).map(createPostCommentsTag),
+    ]),
+    lastModified: getMostRecentLastModified(entries),
+  };
+}
+
+/**
+ * Creates a cache hint for one navigation menu. Menus are tagged by ID and by
+ * theme location, so one menu edit only invalidates pages that render it.
+ */
+export function createMenuEntryCacheHint(
+  entry: WordPressMenuEntry,
+): WordPressCacheHint {
+  return {
+    tags: dedupeTags([
+      ...createBaseEntryTags(entry.source, entry.id),
+      ...entry.locations.map((location) => `wp:menu-location:${location}`),
+    ]),
+    lastModified: getWordPressLastModified(entry),
+  };
+}
+
+/**
+ * Creates the collection-level cache hint for one menu source.
+ */
+export function createMenuCollectionCacheHint(
+  source: WordPressMenuSource,
+  entries: WordPressMenuEntry[],
+): WordPressCacheHint {
+  return {
+    tags: dedupeTags([GLOBAL_CACHE_TAG, `wp:resource:${source}`]),
+    lastModified: getMostRecentLastModified(entries),
+  };
+}
+
 /**
  * Creates the minimal invalidation tag set for one content entry change.
  */
@@ -288,6 +621,112 @@ export function createContentInvalidationTags(
   return [`wp:entry:${resource}:${id}`];
 }
 
+/**
+ * Creates the minimal invalidation tag set for one media item change. Content
+ * using the item as featured media carries the same tag.
+ */
+export function createMediaInvalidationTags(id: number): string[] {
+  return [`wp:entry:media:${id}`];
+}
+
+/**
+ * Creates the scoped collection tags one entry state belongs to. Every
+ * array of IDs counts as a taxonomy field, so custom taxonomies need no
+ * configuration here.
+ */
+function createMembershipTags(
+  resource: string,
+  entry: WordPressMembershipEntry,
+): string[] {
+  return Object.entries(entry).flatMap(([field, value]) => {
+    const isMembershipField = (MEMBERSHIP_FIELDS as readonly string[]).includes(
+      field,
+    );
+    const isTermField =
+      Array.isArray(value) && value.every((item) => typeof item === 'number');
+
+    if (!isMembershipField && !isTermField) {
+      return [];
+    }
+
+    return readMembershipValues(value, field !== 'status').map((item) =>
+      createCollectionTag(resource, field, item),
+    );
+  });
+}
+
+/**
+ * Returns the tags present in only one of two tag sets.
+ */
+function diffTags(before: string[], after: string[]): string[] {
+  return [
+    ...before.filter((tag) => !after.includes(tag)),
+    ...after.filter((tag) => !before.includes(tag)),
+  ];
+}
+
+/**
+ * Creates the invalidation tags for one post-like entry joining or leaving
+ * filtered listings. Pass the entry before and after the change (`undefined`
+ * for creations and deletions). Status changes, creations, and deletions
+ * refresh every listing of both states plus unscoped listings; other changes
+ * refresh listings of the terms, author, or parent that changed, plus
+ * unscoped listings whenever a membership field, `sticky`, or `slug` changed,
+ * because exclusion filters cannot be scoped.
+ */
+export function createContentMembershipInvalidationTags(
+  resource: string,
+  before: WordPressMembershipEntry | undefined,
+  after: WordPressMembershipEntry | undefined,
+): string[] {
+  const id = after?.id ?? before?.id;
+  const beforeTags = before ? createMembershipTags(resource, before) : [];
+  const afterTags = after ? createMembershipTags(resource, after) : [];
+  const visibilityChanged =
+    !before || !after || (before.status ?? '') !== (after.status ?? '');
+  const changedTags = visibilityChanged
+    ? [...beforeTags, ...afterTags]
+    : diffTags(beforeTags, afterTags);
+  const membershipChanged =
+    visibilityChanged ||
+    changedTags.length > 0 ||
+    UNSCOPED_MEMBERSHIP_FIELDS.some(
+      (field) => before?.[field] !== after?.[field],
+    );
+
+  return dedupeTags([
+    ...(typeof id === 'number'
+      ? createContentInvalidationTags(resource, id)
+      : []),
+    ...(membershipChanged ? [createCollectionTag(resource)] : []),
+    ...changedTags,
+  ]);
+}
+
+/**
+ * Creates every tag one post-like write touches: the entry, the filtered
+ * listings it joins or leaves, and the relationship tags (author, terms,
+ * featured media) it gained or lost. Pass `undefined` for the missing state
+ * of creations and deletions.
+ */
+export function createContentWriteInvalidationTags(
+  resource: string,
+  before: (WordPressMembershipEntry & WordPressPostLikeEntry) | undefined,
+  after: (WordPressMembershipEntry & WordPressPostLikeEntry) | undefined,
+): string[] {
+  const beforeTags = before ? createContentRelationshipTags(before) : [];
+  const afterTags = after ? createContentRelationshipTags(after) : [];
+  const relationshipTags =
+    before && after
+      ? diffTags(beforeTags, afterTags)
+      : [...beforeTags, ...afterTags];
+
+  return dedupeTags([
+    ...createContentMembershipInvalidationTags(resource, before, after),
+    ...relationshipTags,
+  ]);
+}
+
 /**
  * Creates the minimal invalidation tag set for one taxonomy term change.
  */
@@ -304,3 +743,97 @@ export function createTermInvalidationTags(
 export function createUserInvalidationTags(id: number): string[] {
   return [`wp:entry:users:${id}`];
 }
+
+/**
+ * Creates every tag one term write touches: the term entry, entries related
+ * to the term, and the taxonomy listings. Falls back to the resource tag when
+ * neither state of the term could be read.
+ */
+export function createTermWriteInvalidationTags(
+  resource: string,
+  before: WordPressTermEntry | undefined,
+  after: WordPressTermEntry | undefined,
+): string[] {
+  const entries = [before, after].filter(
+    (entry): entry is WordPressTermEntry => entry !== undefined,
+  );
+
+  if (entries.length === 0) {
+    return [`wp:resource:${resource}`];
+  }
+
+  return dedupeTags(
+    entries.flatMap((entry) => [
+      ...createTermInvalidationTags(resource, entry),
+      `wp:term:${entry.taxonomy}:${entry.id}`,
+      `wp:taxonomy:${entry.taxonomy}`,
+    ]),
+  );
+}
+
+/**
+ * Creates every tag one user write touches: the user entry, content written
+ * by the user, and user listings.
+ */
+export function createUserWriteInvalidationTags(
+  id: number | undefined,
+): string[] {
+  return [
+    ...(typeof id === 'number'
+      ? [...createUserInvalidationTags(id), `wp:author:${id}`]
+      : []),
+    'wp:resource:users',
+  ];
+}
+
+/**
+ * Creates the invalidation tag set for every cached entry and listing of one
+ * REST resource.
+ */
+export function createResourceInvalidationTags(resource: string): string[] {
+  return [`wp:resource:${resource}`];
+}
+
+/**
+ * Creates the invalidation tag set for the term listings of one taxonomy.
+ */
+export function createTaxonomyInvalidationTags(taxonomy: string): string[] {
+  return [`wp:taxonomy:${taxonomy}`];
+}
+
+/**
+ * Creates the invalidation tag set for everything related to one author.
+ */
+export function createAuthorInvalidationTags(id: number): string[] {
+  return [`wp:author:${id}`];
+}
+
+/**
+ * Creates the minimal invalidation tag set for one comment change. Includes the
+ * per-post comment tag because new or approved comments have no cached entry yet.
+ */
+export function createCommentInvalidationTags(
+  entry: Pick<WordPressComment, 'id' | 'post'>,
+): string[] {
+  return [
+    `wp:entry:comments:${entry.id}`,
+    ...(entry.post > 0 ? [createPostCommentsTag(entry.post)] : []),
+  ];
+}
+
+/**
+ * Creates the minimal invalidation tag set for one site settings change.
+ */
+export function createSettingsInvalidationTags(): string[] {
+  return [SETTINGS_CACHE_TAG];
+}
+
+/**
+ * Creates the minimal invalidation tag set for one menu change.
+ */
+export function createMenuInvalidationTags(
+  source: WordPressMenuSource,
+  id: number,
+): string[] {
+  return [`wp:entry:${source}:${id}`];
+}
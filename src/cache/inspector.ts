@@ -0,0 +1,77 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { WordPressCacheHint } from './hints';
+
+/**
+ * Reasons a live loader returned no route-level cache hint.
+ */
+export type WordPressCacheHintDropReason =
+  | 'authenticated'
+  | 'preview'
+  | 'stale'
+  | 'free-text-search';
+
+/**
+ * One live loader call made while rendering a route, as shown by the dev
+ * toolbar cache inspector.
+ */
+export interface WordPressLoaderCallReport {
+  /** Loader name, e.g. `wordpress-post-loader`. */
+  loader: string;
+  resource: string;
+  kind: 'collection' | 'entry';
+  filter: unknown;
+  /** Every tag the call contributed, including per-entry hints. */
+  tags: string[];
+  /** Newest modification time of the returned hint, as ISO string. */
+  lastModified?: string;
+  /** Entries returned by collection calls. */
+  entries?: number;
+  /** Why the call returned no route-level hint. */
+  dropped?: WordPressCacheHintDropReason;
+  /** Loader error message, when the call failed. */
+  error?: string;
+}
+
+/**
+ * Loader calls recorded during one request.
+ */
+const callStorage = new AsyncLocalStorage<WordPressLoaderCallReport[]>();
+
+/**
+ * Runs one callback (usually middleware `next` plus reading the body) and
+ * collects every live loader call it made.
+ */
+export async function collectWordPressLoaderCalls<T>(
+  callback: () => Promise<T>,
+): Promise<{ value: T; calls: WordPressLoaderCallReport[] }> {
+  const calls: WordPressLoaderCallReport[] = [];
+  const value = await callStorage.run(calls, callback);
+
+  return { value, calls };
+}
+
+/**
+ * Reports whether loader calls are being collected for the current request,
+ * so loaders only build reports when the inspector is active.
+ */
+export function isInspectingWordPressLoaderCalls(): boolean {
+  return callStorage.getStore() !== undefined;
+}
+
+/**
+ * Records one live loader call for the current request.
+ */
+export function recordWordPressLoaderCall(
+  report: WordPressLoaderCallReport,
+): void {
+  callStorage.getStore()?.push(report);
+}
+
+/**
+ * Serializes the `lastModified` of one cache hint for reports.
+ */
+export function toReportedLastModified(
+  hint: WordPressCacheHint | undefined,
+): string | undefined {
+  return hint?.lastModified?.toISOString();
+}
@@ -0,0 +1,44 @@
+import type { APIContext } from 'astro';
+import { purgeWordPressCdnCaches, type WordPressCdnPurgeFailure } from './cdn';
+import { invalidateWordPressLiveCaches } from './memory';
+import { warmWordPressRoutes } from './warmup';
+
+/**
+ * Request context parts an invalidation needs; actions and API routes both
+ * provide them.
+ */
+export type WordPressInvalidationContext = Pick<APIContext, 'cache' | 'url'>;
+
+/**
+ * Outcome of one tag invalidation.
+ */
+export interface WordPressTagInvalidation {
+  /** Route URLs queued for a background re-render. */
+  warmed: string[];
+  /** CDN purge adapters that rejected the purge. */
+  cdnFailures: WordPressCdnPurgeFailure[];
+}
+
+/**
+ * Invalidates one tag set in Astro's route cache, every live loader memory
+ * cache, and every registered CDN, then queues warming of the affected
+ * routes. Failed CDN purges are reported instead of thrown, so routes are
+ * still warmed.
+ */
+export async function invalidateWordPressTags(
+  context: WordPressInvalidationContext,
+  tags: string[],
+): Promise<WordPressTagInvalidation> {
+  if (context.cache.enabled) {
+    await context.cache.invalidate({ tags });
+  }
+
+  await invalidateWordPressLiveCaches(tags);
+
+  const cdnFailures = await purgeWordPressCdnCaches(tags);
+
+  return {
+    warmed: await warmWordPressRoutes(tags, context.url.origin),
+    cdnFailures,
+  };
+}
@@ -0,0 +1,299 @@
+/**
+ * One cached loader result with its invalidation tags and freshness window.
+ */
+export interface WordPressCacheRecord<TValue = unknown> {
+  value: TValue;
+  /** Tags from `src/cache/hints.ts`, used for tag-based eviction. */
+  tags: string[];
+  /** Unix time in ms after which the record is revalidated in the background. */
+  staleAt: number;
+  /** Unix time in ms after which the record is no longer served. */
+  expiresAt: number;
+}
+
+/**
+ * Pluggable storage behind one live loader cache. Methods may be sync or
+ * async so external stores (Redis, KV) can implement the same contract.
+ */
+export interface WordPressCacheStore {
+  get: (
+    key: string,
+  ) =>
+    | WordPressCacheRecord
+    | undefined
+    | Promise<WordPressCacheRecord | undefined>;
+  set: (key: string, record: WordPressCacheRecord) => void | Promise<void>;
+  /** Removes every record carrying at least one of the tags. */
+  deleteTags: (tags: string[]) => void | Promise<void>;
+  clear: () => void | Promise<void>;
+}
+
+/**
+ * Options for `createWordPressMemoryCache()`.
+ */
+export interface WordPressMemoryCacheOptions {
+  /** Seconds one result is served without revalidation (default: 60) */
+  ttl?: number;
+  /**
+   * Extra seconds a stale result is still served while one background request
+   * refreshes it (default: 300). Set to 0 to always reload expired results.
+   */
+  staleWhileRevalidate?: number;
+  /** Maximum records kept by the default LRU store (default: 500) */
+  maxEntries?: number;
+  /** Custom storage replacing the default in-memory LRU store. */
+  store?: WordPressCacheStore;
+}
+
+/**
+ * Stale-while-revalidate cache shared by live loaders.
+ */
+export interface WordPressLiveCache {
+  /**
+   * Returns the cached value for one key, loading it on a miss. Stale values
+   * are returned immediately while one background load refreshes them.
+   * `undefined` results (not found) are never stored.
+   */
+  load: <TValue>(
+    key: string,
+    loader: () => Promise<TValue>,
+    getTags: (value: TValue) => string[],
+  ) => Promise<TValue>;
+  /** Evicts every record carrying at least one of the tags. */
+  invalidate: (tags: string[]) => Promise<void>;
+  /** Evicts every record. */
+  clear: () => Promise<void>;
+}
+
+const DEFAULT_TTL_SECONDS = 60;
+const DEFAULT_STALE_WHILE_REVALIDATE_SECONDS = 60 * 5;
+const DEFAULT_MAX_ENTRIES = 500;
+
+/**
+ * Every cache created in this process, so invalidation actions can evict
+ * from them without a reference to the loader configuration.
+ */
+const liveCaches = new Set<WordPressLiveCache>();
+
+/**
+ * Creates the default in-memory store: a `Map` kept in least-recently-used
+ * order plus a tag index for eviction.
+ */
+function createMemoryCacheStore(maxEntries: number): WordPressCacheStore {
+  const records = new Map<string, WordPressCacheRecord>();
+  const keysByTag = new Map<string, Set<string>>();
+
+  /**
+   * Removes one record and its tag index entries.
+   */
+  function remove(key: string): void {
+    const record = records.get(key);
+
+    if (!record) {
+      return;
+    }
+
+    records.delete(key);
+
+    for (const tag of record.tags) {
+      const keys = keysByTag.get(tag);
+
+      keys?.delete(key);
+
+      if (keys?.size === 0) {
+        keysByTag.delete(tag);
+      }
+    }
+  }
+
+  return {
+    get: (key) => {
+      const record = records.get(key);
+
+      if (!record) {
+        return undefined;
+      }
+
+      if (record.expiresAt <= Date.now()) {
+        remove(key);
+        return undefined;
+      }
+
+      // Re-insert so iteration order stays least-recently-used first.
+      records.delete(key);
+      records.set(key, record);
+
+      return record;
+    },
+    set: (key, record) => {
+      remove(key);
+      records.set(key, record);
+
+      for (const tag of record.tags) {
+        const keys = keysByTag.get(tag) ?? new Set<string>();
+
+        keys.add(key);
+        keysByTag.set(tag, keys);
+      }
+
+      for (const oldest of records.keys()) {
+        if (records.size <= maxEntries) {
+          break;
+        }
+
+        remove(oldest);
+      }
+    },
+    deleteTags: (tags) => {
+      for (const tag of tags) {
+        for (const key of [...(keysByTag.get(tag) ?? [])]) {
+          remove(key);
+        }
+      }
+    },
+    clear: () => {
+      records.clear();
+      keysByTag.clear();
+    },
+  };
+}
+
+/**
+ * Serializes one loader filter into a stable cache key segment. Object keys
+ * are sorted so `{ a, b }` and `{ b, a }` share one record.
+ */
+export function serializeCacheKey(value: unknown): string {
+  return (
+    JSON.stringify(value, (_key, current: unknown) => {
+      if (
+        typeof current !== 'object' ||
+        current === null ||
+        Array.isArray(current)
+      ) {
+        return current;
+      }
+
+      return Object.fromEntries(
+        Object.entries(current).sort(([a], [b]) => a.localeCompare(b)),
+      );
+    }) ?? ''
+  );
+}
+
+/**
+ * Creates one stale-while-revalidate cache for live loaders. Pass it as the
+ * `cache` option of any live loader; records are tagged with the same cache
+ * tags as Astro route caching, so `createWpCacheInvalidateAction()` evicts
+ * them too.
+ *
+ * @example
+ * const cache = createWordPressMemoryCache({ ttl: 30, maxEntries: 1000 });
+ *
+ * const posts = defineLiveCollection({
+ *   loader: wordPressPostLoader(wp, { cache }),
+ * });
+ */
+export function createWordPressMemoryCache(
+  options: WordPressMemoryCacheOptions = {},
+): WordPressLiveCache {
+  const ttl = (options.ttl ?? DEFAULT_TTL_SECONDS) * 1000;
+  const staleWhileRevalidate =
+    (options.staleWhileRevalidate ?? DEFAULT_STALE_WHILE_REVALIDATE_SECONDS) *
+    1000;
+  const store =
+    options.store ??
+    createMemoryCacheStore(options.maxEntries ?? DEFAULT_MAX_ENTRIES);
+  const pending = new Map<string, Promise<unknown>>();
+  // Bumped on eviction so loads started earlier do not write old data back.
+  let generation = 0;
+
+  /**
+   * Loads one key once at a time and stores the result when no eviction
+   * happened in the meantime.
+   */
+  function refresh<TValue>(
+    key: string,
+    loader: () => Promise<TValue>,
+    getTags: (value: TValue) => string[],
+  ): Promise<TValue> {
+    const inFlight = pending.get(key);
+
+    if (inFlight) {
+      return inFlight as Promise<TValue>;
+    }
+
+    const startedAt = generation;
+    const request: Promise<TValue> = loader()
+      .then(async (value) => {
+        if (value !== undefined && startedAt === generation) {
+          const now = Date.now();
+
+          await store.set(key, {
+            value,
+            tags: getTags(value),
+            staleAt: now + ttl,
+            expiresAt: now + ttl + staleWhileRevalidate,
+          });
+        }
+
+        return value;
+      })
+      .finally(() => {
+        if (pending.get(key) === request) {
+          pending.delete(key);
+        }
+      });
+
+    pending.set(key, request);
+
+    return request;
+  }
+
+  const cache: WordPressLiveCache = {
+    load: async (key, loader, getTags) => {
+      const record = await store.get(key);
+      const now = Date.now();
+
+      if (!record || record.expiresAt <= now) {
+        return refresh(key, loader, getTags);
+      }
+
+      if (record.staleAt <= now) {
+        // Failed background refreshes keep serving the stale record.
+        refresh(key, loader, getTags).catch(() => undefined);
+      }
+
+      return record.value as Awaited<ReturnType<typeof loader>>;
+    },
+    invalidate: async (tags) => {
+      generation += 1;
+      pending.clear();
+      await store.deleteTags(tags);
+    },
+    clear: async () => {
+      generation += 1;
+      pending.clear();
+      await store.clear();
+    },
+  };
+
+  liveCaches.add(cache);
+
+  return cache;
+}
+
+/**
+ * Reports whether any live loader cache exists in this process.
+ */
+export function hasWordPressLiveCaches(): boolean {
+  return liveCaches.size > 0;
+}
+
+/**
+ * Evicts the tags from every live loader cache created in this process.
+ */
+export async function invalidateWordPressLiveCaches(
+  tags: string[],
+): Promise<void> {
+  await Promise.all([...liveCaches].map((cache) => cache.invalidate(tags)));
+}
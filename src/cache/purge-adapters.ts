@@ -0,0 +1,197 @@
+import type { WordPressCdnPurgeAdapter } from './cdn';
+
+/**
+ * Options shared by every HTTP purge adapter.
+ */
+interface PurgeAdapterBaseOptions {
+  /** Maximum surrogate keys sent per purge request. */
+  chunkSize?: number;
+}
+
+/**
+ * Options for purging Cloudflare's cache by `Cache-Tag`.
+ */
+export interface CloudflarePurgeAdapterOptions extends PurgeAdapterBaseOptions {
+  zoneId: string;
+  /** API token with the `Zone.Cache Purge` permission. */
+  apiToken: string;
+  /** API base URL (default: 'https://api.cloudflare.com/client/v4') */
+  apiUrl?: string;
+}
+
+/**
+ * Options for purging Fastly's cache by `Surrogate-Key`.
+ */
+export interface FastlyPurgeAdapterOptions extends PurgeAdapterBaseOptions {
+  serviceId: string;
+  /** API token with the `purge_select` scope. */
+  apiToken: string;
+  /** API base URL (default: 'https://api.fastly.com') */
+  apiUrl?: string;
+  /** Marks content stale instead of evicting it (default: false) */
+  softPurge?: boolean;
+}
+
+/**
+ * Options for purging a reverse proxy such as Varnish with one HTTP request
+ * that lists the keys in a header.
+ */
+export interface HttpBanPurgeAdapterOptions extends PurgeAdapterBaseOptions {
+  /** URL the purge requests are sent to. */
+  url: string;
+  /** Request method (default: 'BAN') */
+  method?: string;
+  /** Header listing the keys (default: 'X-Cache-Tags') */
+  header?: string;
+  /** Separator between keys (default: '|', ready for a VCL regex) */
+  separator?: string;
+  /** Extra request headers, e.g. a shared secret the proxy checks. */
+  headers?: Record<string, string>;
+}
+
+const DEFAULT_CLOUDFLARE_API_URL = 'https://api.cloudflare.com/client/v4';
+const DEFAULT_FASTLY_API_URL = 'https://api.fastly.com';
+const CLOUDFLARE_CHUNK_SIZE = 30;
+const FASTLY_CHUNK_SIZE = 256;
+const HTTP_BAN_CHUNK_SIZE = 100;
+
+/**
+ * Splits one key list into chunks of at most `size` keys.
+ */
+function chunkKeys(keys: string[], size: number): string[][] {
+  const chunks: string[][] = [];
+  const chunkSize = Math.max(1, size);
+
+  for (let start = 0; start < keys.length; start += chunkSize) {
+    chunks.push(keys.slice(start, start + chunkSize));
+  }
+
+  return chunks;
+}
+
+/**
+ * Sends one purge request per chunk, in order, and throws on the first
+ * rejected request.
+ */
+async function sendPurgeRequests(
+  name: string,
+  keys: string[],
+  chunkSize: number,
+  createRequest: (chunk: string[]) => { url: string; init: RequestInit },
+): Promise<void> {
+  for (const chunk of chunkKeys(keys, chunkSize)) {
+    const { url, init } = createRequest(chunk);
+    const response = await fetch(url, init);
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+
+      throw new Error(
+        `${name} purge failed with HTTP ${response.status}${detail ? `: ${detail}` : '.'}`,
+      );
+    }
+  }
+}
+
+/**
+ * Removes one trailing slash from a configured base URL.
+ */
+function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * Creates one purge adapter for Cloudflare's purge-by-tag API. Pair it with a
+ * `Cache-Tag` surrogate key header using `,` as separator.
+ */
+export function createCloudflarePurgeAdapter(
+  options: CloudflarePurgeAdapterOptions,
+): WordPressCdnPurgeAdapter {
+  const apiUrl = trimTrailingSlash(
+    options.apiUrl ?? DEFAULT_CLOUDFLARE_API_URL,
+  );
+
+  return {
+    name: 'cloudflare',
+    purge: (keys) =>
+      sendPurgeRequests(
+        'Cloudflare',
+        keys,
+        options.chunkSize ?? CLOUDFLARE_CHUNK_SIZE,
+        (chunk) => ({
+          url: `${apiUrl}/zones/${encodeURIComponent(options.zoneId)}/purge_cache`,
+          init: {
+            method: 'POST',
+            headers: {
+              Authorization: `Bearer ${options.apiToken}`,
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ tags: chunk }),
+          },
+        }),
+      ),
+  };
+}
+
+/**
+ * Creates one purge adapter for Fastly's purge-by-surrogate-key API. Pair it
+ * with a `Surrogate-Key` header using `' '` as separator.
+ */
+export function createFastlyPurgeAdapter(
+  options: FastlyPurgeAdapterOptions,
+): WordPressCdnPurgeAdapter {
+  const apiUrl = trimTrailingSlash(options.apiUrl ?? DEFAULT_FASTLY_API_URL);
+
+  return {
+    name: 'fastly',
+    purge: (keys) =>
+      sendPurgeRequests(
+        'Fastly',
+        keys,
+        options.chunkSize ?? FASTLY_CHUNK_SIZE,
+        (chunk) => ({
+          url: `${apiUrl}/service/${encodeURIComponent(options.serviceId)}/purge`,
+          init: {
+            method: 'POST',
+            headers: {
+              'Fastly-Key': options.apiToken,
+              'Surrogate-Key': chunk.join(' '),
+              ...(options.softPurge ? { 'Fastly-Soft-Purge': '1' } : {}),
+            },
+          },
+        }),
+      ),
+  };
+}
+
+/**
+ * Creates one purge adapter that sends the keys in a header of a `BAN` (or
+ * other) request, for reverse proxies such as Varnish that ban objects whose
+ * `Surrogate-Key` header matches.
+ */
+export function createHttpBanPurgeAdapter(
+  options: HttpBanPurgeAdapterOptions,
+): WordPressCdnPurgeAdapter {
+  const header = options.header ?? 'X-Cache-Tags';
+  const separator = options.separator ?? '|';
+
+  return {
+    name: 'http-ban',
+    purge: (keys) =>
+      sendPurgeRequests(
+        'HTTP BAN',
+        keys,
+        options.chunkSize ?? HTTP_BAN_CHUNK_SIZE,
+        (chunk) => ({
+          url: options.url,
+          init: {
+            method: options.method ?? 'BAN',
+            headers: {
+              ...options.headers,
+              [header]: chunk.join(separator),
+            },
+          },
+        }),
+      ),
+  };
+}
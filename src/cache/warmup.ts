@@ -0,0 +1,249 @@
+/**
+ * Pluggable storage mapping route paths to the cache tags they rendered with.
+ * Methods may be sync or async so external stores (Redis, KV) can implement
+ * the same contract and share routes across instances.
+ */
+export interface WordPressRouteTagRegistry {
+  /** Replaces the tags recorded for one route path. */
+  record: (route: string, tags: string[]) => void | Promise<void>;
+  /** Returns every route path recorded with at least one of the tags. */
+  getRoutes: (tags: string[]) => string[] | Promise<string[]>;
+}
+
+/**
+ * Options for `createWordPressMemoryRouteTagRegistry()`.
+ */
+export interface WordPressMemoryRouteTagRegistryOptions {
+  /** Maximum routes kept, least recently rendered evicted first (default: 1000) */
+  maxRoutes?: number;
+}
+
+/**
+ * Options for re-requesting routes after their tags were invalidated.
+ */
+export interface WordPressCacheWarmupOptions {
+  /** Route registry (default: one in-memory registry per process) */
+  registry?: WordPressRouteTagRegistry;
+  /** Routes re-requested at the same time (default: 4) */
+  concurrency?: number;
+  /** Maximum routes re-requested per invalidation (default: 50) */
+  maxRoutes?: number;
+  /** Origin warm requests are sent to (default: origin of the invalidating request) */
+  origin?: string;
+  /** Milliseconds before one warm request is abandoned (default: 10000) */
+  timeout?: number;
+  /** Extra headers sent with every warm request. */
+  headers?: Record<string, string>;
+  /** Decides whether one route path is recorded (default: every route) */
+  include?: (route: string) => boolean;
+  /**
+   * Keeps the background warm requests alive after the invalidating response
+   * was sent, e.g. `waitUntil` from `@vercel/functions` or
+   * `cloudflare:workers` (default: a detached promise).
+   */
+  waitUntil?: (promise: Promise<void>) => void;
+}
+
+const DEFAULT_MAX_REGISTRY_ROUTES = 1000;
+const DEFAULT_WARMUP_CONCURRENCY = 4;
+const DEFAULT_WARMUP_MAX_ROUTES = 50;
+const DEFAULT_WARMUP_TIMEOUT_MS = 10_000;
+/** Marks warm requests, so logs and middleware can tell them from visitors. */
+const WARMUP_REQUEST_HEADER = 'x-wp-astro-warmup';
+
+/**
+ * Warmup configuration registered in this process.
+ */
+let activeWarmup: WordPressCacheWarmupOptions | undefined;
+
+/**
+ * Creates the default in-memory route registry: a `Map` kept in
+ * least-recently-rendered order plus a tag index for lookups.
+ */
+export function createWordPressMemoryRouteTagRegistry(
+  options: WordPressMemoryRouteTagRegistryOptions = {},
+): WordPressRouteTagRegistry {
+  const maxRoutes = options.maxRoutes ?? DEFAULT_MAX_REGISTRY_ROUTES;
+  const tagsByRoute = new Map<string, string[]>();
+  const routesByTag = new Map<string, Set<string>>();
+
+  /**
+   * Removes one route and its tag index entries.
+   */
+  function remove(route: string): void {
+    for (const tag of tagsByRoute.get(route) ?? []) {
+      const routes = routesByTag.get(tag);
+
+      routes?.delete(route);
+
+      if (routes?.size === 0) {
+        routesByTag.delete(tag);
+      }
+    }
+
+    tagsByRoute.delete(route);
+  }
+
+  return {
+    record: (route, tags) => {
+      remove(route);
+      tagsByRoute.set(route, [...new Set(tags)]);
+
+      for (const tag of tags) {
+        const routes = routesByTag.get(tag) ?? new Set<string>();
+
+        routes.add(route);
+        routesByTag.set(tag, routes);
+      }
+
+      for (const oldest of tagsByRoute.keys()) {
+        if (tagsByRoute.size <= maxRoutes) {
+          break;
+        }
+
+        remove(oldest);
+      }
+    },
+    getRoutes: (tags) => [
+      ...new Set(tags.flatMap((tag) => [...(routesByTag.get(tag) ?? [])])),
+    ],
+  };
+}
+
+/**
+ * Enables cache warmup for this process: routes are recorded with the tags
+ * they rendered, and invalidations re-request the affected routes. A later
+ * registration replaces the earlier one. Returns a function that disables
+ * warmup again.
+ */
+export function registerWordPressCacheWarmup(
+  options: WordPressCacheWarmupOptions = {},
+): () => void {
+  const warmup: WordPressCacheWarmupOptions = {
+    ...options,
+    registry: options.registry ?? createWordPressMemoryRouteTagRegistry(),
+  };
+
+  activeWarmup = warmup;
+
+  return () => {
+    if (activeWarmup === warmup) {
+      activeWarmup = undefined;
+    }
+  };
+}
+
+/**
+ * Reports whether cache warmup is registered in this process.
+ */
+export function hasWordPressCacheWarmup(): boolean {
+  return activeWarmup !== undefined;
+}
+
+/**
+ * Records the tags one route path rendered with. Registry failures are
+ * ignored, because warmup must never break a page.
+ */
+export async function recordWordPressRouteTags(
+  route: string,
+  tags: string[],
+): Promise<void> {
+  const warmup = activeWarmup;
+
+  if (!warmup?.registry || tags.length === 0) {
+    return;
+  }
+
+  if (warmup.include && !warmup.include(route)) {
+    return;
+  }
+
+  try {
+    await warmup.registry.record(route, tags);
+  } catch {
+    // A failing external registry only means the route is not warmed.
+  }
+}
+
+/**
+ * Runs one task per item with at most `limit` tasks in flight.
+ */
+async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>,
+): Promise<void> {
+  let next = 0;
+
+  /**
+   * Takes items off the shared queue until it is empty.
+   */
+  async function work(): Promise<void> {
+    while (next < items.length) {
+      const item = items[next];
+
+      next += 1;
+      await task(item);
+    }
+  }
+
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(1, limit), items.length) }, work),
+  );
+}
+
+/**
+ * Queues a re-request of every recorded route that rendered with one of the
+ * invalidated tags, so the next visitor gets a fresh cached page instead of
+ * a cold render. Call it after the tags were invalidated. Resolves with the
+ * queued URLs as soon as the registry answered; the requests run in the
+ * background and failed or timed-out ones leave their route cold.
+ */
+export async function warmWordPressRoutes(
+  tags: string[],
+  origin?: string,
+): Promise<string[]> {
+  const warmup = activeWarmup;
+  const base = warmup?.origin ?? origin;
+
+  if (!warmup?.registry || !base || tags.length === 0) {
+    return [];
+  }
+
+  let routes: string[];
+
+  try {
+    routes = await warmup.registry.getRoutes(tags);
+  } catch {
+    return [];
+  }
+
+  const urls = routes
+    .slice(0, warmup.maxRoutes ?? DEFAULT_WARMUP_MAX_ROUTES)
+    .map((route) => new URL(route, base).href);
+  const warming = runWithConcurrency(
+    urls,
+    warmup.concurrency ?? DEFAULT_WARMUP_CONCURRENCY,
+    async (url) => {
+      try {
+        const response = await fetch(url, {
+          headers: { ...warmup.headers, [WARMUP_REQUEST_HEADER]: '1' },
+          signal: AbortSignal.timeout(
+            warmup.timeout ?? DEFAULT_WARMUP_TIMEOUT_MS,
+          ),
+        });
+
+        // Read the body so the route renders completely and gets cached.
+        await response.arrayBuffer();
+      } catch {
+        // Unreachable routes stay cold until the next visitor renders them.
+      }
+    },
+  ).catch(() => undefined);
+
+  if (warmup.waitUntil) {
+    warmup.waitUntil(warming);
+  }
+
+  return urls;
+}
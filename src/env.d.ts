@@ -119,6 +119,7 @@ declare module 'virtual:wp-astrojs/catalog' {
 }
 
 declare module 'virtual:wp-astrojs/schemas' {
+  import type { z } from 'astro/zod';
   import type { ResourceZodSchemas } from 'fluent-wp-client/zod';
 
   export type WordPressCatalogResourceKind =
@@ -148,28 +149,88 @@ declare module 'virtual:wp-astrojs/schemas' {
     resource: string,
     options?: TOptions & WordPressCatalogSchemaOptions,
   ): TOptions & { schema?: unknown; responseSchema?: unknown };
+
+  export interface WordPressSiteSettingsData {
+    id: 'site';
+    title: string;
+    description: string;
+    url: string;
+    home: string;
+    timezone: string;
+    gmt_offset: number;
+    site_logo?: number;
+    site_icon?: number;
+    site_icon_url?: string;
+    date_format?: string;
+    time_format?: string;
+    start_of_week?: number;
+    language?: string;
+    show_on_front?: 'posts' | 'page';
+    page_on_front?: number;
+    page_for_posts?: number;
+    posts_per_page?: number;
+    authenticated: boolean;
+  }
+
+  export const wordPressSettingsSchema: z.ZodType<WordPressSiteSettingsData>;
 }
 
 declare module 'virtual:wp-astrojs/collections' {
   import type { BaseSchema } from 'astro:content';
   import type { WordPressGeneratedResourceSchemas } from 'virtual:wp-astrojs/generated-schemas';
-  import type { WordPressCatalogResourceKind } from 'virtual:wp-astrojs/schemas';
+  import type {
+    WordPressCatalogResourceKind,
+    wordPressSettingsSchema,
+  } from 'virtual:wp-astrojs/schemas';
   import type { LiveLoader, Loader } from 'astro/loaders';
+  import type { z } from 'astro/zod';
   import type {
     WordPressClient,
     WordPressClientConfig,
   } from 'fluent-wp-client';
 
+  export type WordPressRelationMap = Record<string, string>;
+
+  export interface WordPressRelationReference<
+    TCollection extends string = string,
+  > {
+    collection: TCollection;
+    id: string;
+  }
+
+  export type WordPressRelationData<
+    TData,
+    TRelations extends WordPressRelationMap,
+  > = Omit<TData, keyof TRelations> & {
+    [TField in keyof TRelations]: TField extends keyof TData
+      ? NonNullable<TData[TField]> extends readonly unknown[]
+        ? WordPressRelationReference<TRelations[TField]>[]
+        : WordPressRelationReference<TRelations[TField]> | undefined
+      :
+          | WordPressRelationReference<TRelations[TField]>[]
+          | WordPressRelationReference<TRelations[TField]>
+          | undefined;
+  };
+
+  export type WordPressRelationSchema<
+    TSchema extends BaseSchema,
+    TRelations extends WordPressRelationMap,
+  > = keyof TRelations extends never
+    ? TSchema
+    : z.ZodType<WordPressRelationData<z.output<TSchema>, TRelations>>;
+
   export interface DefineWordPressCollectionOptions<
     TSchema extends BaseSchema = BaseSchema,
+    TRelations extends WordPressRelationMap = Record<never, string>,
   > {
     mode?: 'static' | 'live';
-    kind?: WordPressCatalogResourceKind | 'media' | 'users';
+    kind?: WordPressCatalogResourceKind | 'media' | 'users' | 'settings';
     client?: WordPressClient;
     clientConfig?: WordPressClientConfig;
     schema?: TSchema;
     loader?: Loader | LiveLoader;
     loaderOptions?: Record<string, unknown>;
+    relations?: TRelations;
   }
 
   export type GeneratedWordPressSchema<
@@ -178,26 +239,40 @@ declare module 'virtual:wp-astrojs/collections' {
     ? WordPressGeneratedResourceSchemas[TResource]
     : BaseSchema;
 
+  export function defineWordPressCollection(
+    resource: 'settings',
+    options?: Omit<
+      DefineWordPressCollectionOptions,
+      'kind' | 'schema' | 'relations'
+    >,
+  ): {
+    type: 'content_layer' | 'live';
+    schema: typeof wordPressSettingsSchema;
+    loader: Loader | LiveLoader;
+  };
+
   export function defineWordPressCollection<
     TResource extends keyof WordPressGeneratedResourceSchemas,
     TSchema extends BaseSchema = GeneratedWordPressSchema<TResource>,
+    const TRelations extends WordPressRelationMap = Record<never, string>,
   >(
     resource: TResource,
-    options?: DefineWordPressCollectionOptions<TSchema>,
+    options?: DefineWordPressCollectionOptions<TSchema, TRelations>,
   ): {
     type: 'content_layer' | 'live';
-    schema: TSchema;
+    schema: WordPressRelationSchema<TSchema, TRelations>;
     loader: Loader | LiveLoader;
   };
 
   export function defineWordPressCollection<
     TSchema extends BaseSchema = BaseSchema,
+    const TRelations extends WordPressRelationMap = Record<never, string>,
   >(
     resource: string,
-    options?: DefineWordPressCollectionOptions<TSchema>,
+    options?: DefineWordPressCollectionOptions<TSchema, TRelations>,
   ): {
     type: 'content_layer' | 'live';
-    schema: TSchema;
+    schema: WordPressRelationSchema<TSchema, TRelations>;
     loader: Loader | LiveLoader;
   };
 }
@@ -206,3 +281,20 @@ declare module 'virtual:wp-astrojs/generated-schemas' {
   export interface WordPressGeneratedResourceSchemas {}
   export const wordPressGeneratedSchemaMap: WordPressGeneratedResourceSchemas;
 }
+
+// Internal module read by the routes and middleware injected for draft preview.
+declare module 'virtual:wp-astrojs/preview' {
+  export const previewOptions: {
+    cookieName: string;
+    maxAge: number;
+    envPrefix: string;
+  };
+}
+
+// Internal module read by the route injected for WordPress webhooks.
+declare module 'virtual:wp-astrojs/webhook' {
+  export const webhookOptions: {
+    envPrefix: string;
+    tolerance: number;
+  };
+}
@@ -9,6 +9,7 @@ export type {
   AbilityActionOptions,
   ActionClientResolver,
   ActionResponseMapper,
+  CacheInvalidationFailure,
   CreatePostActionConfig,
   CreatePostActionOptions,
   CreatePostInput,
@@ -68,7 +69,12 @@ export type {
   UpdateUserActionConfig,
   UpdateUserActionOptions,
   UpdateUserInput,
+  WithCacheInvalidation,
+  WpCacheBulkInvalidateActionOptions,
+  WpCacheBulkInvalidateInput,
+  WpCacheBulkInvalidateItem,
   WpCacheInvalidateInput,
+  WriteActionCacheOptions,
 } from './actions';
 // Export predefined server actions
 export {
@@ -87,6 +93,7 @@ export {
   createUpdateTermAction,
   createUpdateUserAction,
   createUserInputSchema,
+  createWpCacheBulkInvalidateAction,
   createWpCacheInvalidateAction,
   deleteAbilityInputSchema,
   deletePostInputSchema,
@@ -97,39 +104,176 @@ export {
   updatePostInputSchema,
   updateTermInputSchema,
   updateUserInputSchema,
+  wpCacheBulkInvalidateInputSchema,
   wpCacheInvalidateInputSchema,
 } from './actions';
+export type {
+  WordPressCdnPurgeAdapter,
+  WordPressCdnPurgeFailure,
+  WordPressSurrogateKeyHeader,
+} from './cache/cdn';
+// Export CDN surrogate keys and purge adapters
+export {
+  createWordPressHashedSurrogateKey,
+  formatWordPressSurrogateKeyHeader,
+  getWordPressSurrogateKeys,
+  hasWordPressCdnPurgeAdapters,
+  purgeWordPressCdnCaches,
+  registerWordPressCdnPurgeAdapter,
+} from './cache/cdn';
+export type { WordPressMembershipEntry } from './cache/hints';
+// Export cache tag builders for custom invalidation flows
+export {
+  createContentMembershipInvalidationTags,
+  createContentWriteInvalidationTags,
+  createTermWriteInvalidationTags,
+  createUserWriteInvalidationTags,
+} from './cache/hints';
+// Export dev toolbar cache inspector report shapes
+export type {
+  WordPressCacheHintDropReason,
+  WordPressLoaderCallReport,
+} from './cache/inspector';
+export type {
+  WordPressCacheRecord,
+  WordPressCacheStore,
+  WordPressLiveCache,
+  WordPressMemoryCacheOptions,
+} from './cache/memory';
+// Export the live loader memory cache
+export { createWordPressMemoryCache } from './cache/memory';
+export type {
+  CloudflarePurgeAdapterOptions,
+  FastlyPurgeAdapterOptions,
+  HttpBanPurgeAdapterOptions,
+} from './cache/purge-adapters';
+export {
+  createCloudflarePurgeAdapter,
+  createFastlyPurgeAdapter,
+  createHttpBanPurgeAdapter,
+} from './cache/purge-adapters';
+export type {
+  WordPressCacheWarmupOptions,
+  WordPressMemoryRouteTagRegistryOptions,
+  WordPressRouteTagRegistry,
+} from './cache/warmup';
+// Export the route tag registry and cache warmup
+export {
+  createWordPressMemoryRouteTagRegistry,
+  hasWordPressCacheWarmup,
+  recordWordPressRouteTags,
+  registerWordPressCacheWarmup,
+  warmWordPressRoutes,
+} from './cache/warmup';
 export type {
   CategoryFilter,
+  CommentFilter,
+  CommentsFilter,
   ContentFilter,
+  HierarchicalEntryLookup,
   MediaFilter,
+  MenuFilter,
   PageFilter,
   PostFilter,
+  ResolvableWordPressClient,
+  SearchFilter,
   TagFilter,
   TermFilter,
   UserFilter,
+  WordPressAcfRelationMap,
+  WordPressAcfRelationTagOptions,
+  WordPressCircuitBreakerOptions,
+  WordPressClientResolver,
+  WordPressCollectionReference,
+  WordPressCollectionTagOptions,
+  WordPressComment,
+  WordPressCommentLoaderOptions,
+  WordPressCommentStaticLoaderOptions,
   WordPressContentLoaderOptions,
   WordPressContentStaticLoaderOptions,
+  WordPressEmbeddedEntry,
   WordPressEmbedMode,
   WordPressEntryMappingOptions,
+  WordPressFieldProjectionOptions,
+  WordPressFieldSelection,
+  WordPressHierarchicalLoaderOptions,
+  WordPressHierarchicalStaticLoaderOptions,
+  WordPressIncrementalStaticLoaderOptions,
+  WordPressLiveCacheOptions,
   WordPressLiveContentLoaderOptions,
+  WordPressLiveFallbackOptions,
+  WordPressLiveResilienceOptions,
   WordPressLoaderEntryMapper,
+  WordPressLoaderErrorCode,
+  WordPressLoaderErrorOptions,
+  WordPressMenu,
+  WordPressMenuItem,
+  WordPressMenuLoaderOptions,
+  WordPressMenuSource,
+  WordPressMenuStaticLoaderOptions,
+  WordPressNormalizedEmbeds,
+  WordPressPagination,
+  WordPressPaginationLink,
+  WordPressPaginationLinkOptions,
+  WordPressPaginationLinks,
+  WordPressPostLikeStaticLoaderOptions,
+  WordPressPreviewScope,
+  WordPressPreviewTarget,
+  WordPressProjectedEntry,
+  WordPressRelationMap,
+  WordPressRelationOptions,
+  WordPressRequestClient,
+  WordPressResilienceOptions,
+  WordPressSearchLoaderOptions,
+  WordPressSearchResult,
+  WordPressSearchType,
+  WordPressSiteSettings,
+  WordPressStaleResult,
   WordPressTermLoaderOptions,
   WordPressTermStaticLoaderOptions,
 } from './loaders';
 // Export live loaders (for defineLiveCollection - runtime fetching)
 // Export static loaders (for defineCollection - build-time only)
+// Export typed live loader errors
 export {
+  buildCommentThreads,
+  buildMenuItemTree,
+  createPaginationLinks,
+  createRequestClientResolver,
+  getRequestWordPressClient,
+  getWordPressAcfRelations,
+  getWordPressPagination,
+  getWordPressPreview,
+  getWordPressStaleResult,
+  normalizeEmbeddedEntry,
+  parseNavigationBlocks,
+  pickWordPressFields,
+  resolveEntryRelations,
+  runWithWordPressClient,
+  runWithWordPressPreview,
+  WordPressForbiddenError,
+  WordPressLoaderError,
+  WordPressNotFoundError,
+  WordPressSchemaMismatchError,
+  WordPressUnauthorizedError,
+  WordPressUpstreamError,
   wordPressCategoryLoader,
   wordPressCategoryStaticLoader,
+  wordPressCommentLoader,
+  wordPressCommentStaticLoader,
   wordPressContentLoader,
   wordPressContentStaticLoader,
   wordPressMediaLoader,
   wordPressMediaStaticLoader,
+  wordPressMenuLoader,
+  wordPressMenuStaticLoader,
   wordPressPageLoader,
   wordPressPageStaticLoader,
   wordPressPostLoader,
   wordPressPostStaticLoader,
+  wordPressSearchLoader,
+  wordPressSettingsLoader,
+  wordPressSettingsStaticLoader,
   wordPressTagLoader,
   wordPressTagStaticLoader,
   wordPressTermLoader,
@@ -145,12 +289,22 @@ export type {
   WordPressLoginActionPayload,
   WordPressLoginActionResult,
   WordPressLoginInput,
+  WordPressPreview,
+  WordPressPreviewConfig,
+  WordPressSurrogateKeyOptions,
 } from './server';
-// Export server auth bridge helpers
+// Export server auth bridge, draft preview, surrogate key, and warmup helpers
 export {
   createWordPressAuthBridge,
+  createWordPressCacheWarmupMiddleware,
+  createWordPressPreview,
+  createWordPressPreviewToken,
+  createWordPressSurrogateKeyMiddleware,
+  verifyWordPressPreviewNonce,
+  verifyWordPressPreviewToken,
   wordPressLoginInputSchema,
 } from './server';
+export type { WordPressCacheInspectorReport } from './toolbar/cache-inspector-report';
 
 // Components are imported directly via:
 // import WPImage from 'wp-astrojs-integration/components/WPImage.astro';
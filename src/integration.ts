@@ -13,6 +13,7 @@ import type {
 } from 'fluent-wp-client';
 import { WordPressClient } from 'fluent-wp-client';
 import { loadEnv, type Plugin } from 'vite';
+import { CACHE_INSPECTOR_INVALIDATE_ROUTE } from './toolbar/cache-inspector-report';
 
 const DEFAULT_ENV_PREFIX = 'WP_CATALOG_';
 const VIRTUAL_MODULE_ID = 'virtual:wp-astrojs/catalog';
@@ -24,6 +25,15 @@ const RESOLVED_COLLECTIONS_VIRTUAL_MODULE_ID = `\0${COLLECTIONS_VIRTUAL_MODULE_I
 const GENERATED_SCHEMAS_VIRTUAL_MODULE_ID =
   'virtual:wp-astrojs/generated-schemas';
 const RESOLVED_GENERATED_SCHEMAS_VIRTUAL_MODULE_ID = `\0${GENERATED_SCHEMAS_VIRTUAL_MODULE_ID}`;
+const PREVIEW_VIRTUAL_MODULE_ID = 'virtual:wp-astrojs/preview';
+const RESOLVED_PREVIEW_VIRTUAL_MODULE_ID = `\0${PREVIEW_VIRTUAL_MODULE_ID}`;
+const DEFAULT_PREVIEW_ENV_PREFIX = 'WP_PREVIEW_';
+const WEBHOOK_VIRTUAL_MODULE_ID = 'virtual:wp-astrojs/webhook';
+const RESOLVED_WEBHOOK_VIRTUAL_MODULE_ID = `\0${WEBHOOK_VIRTUAL_MODULE_ID}`;
+const DEFAULT_WEBHOOK_ENV_PREFIX = 'WP_WEBHOOK_';
+const DEFAULT_WEBHOOK_TOLERANCE_SECONDS = 60 * 5;
+const CACHE_INSPECTOR_ICON =
+  '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><ellipse cx="12" cy="5" rx="8" ry="3"/><path d="M4 5v6c0 1.7 3.6 3 8 3s8-1.3 8-3V5"/><path d="M4 11v6c0 1.7 3.6 3 8 3s8-1.3 8-3v-6"/></svg>';
 const execFileAsync = promisify(execFile);
 // Keep this injected consumer declaration in sync with src/env.d.ts.
 const BASE_VIRTUAL_MODULE_TYPES = `declare module 'virtual:wp-astrojs/catalog' {
@@ -49,6 +59,7 @@ const BASE_VIRTUAL_MODULE_TYPES = `declare module 'virtual:wp-astrojs/catalog' {
 }
 
 declare module 'virtual:wp-astrojs/schemas' {
+  import type { z } from 'astro/zod';
   import type { ResourceZodSchemas } from 'fluent-wp-client/zod';
 
   export type WordPressCatalogResourceKind = 'auto' | 'content' | 'terms' | 'resources';
@@ -69,24 +80,93 @@ declare module 'virtual:wp-astrojs/schemas' {
     resource: string,
     options?: TOptions & WordPressCatalogSchemaOptions,
   ): TOptions & { schema?: unknown; responseSchema?: unknown };
+
+  export interface WordPressSiteSettingsData {
+    id: 'site';
+    title: string;
+    description: string;
+    url: string;
+    home: string;
+    timezone: string;
+    gmt_offset: number;
+    site_logo?: number;
+    site_icon?: number;
+    site_icon_url?: string;
+    date_format?: string;
+    time_format?: string;
+    start_of_week?: number;
+    language?: string;
+    show_on_front?: 'posts' | 'page';
+    page_on_front?: number;
+    page_for_posts?: number;
+    posts_per_page?: number;
+    authenticated: boolean;
+  }
+
+  export const wordPressSettingsSchema: z.ZodType<WordPressSiteSettingsData>;
 }
 
 declare module 'virtual:wp-astrojs/collections' {
   import type { BaseSchema } from 'astro:content';
   import type { Loader } from 'astro/loaders';
   import type { LiveLoader } from 'astro/loaders';
+  import type { z } from 'astro/zod';
   import type { WordPressClient, WordPressClientConfig } from 'fluent-wp-client';
   import type { WordPressGeneratedResourceSchemas } from 'virtual:wp-astrojs/generated-schemas';
-  import type { WordPressCatalogResourceKind } from 'virtual:wp-astrojs/schemas';
+  import type {
+    WordPressCatalogResourceKind,
+    wordPressSettingsSchema,
+  } from 'virtual:wp-astrojs/schemas';
+
+  export type WordPressRelationMap = Record<string, string>;
+
+  export interface WordPressRelationReference<TCollection extends string = string> {
+    collection: TCollection;
+    id: string;
+  }
+
+  export type WordPressRelationData<TData, TRelations extends WordPressRelationMap> =
+    Omit<TData, keyof TRelations> & {
+      [TField in keyof TRelations]: TField extends keyof TData
+        ? NonNullable<TData[TField]> extends readonly unknown[]
+          ? WordPressRelationReference<TRelations[TField]>[]
+          : WordPressRelationReference<TRelations[TField]> | undefined
+        :
+            | WordPressRelationReference<TRelations[TField]>[]
+            | WordPressRelationReference<TRelations[TField]>
+            | undefined;
+    };
 
-  export interface DefineWordPressCollectionOptions<TSchema extends BaseSchema = BaseSchema> {
+  export type WordPressRelationSchema<
+    TSchema extends BaseSchema,
+    TRelations extends WordPressRelationMap,
+  > = keyof TRelations extends never
+    ? TSchema
+    : z.ZodType<WordPressRelationData<z.output<TSchema>, TRelations>>;
+
+  export type WordPressFieldsSchema<
+    TSchema extends BaseSchema,
+    TFields extends readonly string[],
+  > = string extends TFields[number]
+    ? TSchema
+    : TSchema extends z.ZodObject<infer TShape, infer TConfig>
+      ? z.ZodObject<Pick<TShape, Extract<TFields[number] | 'id', keyof TShape>>, TConfig>
+      : z.ZodType<Pick<z.output<TSchema>, Extract<TFields[number] | 'id', keyof z.output<TSchema>>>>;
+
+  export interface DefineWordPressCollectionOptions<
+    TSchema extends BaseSchema = BaseSchema,
+    TRelations extends WordPressRelationMap = Record<never, string>,
+    TFields extends readonly string[] = readonly string[],
+  > {
     mode?: 'static' | 'live';
-    kind?: WordPressCatalogResourceKind | 'media' | 'users';
+    kind?: WordPressCatalogResourceKind | 'media' | 'users' | 'settings';
     client?: WordPressClient;
     clientConfig?: WordPressClientConfig;
     schema?: TSchema;
     loader?: Loader | LiveLoader;
     loaderOptions?: Record<string, unknown>;
+    relations?: TRelations;
+    fields?: TFields;
   }
 
   export type GeneratedWordPressSchema<TResource extends keyof WordPressGeneratedResourceSchemas> =
@@ -94,24 +174,39 @@ declare module 'virtual:wp-astrojs/collections' {
       ? WordPressGeneratedResourceSchemas[TResource]
       : BaseSchema;
 
+  export function defineWordPressCollection(
+    resource: 'settings',
+    options?: Omit<DefineWordPressCollectionOptions, 'kind' | 'schema' | 'relations' | 'fields'>,
+  ): {
+    type: 'content_layer' | 'live';
+    schema: typeof wordPressSettingsSchema;
+    loader: Loader | LiveLoader;
+  };
+
   export function defineWordPressCollection<
     TResource extends keyof WordPressGeneratedResourceSchemas,
     TSchema extends BaseSchema = GeneratedWordPressSchema<TResource>,
+    const TRelations extends WordPressRelationMap = Record<never, string>,
+    const TFields extends readonly string[] = readonly string[],
   >(
     resource: TResource,
-    options?: DefineWordPressCollectionOptions<TSchema>,
+    options?: DefineWordPressCollectionOptions<TSchema, TRelations, TFields>,
   ): {
     type: 'content_layer' | 'live';
-    schema: TSchema;
+    schema: WordPressRelationSchema<WordPressFieldsSchema<TSchema, TFields>, TRelations>;
     loader: Loader | LiveLoader;
   };
 
-  export function defineWordPressCollection<TSchema extends BaseSchema = BaseSchema>(
+  export function defineWordPressCollection<
+    TSchema extends BaseSchema = BaseSchema,
+    const TRelations extends WordPressRelationMap = Record<never, string>,
+    const TFields extends readonly string[] = readonly string[],
+  >(
     resource: string,
-    options?: DefineWordPressCollectionOptions<TSchema>,
+    options?: DefineWordPressCollectionOptions<TSchema, TRelations, TFields>,
   ): {
     type: 'content_layer' | 'live';
-    schema: TSchema;
+    schema: WordPressRelationSchema<WordPressFieldsSchema<TSchema, TFields>, TRelations>;
     loader: Loader | LiveLoader;
   };
 }
@@ -134,9 +229,51 @@ export interface WordPressCatalogIntegrationOptions {
   cacheFile?: string;
 }
 
+export interface WordPressPreviewIntegrationOptions {
+  /** Route that starts draft preview mode. Defaults to `/api/wp-preview`. */
+  route?: string;
+  /** Route that ends draft preview mode. Defaults to `/api/wp-preview/exit`. */
+  exitRoute?: string;
+  /** Preview cookie name. Defaults to `wp_astro_preview`. */
+  cookieName?: string;
+  /** Preview cookie lifetime in seconds. Defaults to 10 minutes. */
+  maxAge?: number;
+  /** Environment variable prefix for URL, secret, and auth values. */
+  envPrefix?: string;
+}
+
+export interface WordPressWebhookIntegrationOptions {
+  /** Route receiving signed WordPress webhooks. Defaults to `/api/wp-webhook`. */
+  route?: string;
+  /** Maximum delivery age and clock skew in seconds. Defaults to 5 minutes. */
+  tolerance?: number;
+  /** Environment variable prefix for the shared secret. Defaults to `WP_WEBHOOK_`. */
+  envPrefix?: string;
+}
+
 export interface WordPressAstroIntegrationOptions {
   /** Discovery catalog generated from WordPress and reused by catalog-aware helpers. */
   catalog?: boolean | WordPressCatalogIntegrationOptions;
+  /** Injects draft preview routes and middleware. Disabled by default. */
+  preview?: boolean | WordPressPreviewIntegrationOptions;
+  /** Injects the signed cache invalidation webhook route. Disabled by default. */
+  webhook?: boolean | WordPressWebhookIntegrationOptions;
+  /** Adds the cache inspector dev toolbar app in `astro dev`. Enabled by default. */
+  devToolbar?: boolean;
+}
+
+interface ResolvedPreviewOptions {
+  route: string;
+  exitRoute: string;
+  cookieName: string;
+  maxAge: number;
+  envPrefix: string;
+}
+
+interface ResolvedWebhookOptions {
+  route: string;
+  tolerance: number;
+  envPrefix: string;
 }
 
 interface ResolvedCatalogOptions extends WordPressCatalogIntegrationOptions {
@@ -192,6 +329,100 @@ function resolveCatalogOptions(
   };
 }
 
+function resolvePreviewOptions(
+  preview: WordPressAstroIntegrationOptions['preview'],
+): ResolvedPreviewOptions | undefined {
+  if (!preview) return undefined;
+
+  const options = preview === true ? {} : preview;
+
+  return {
+    route: options.route ?? '/api/wp-preview',
+    exitRoute: options.exitRoute ?? '/api/wp-preview/exit',
+    cookieName: options.cookieName ?? 'wp_astro_preview',
+    maxAge: options.maxAge ?? 60 * 10,
+    envPrefix: options.envPrefix ?? DEFAULT_PREVIEW_ENV_PREFIX,
+  };
+}
+
+function resolveWebhookOptions(
+  webhook: WordPressAstroIntegrationOptions['webhook'],
+): ResolvedWebhookOptions | undefined {
+  if (!webhook) return undefined;
+
+  const options = webhook === true ? {} : webhook;
+
+  return {
+    route: options.route ?? '/api/wp-webhook',
+    tolerance: options.tolerance ?? DEFAULT_WEBHOOK_TOLERANCE_SECONDS,
+    envPrefix: options.envPrefix ?? DEFAULT_WEBHOOK_ENV_PREFIX,
+  };
+}
+
+/**
+ * Resolves one injected server or toolbar module next to this file, matching
+ * the source (`.ts`) or compiled (`.js`) extension the integration runs from.
+ */
+function resolveServerEntrypoint(
+  name: string,
+  directory: 'server' | 'toolbar' = 'server',
+): string {
+  const extension = import.meta.url.endsWith('.ts') ? '.ts' : '.js';
+
+  return fileURLToPath(
+    new URL(`./${directory}/${name}${extension}`, import.meta.url),
+  );
+}
+
+/**
+ * Serves the non-secret preview options to the injected preview runtime.
+ */
+function createPreviewVirtualModule(
+  options: ResolvedPreviewOptions | undefined,
+): Plugin {
+  return {
+    name: 'wp-astrojs-integration:preview',
+    resolveId(id) {
+      return id === PREVIEW_VIRTUAL_MODULE_ID
+        ? RESOLVED_PREVIEW_VIRTUAL_MODULE_ID
+        : undefined;
+    },
+    load(id) {
+      if (id !== RESOLVED_PREVIEW_VIRTUAL_MODULE_ID) return undefined;
+
+      return `export const previewOptions = ${JSON.stringify({
+        cookieName: options?.cookieName ?? 'wp_astro_preview',
+        maxAge: options?.maxAge ?? 60 * 10,
+        envPrefix: options?.envPrefix ?? DEFAULT_PREVIEW_ENV_PREFIX,
+      })};`;
+    },
+  };
+}
+
+/**
+ * Serves the non-secret webhook options to the injected webhook route.
+ */
+function createWebhookVirtualModule(
+  options: ResolvedWebhookOptions | undefined,
+): Plugin {
+  return {
+    name: 'wp-astrojs-integration:webhook',
+    resolveId(id) {
+      return id === WEBHOOK_VIRTUAL_MODULE_ID
+        ? RESOLVED_WEBHOOK_VIRTUAL_MODULE_ID
+        : undefined;
+    },
+    load(id) {
+      if (id !== RESOLVED_WEBHOOK_VIRTUAL_MODULE_ID) return undefined;
+
+      return `export const webhookOptions = ${JSON.stringify({
+        envPrefix: options?.envPrefix ?? DEFAULT_WEBHOOK_ENV_PREFIX,
+        tolerance: options?.tolerance ?? DEFAULT_WEBHOOK_TOLERANCE_SECONDS,
+      })};`;
+    },
+  };
+}
+
 function shouldRefreshCatalog(
   refresh: ResolvedCatalogOptions['refresh'],
   command: 'dev' | 'build' | 'preview' | 'sync',
@@ -535,9 +766,32 @@ function createCatalogVirtualModule(state: CatalogState): Plugin {
 
       if (id === RESOLVED_SCHEMAS_VIRTUAL_MODULE_ID) {
         return `
+          import { z } from 'astro/zod';
           import { zodSchemasFromDescription } from 'fluent-wp-client/zod';
           import { catalog } from 'virtual:wp-astrojs/catalog';
 
+          export const wordPressSettingsSchema = z.object({
+            id: z.literal('site'),
+            title: z.string(),
+            description: z.string(),
+            url: z.string(),
+            home: z.string(),
+            timezone: z.string(),
+            gmt_offset: z.number(),
+            site_logo: z.number().optional(),
+            site_icon: z.number().optional(),
+            site_icon_url: z.string().optional(),
+            date_format: z.string().optional(),
+            time_format: z.string().optional(),
+            start_of_week: z.number().optional(),
+            language: z.string().optional(),
+            show_on_front: z.enum(['posts', 'page']).optional(),
+            page_on_front: z.number().optional(),
+            page_for_posts: z.number().optional(),
+            posts_per_page: z.number().optional(),
+            authenticated: z.boolean(),
+          });
+
           function getCatalog() {
             if (!catalog) {
               throw new Error('WordPress catalog is not available. Enable the catalog integration or set catalog.required to true so discovery failures are surfaced during Astro setup.');
@@ -615,24 +869,30 @@ function createCatalogVirtualModule(state: CatalogState): Plugin {
             wordPressPageStaticLoader,
             wordPressPostLoader,
             wordPressPostStaticLoader,
+            wordPressSettingsLoader,
+            wordPressSettingsStaticLoader,
             wordPressTagLoader,
             wordPressTagStaticLoader,
             wordPressTermLoader,
             wordPressTermStaticLoader,
             wordPressUserLoader,
             wordPressUserStaticLoader,
+            getWordPressAcfRelations,
           } from 'wp-astrojs-integration';
-          import { createWordPressClient } from 'virtual:wp-astrojs/catalog';
-          import { getWordPressResourceSchemas } from 'virtual:wp-astrojs/schemas';
+          import { reference } from 'astro:content';
+          import { catalog, createWordPressClient } from 'virtual:wp-astrojs/catalog';
+          import { getWordPressResourceSchemas, wordPressSettingsSchema } from 'virtual:wp-astrojs/schemas';
           import { wordPressGeneratedSchemaMap } from 'virtual:wp-astrojs/generated-schemas';
 
           const CONTENT_LAYER_TYPE = 'content_layer';
           const LIVE_CONTENT_TYPE = 'live';
+          const SINGLE_RELATION_FIELDS = new Set(['author', 'featured_media', 'parent']);
 
           function resolveKind(resource, requestedKind) {
             if (requestedKind && requestedKind !== 'auto') return requestedKind;
             if (resource === 'media') return 'media';
             if (resource === 'users') return 'users';
+            if (resource === 'settings') return 'settings';
             if (resource === 'categories' || resource === 'tags') return 'terms';
             return 'content';
           }
@@ -646,6 +906,12 @@ function createCatalogVirtualModule(state: CatalogState): Plugin {
                 : wordPressMediaStaticLoader(client, loaderOptions);
             }
 
+            if (kind === 'settings') {
+              return mode === 'live'
+                ? wordPressSettingsLoader(client, loaderOptions)
+                : wordPressSettingsStaticLoader(client, loaderOptions);
+            }
+
             if (kind === 'users') {
               return mode === 'live'
                 ? wordPressUserLoader(client, loaderOptions)
@@ -687,22 +953,85 @@ function createCatalogVirtualModule(state: CatalogState): Plugin {
               : wordPressContentStaticLoader(client, { ...loaderOptions, resource });
           }
 
+          function isArraySchema(schema) {
+            let current = schema;
+
+            while (current?.def?.innerType) {
+              current = current.def.innerType;
+            }
+
+            return current?.def?.type === 'array';
+          }
+
+          function withFieldSchemas(schema, fields) {
+            if (!fields || typeof schema.pick !== 'function') return schema;
+
+            const shape = schema.shape ?? {};
+            const mask = Object.fromEntries(
+              ['id', ...fields].filter((field) => field in shape).map((field) => [field, true]),
+            );
+
+            return schema.pick(mask);
+          }
+
+          function withRelationSchemas(schema, relations) {
+            if (!relations || typeof schema.extend !== 'function') return schema;
+
+            const shape = schema.shape ?? {};
+            const relationShape = Object.fromEntries(
+              Object.entries(relations).map(([field, collection]) => {
+                const isArray = shape[field]
+                  ? isArraySchema(shape[field])
+                  : !SINGLE_RELATION_FIELDS.has(field);
+
+                return [
+                  field,
+                  isArray
+                    ? reference(collection).array().optional()
+                    : reference(collection).optional(),
+                ];
+              }),
+            );
+
+            return schema.extend(relationShape);
+          }
+
           export function defineWordPressCollection(resource, options = {}) {
             const mode = options.mode ?? 'static';
             const kind = resolveKind(resource, options.kind);
             const client = options.client ?? createWordPressClient(options.clientConfig ?? {});
-            const loaderOptions = options.loaderOptions ?? {};
+            const relations = kind === 'content' ? options.relations : undefined;
+            const fields = kind === 'content' ? options.fields : undefined;
+            const acfRelations = kind === 'content' && mode === 'live'
+              ? getWordPressAcfRelations(catalog, resource)
+              : undefined;
+            const loaderOptions = {
+              ...(acfRelations ? { acfRelations } : {}),
+              ...options.loaderOptions,
+              ...(relations ? { relations } : {}),
+              ...(fields ? { fields } : {}),
+            };
             const loader = options.loader ?? createLoader(resource, mode, kind, client, loaderOptions);
+            if (kind === 'settings') {
+              return {
+                loader,
+                schema: options.schema ?? wordPressSettingsSchema,
+                type: mode === 'live' ? LIVE_CONTENT_TYPE : CONTENT_LAYER_TYPE,
+              };
+            }
+
             const schemaKind = kind === 'media' || kind === 'users' ? 'resources' : kind;
             const generatedSchema = Object.hasOwn(wordPressGeneratedSchemaMap, resource)
               ? wordPressGeneratedSchemaMap[resource]
               : undefined;
-            const schema = options.schema ?? generatedSchema ?? getWordPressResourceSchemas(resource, { kind: schemaKind }).item;
+            const baseSchema = options.schema ?? generatedSchema ?? getWordPressResourceSchemas(resource, { kind: schemaKind }).item;
 
-            if (!schema) {
+            if (!baseSchema) {
               throw new Error(\`WordPress catalog does not provide an item schema for resource "\${resource}". Pass options.schema explicitly.\`);
             }
 
+            const schema = withRelationSchemas(withFieldSchemas(baseSchema, fields), relations);
+
             return {
               loader,
               schema,
@@ -742,12 +1071,16 @@ function createCatalogVirtualModule(state: CatalogState): Plugin {
 }
 
 /**
- * Adds WordPress catalog discovery to Astro projects.
+ * Adds WordPress catalog discovery, optional draft preview routes, an
+ * optional cache invalidation webhook route, and the dev toolbar cache
+ * inspector to Astro projects.
  */
 export default function wordpress(
   options: WordPressAstroIntegrationOptions = {},
 ): AstroIntegration {
   const catalogOptions = resolveCatalogOptions(options.catalog);
+  const previewOptions = resolvePreviewOptions(options.preview);
+  const webhookOptions = resolveWebhookOptions(options.webhook);
   const state: CatalogState = {};
 
   return {
@@ -759,13 +1092,63 @@ export default function wordpress(
         logger,
         updateConfig,
         addWatchFile,
+        injectRoute,
+        addMiddleware,
+        addDevToolbarApp,
       }) => {
         updateConfig({
           vite: {
-            plugins: [createCatalogVirtualModule(state)],
+            plugins: [
+              createCatalogVirtualModule(state),
+              createPreviewVirtualModule(previewOptions),
+              createWebhookVirtualModule(webhookOptions),
+            ],
           },
         });
 
+        if (previewOptions) {
+          injectRoute({
+            pattern: previewOptions.route,
+            entrypoint: resolveServerEntrypoint('preview-enter'),
+            prerender: false,
+          });
+          injectRoute({
+            pattern: previewOptions.exitRoute,
+            entrypoint: resolveServerEntrypoint('preview-exit'),
+            prerender: false,
+          });
+          addMiddleware({
+            entrypoint: resolveServerEntrypoint('preview-middleware'),
+            order: 'pre',
+          });
+        }
+
+        if (webhookOptions) {
+          injectRoute({
+            pattern: webhookOptions.route,
+            entrypoint: resolveServerEntrypoint('webhook-receive'),
+            prerender: false,
+          });
+        }
+
+        if (command === 'dev' && options.devToolbar !== false) {
+          addDevToolbarApp({
+            id: 'wp-astrojs-cache-inspector',
+            name: 'WordPress cache',
+            icon: CACHE_INSPECTOR_ICON,
+            entrypoint: resolveServerEntrypoint('cache-inspector', 'toolbar'),
+          });
+          addMiddleware({
+            entrypoint: resolveServerEntrypoint('cache-inspector-middleware'),
+            order: 'pre',
+          });
+          injectRoute({
+            pattern: CACHE_INSPECTOR_INVALIDATE_ROUTE,
+            entrypoint: resolveServerEntrypoint('cache-inspector-invalidate'),
+            prerender: false,
+          });
+        }
+
         if (!catalogOptions.enabled) return;
 
         const catalogPath = new URL(catalogOptions.cacheFile, config.cacheDir);
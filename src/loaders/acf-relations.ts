@@ -0,0 +1,142 @@
+import type { WordPressDiscoveryCatalog } from 'fluent-wp-client';
+import type { WordPressAcfRelationMap } from './types';
+
+/**
+ * ACF field settings WordPress adds to one field's REST schema as `x-acf`.
+ */
+type AcfFieldAnnotation = {
+  type?: string;
+  post_type?: string | string[];
+  taxonomy?: string;
+};
+
+/**
+ * Catalog resource description fields read to resolve relation targets.
+ */
+type CatalogResourceDescription = {
+  slug?: string;
+  restBase?: string;
+  schemas?: {
+    item?: {
+      properties?: {
+        acf?: {
+          properties?: Record<string, { 'x-acf'?: AcfFieldAnnotation }>;
+        };
+      };
+    };
+  };
+};
+
+type CatalogResources = Record<string, CatalogResourceDescription>;
+
+/**
+ * ACF field types whose values are IDs of post-like entries.
+ */
+const ACF_POST_FIELD_TYPES = new Set(['relationship', 'post_object']);
+
+/**
+ * ACF field types whose values are media library IDs.
+ */
+const ACF_MEDIA_FIELD_TYPES = new Set(['image', 'file', 'gallery']);
+
+/**
+ * Returns the REST resource of one catalog description.
+ */
+function toResource(
+  key: string,
+  description: CatalogResourceDescription,
+): string {
+  return description.restBase ?? key;
+}
+
+/**
+ * Finds the REST resource of one post type or taxonomy slug, falling back to
+ * the slug itself when the catalog does not describe it.
+ */
+function resolveCatalogResource(
+  resources: CatalogResources,
+  slug: string,
+): string {
+  const match = Object.entries(resources).find(
+    ([key, description]) =>
+      key === slug ||
+      description.slug === slug ||
+      toResource(key, description) === slug,
+  );
+
+  return match ? toResource(match[0], match[1]) : slug;
+}
+
+/**
+ * Maps one annotated ACF field to the REST resources its IDs point to.
+ */
+function resolveAcfFieldResources(
+  annotation: AcfFieldAnnotation,
+  content: CatalogResources,
+  terms: CatalogResources,
+): string[] {
+  const type = annotation.type ?? '';
+
+  if (ACF_POST_FIELD_TYPES.has(type)) {
+    const postTypes = [annotation.post_type ?? []].flat().filter(Boolean);
+
+    // Fields without a post type restriction accept every post type.
+    return postTypes.length > 0
+      ? postTypes.map((postType) => resolveCatalogResource(content, postType))
+      : Object.entries(content).map(([key, description]) =>
+          toResource(key, description),
+        );
+  }
+
+  if (type === 'taxonomy' && annotation.taxonomy) {
+    return [resolveCatalogResource(terms, annotation.taxonomy)];
+  }
+
+  if (type === 'user') {
+    return ['users'];
+  }
+
+  return ACF_MEDIA_FIELD_TYPES.has(type) ? ['media'] : [];
+}
+
+/**
+ * Derives the ACF relation fields of one content resource from the discovery
+ * catalog. ACF's REST schema does not name field types, so WordPress has to
+ * annotate each field schema with its settings as `x-acf` (see the caching
+ * docs for the `acf/rest/get_fields_schema` filter).
+ *
+ * @example
+ * import { catalog } from 'virtual:wp-astrojs/catalog';
+ *
+ * const landingPages = defineLiveCollection({
+ *   loader: wordPressContentLoader(wp, {
+ *     resource: 'landing-pages',
+ *     acfRelations: getWordPressAcfRelations(catalog, 'landing-pages'),
+ *   }),
+ * });
+ */
+export function getWordPressAcfRelations(
+  catalog: WordPressDiscoveryCatalog | undefined,
+  resource: string,
+): WordPressAcfRelationMap | undefined {
+  const content = (catalog?.content ?? {}) as CatalogResources;
+  const terms = (catalog?.terms ?? {}) as CatalogResources;
+  const description = Object.entries(content).find(
+    ([key, candidate]) =>
+      key === resource || toResource(key, candidate) === resource,
+  )?.[1];
+  const fields = description?.schemas?.item?.properties?.acf?.properties ?? {};
+  const relations: WordPressAcfRelationMap = {};
+
+  for (const [field, schema] of Object.entries(fields)) {
+    const resources = schema['x-acf']
+      ? resolveAcfFieldResources(schema['x-acf'], content, terms)
+      : [];
+
+    if (resources.length > 0) {
+      relations[field] = [...new Set(resources)];
+    }
+  }
+
+  return Object.keys(relations).length > 0 ? relations : undefined;
+}
@@ -0,0 +1,171 @@
+import type { WordPressClient } from 'fluent-wp-client';
+
+/**
+ * WordPress' maximum `per_page`, which also bounds one `include` batch.
+ */
+const MAX_BATCH_SIZE = 100;
+
+/**
+ * Loads several entries of one resource by ID with one collection request.
+ */
+export type EntryBatchLoader<TEntry> = (
+  client: WordPressClient,
+  ids: number[],
+) => Promise<TEntry[]>;
+
+/**
+ * One caller waiting for a batched entry.
+ */
+type BatchWaiter<TEntry> = {
+  resolve: (entry: TEntry | undefined) => void;
+  reject: (error: unknown) => void;
+};
+
+/**
+ * Reads the numeric ID of one filter that looks up an entry by ID only.
+ * Astro passes string IDs through as `{ id: '12' }`.
+ */
+export function getBatchableEntryId(filter: unknown): number | undefined {
+  if (typeof filter !== 'object' || filter === null) {
+    return undefined;
+  }
+
+  const { id } = filter as { id?: unknown };
+
+  if (Object.keys(filter).length !== 1) {
+    return undefined;
+  }
+
+  const numericId =
+    typeof id === 'string' && /^\d+$/.test(id) ? Number(id) : id;
+
+  return typeof numericId === 'number' &&
+    Number.isInteger(numericId) &&
+    numericId > 0
+    ? numericId
+    : undefined;
+}
+
+/**
+ * Splits IDs into request-sized chunks.
+ */
+function chunkIds(ids: number[]): number[][] {
+  const chunks: number[][] = [];
+
+  for (let index = 0; index < ids.length; index += MAX_BATCH_SIZE) {
+    chunks.push(ids.slice(index, index + MAX_BATCH_SIZE));
+  }
+
+  return chunks;
+}
+
+/**
+ * Creates one DataLoader-style batcher. ID lookups queued for the same client
+ * before the next macrotask are resolved with one `include=[...]` request per
+ * 100 IDs. `include` listings only return published entries, so IDs missing
+ * from the response fall back to `loadOne` (drafts, private entries, 404s).
+ */
+export function createEntryBatcher<TEntry extends { id: number | string }>(
+  loadMany: EntryBatchLoader<TEntry>,
+  loadOne: (client: WordPressClient, id: number) => Promise<TEntry | undefined>,
+): (client: WordPressClient, id: number) => Promise<TEntry | undefined> {
+  const queues = new WeakMap<
+    WordPressClient,
+    Map<number, BatchWaiter<TEntry>[]>
+  >();
+
+  /**
+   * Sends the queued lookups of one client and settles their callers.
+   */
+  async function flush(
+    client: WordPressClient,
+    queue: Map<number, BatchWaiter<TEntry>[]>,
+  ): Promise<void> {
+    queues.delete(client);
+
+    await Promise.all(
+      chunkIds([...queue.keys()]).map(async (ids) => {
+        try {
+          const entries = await loadMany(client, ids);
+          const entriesById = new Map(
+            entries.map((entry) => [Number(entry.id), entry]),
+          );
+
+          for (const id of ids) {
+            const entry = entriesById.get(id);
+            const waiters = queue.get(id) ?? [];
+
+            if (entry) {
+              for (const waiter of waiters) {
+                waiter.resolve(entry);
+              }
+
+              continue;
+            }
+
+            const fallback = loadOne(client, id);
+
+            for (const waiter of waiters) {
+              fallback.then(waiter.resolve, waiter.reject);
+            }
+          }
+        } catch (error) {
+          for (const id of ids) {
+            for (const waiter of queue.get(id) ?? []) {
+              waiter.reject(error);
+            }
+          }
+        }
+      }),
+    );
+  }
+
+  return (client, id) =>
+    new Promise<TEntry | undefined>((resolve, reject) => {
+      let queue = queues.get(client);
+
+      if (!queue) {
+        const created = new Map<number, BatchWaiter<TEntry>[]>();
+
+        queue = created;
+        queues.set(client, created);
+        // Astro resolves sibling `getLiveEntry()` calls through several awaits,
+        // so a microtask would flush before most of them arrive.
+        setTimeout(() => {
+          void flush(client, created);
+        }, 0);
+      }
+
+      queue.set(id, [...(queue.get(id) ?? []), { resolve, reject }]);
+    });
+}
+
+/**
+ * Creates one in-flight promise registry so concurrent lookups with identical
+ * keys on the same client share one request.
+ */
+export function createInFlightDeduper<TValue>(): (
+  client: WordPressClient,
+  key: string,
+  load: () => Promise<TValue>,
+) => Promise<TValue> {
+  const inFlight = new WeakMap<WordPressClient, Map<string, Promise<TValue>>>();
+
+  return (client, key, load) => {
+    const requests = inFlight.get(client) ?? new Map<string, Promise<TValue>>();
+    const existing = requests.get(key);
+
+    if (existing) {
+      return existing;
+    }
+
+    const request = load().finally(() => {
+      requests.delete(key);
+    });
+
+    requests.set(key, request);
+    inFlight.set(client, requests);
+
+    return request;
+  };
+}
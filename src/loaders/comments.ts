@@ -0,0 +1,78 @@
+import type { WordPressClient } from 'fluent-wp-client';
+import { loadCollectionPage } from './pagination';
+import type {
+  CommentFilter,
+  WordPressComment,
+  WordPressPagination,
+} from './types';
+
+/**
+ * Nests flat comments under their parent comments. Replies are ordered by
+ * date; comments whose parent is missing from the list stay at the top level.
+ */
+export function buildCommentThreads(
+  comments: WordPressComment[],
+): WordPressComment[] {
+  const byId = new Map<number, WordPressComment>(
+    comments.map((comment) => [comment.id, { ...comment, replies: [] }]),
+  );
+  const roots: WordPressComment[] = [];
+
+  for (const comment of byId.values()) {
+    const parent = comment.parent > 0 ? byId.get(comment.parent) : undefined;
+
+    if (parent && parent !== comment) {
+      parent.replies?.push(comment);
+    } else {
+      roots.push(comment);
+    }
+  }
+
+  for (const comment of byId.values()) {
+    comment.replies?.sort((a, b) => a.date_gmt.localeCompare(b.date_gmt));
+  }
+
+  return roots;
+}
+
+/**
+ * Loads comments from `wp/v2/comments`, optionally threaded.
+ */
+export async function listComments(
+  client: WordPressClient,
+  filter: Omit<CommentFilter, 'id' | 'slug'> | undefined,
+  options: { all?: boolean; threaded?: boolean } = {},
+): Promise<WordPressComment[]> {
+  const comments = client.content('comments');
+  const entries = (await (options.all
+    ? comments.listAll({ ...filter } as never)
+    : comments.list({ ...filter } as never))) as unknown as WordPressComment[];
+
+  return options.threaded ? buildCommentThreads(entries) : entries;
+}
+
+/**
+ * Loads one page of comments with its paging metadata. Totals count every
+ * comment on the page, including replies nested by `threaded`.
+ */
+export async function listCommentPage(
+  client: WordPressClient,
+  filter: Omit<CommentFilter, 'id' | 'slug'> | undefined,
+  options: { threaded?: boolean } = {},
+): Promise<{ entries: WordPressComment[]; pagination: WordPressPagination }> {
+  const { entries, pagination } = await loadCollectionPage(
+    client
+      .content('comments')
+      .listPaginated({ ...filter } as never) as unknown as Promise<{
+      data: WordPressComment[];
+      total: number;
+      totalPages: number;
+    }>,
+    filter,
+  );
+
+  return {
+    entries: options.threaded ? buildCommentThreads(entries) : entries,
+    pagination,
+  };
+}
@@ -0,0 +1,90 @@
+import type {
+  WordPressAuthor,
+  WordPressCategory,
+  WordPressMedia,
+} from 'fluent-wp-client';
+
+/**
+ * Typed relation fields derived from one WordPress `_embedded` payload.
+ */
+export interface WordPressNormalizedEmbeds {
+  /** Embedded `wp:featuredmedia` attachment. */
+  featuredMedia?: WordPressMedia;
+  /** Embedded post author. */
+  authorData?: WordPressAuthor;
+  /** Embedded `wp:term` entries grouped by taxonomy slug (e.g. `category`, `post_tag`). */
+  terms?: Record<string, WordPressCategory[]>;
+}
+
+/**
+ * Entry shape after `_embedded` was replaced with normalized relation fields.
+ */
+export type WordPressEmbeddedEntry<TEntry> = Omit<TEntry, '_embedded'> &
+  WordPressNormalizedEmbeds;
+
+type EmbeddedPayload = {
+  author?: unknown[];
+  'wp:featuredmedia'?: unknown[];
+  'wp:term'?: unknown[][];
+};
+
+/**
+ * WordPress embeds REST error objects (e.g. `rest_forbidden`) in place of
+ * relations the current client cannot read, so only objects with IDs count.
+ */
+function isEmbeddedObject<T>(value: unknown): value is T {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { id?: unknown }).id === 'number'
+  );
+}
+
+/**
+ * Groups embedded term lists by taxonomy slug.
+ */
+function groupEmbeddedTerms(
+  termLists: unknown[][],
+): Record<string, WordPressCategory[]> {
+  const terms: Record<string, WordPressCategory[]> = {};
+
+  for (const term of termLists.flat()) {
+    if (!isEmbeddedObject<WordPressCategory>(term)) {
+      continue;
+    }
+
+    terms[term.taxonomy] ??= [];
+    terms[term.taxonomy].push(term);
+  }
+
+  return terms;
+}
+
+/**
+ * Replaces the raw `_embedded` blob of one entry with typed relation fields.
+ * Entries without embedded data are returned unchanged.
+ */
+export function normalizeEmbeddedEntry<TEntry extends object>(
+  entry: TEntry,
+): WordPressEmbeddedEntry<TEntry> {
+  const { _embedded, ...rest } = entry as TEntry & {
+    _embedded?: EmbeddedPayload;
+  };
+
+  if (!_embedded) {
+    return entry as WordPressEmbeddedEntry<TEntry>;
+  }
+
+  const featuredMedia = _embedded['wp:featuredmedia']?.[0];
+  const authorData = _embedded.author?.[0];
+  const termLists = _embedded['wp:term'];
+
+  return {
+    ...rest,
+    ...(isEmbeddedObject<WordPressMedia>(featuredMedia)
+      ? { featuredMedia }
+      : {}),
+    ...(isEmbeddedObject<WordPressAuthor>(authorData) ? { authorData } : {}),
+    ...(termLists ? { terms: groupEmbeddedTerms(termLists) } : {}),
+  } as WordPressEmbeddedEntry<TEntry>;
+}
@@ -0,0 +1,188 @@
+import { LiveCollectionError } from 'astro/content/runtime';
+import { WordPressHttpError } from 'fluent-wp-client';
+
+/**
+ * Machine-readable kind of one live loader failure.
+ */
+export type WordPressLoaderErrorCode =
+  | 'not_found'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'upstream_unavailable'
+  | 'schema_mismatch'
+  | 'loader_failed';
+
+/**
+ * Context attached to every live loader error.
+ */
+export interface WordPressLoaderErrorOptions {
+  /** REST resource the loader reads (e.g. `posts`, `media`). */
+  resource: string;
+  /** Filter passed to `getLiveCollection()` / `getLiveEntry()`. */
+  filter?: unknown;
+  /** HTTP status a route should answer with. */
+  status?: number;
+  cause?: unknown;
+}
+
+/**
+ * Base class of every error returned by the live loaders. Extends Astro's
+ * `LiveCollectionError`, so `LiveCollectionError.is()` matches it, and
+ * carries the status a route should respond with.
+ *
+ * ```ts
+ * const { entry, error } = await getLiveEntry('posts', { slug });
+ *
+ * if (error instanceof WordPressLoaderError) {
+ *   return new Response(null, { status: error.status });
+ * }
+ * ```
+ */
+export class WordPressLoaderError extends LiveCollectionError {
+  readonly code: WordPressLoaderErrorCode = 'loader_failed';
+  readonly status: number;
+  readonly resource: string;
+  readonly filter: unknown;
+
+  constructor(message: string, options: WordPressLoaderErrorOptions) {
+    super(
+      options.resource,
+      message,
+      options.cause instanceof Error ? options.cause : undefined,
+    );
+    this.name = 'WordPressLoaderError';
+    this.status = options.status ?? 500;
+    this.resource = options.resource;
+    this.filter = options.filter;
+  }
+}
+
+/**
+ * The requested entry does not exist or is not visible to the client.
+ * Named like Astro's error so `LiveEntryNotFoundError.is()` matches it.
+ */
+export class WordPressNotFoundError extends WordPressLoaderError {
+  override readonly code = 'not_found';
+
+  constructor(message: string, options: WordPressLoaderErrorOptions) {
+    super(message, { ...options, status: 404 });
+    this.name = 'LiveEntryNotFoundError';
+  }
+}
+
+/**
+ * WordPress rejected the request credentials (401).
+ */
+export class WordPressUnauthorizedError extends WordPressLoaderError {
+  override readonly code = 'unauthorized';
+
+  constructor(message: string, options: WordPressLoaderErrorOptions) {
+    super(message, { ...options, status: 401 });
+    this.name = 'WordPressUnauthorizedError';
+  }
+}
+
+/**
+ * The credentials lack the capability for this read (403).
+ */
+export class WordPressForbiddenError extends WordPressLoaderError {
+  override readonly code = 'forbidden';
+
+  constructor(message: string, options: WordPressLoaderErrorOptions) {
+    super(message, { ...options, status: 403 });
+    this.name = 'WordPressForbiddenError';
+  }
+}
+
+/**
+ * WordPress could not be reached or failed: network errors, timeouts, open
+ * circuits, rate limits, and 5xx responses. Defaults to status 503.
+ */
+export class WordPressUpstreamError extends WordPressLoaderError {
+  override readonly code = 'upstream_unavailable';
+
+  constructor(message: string, options: WordPressLoaderErrorOptions) {
+    super(message, { ...options, status: options.status ?? 503 });
+    this.name = 'WordPressUpstreamError';
+  }
+}
+
+/**
+ * WordPress answered with a payload the loader cannot read, such as an HTML
+ * error page or a response failing schema validation (502). Named like
+ * Astro's error so `LiveCollectionValidationError.is()` matches it.
+ */
+export class WordPressSchemaMismatchError extends WordPressLoaderError {
+  override readonly code = 'schema_mismatch';
+
+  constructor(message: string, options: WordPressLoaderErrorOptions) {
+    super(message, { ...options, status: 502 });
+    this.name = 'LiveCollectionValidationError';
+  }
+}
+
+/**
+ * Reports whether one failed read may succeed when repeated.
+ */
+export function isTransientReadError(error: unknown): boolean {
+  return error instanceof WordPressUpstreamError;
+}
+
+/**
+ * Reports whether one error carries schema validation issues.
+ */
+function hasValidationIssues(error: unknown): boolean {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    'issues' in error &&
+    Array.isArray(error.issues)
+  );
+}
+
+/**
+ * Maps one error thrown while reading from WordPress onto the loader error
+ * hierarchy. Errors without an HTTP status are treated as upstream failures,
+ * since the fetch itself did not complete.
+ */
+export function toWordPressReadError(
+  error: unknown,
+  options: WordPressLoaderErrorOptions,
+): WordPressLoaderError {
+  if (error instanceof WordPressLoaderError) {
+    return error;
+  }
+
+  const message =
+    error instanceof Error ? error.message : 'WordPress read failed';
+  const context = { ...options, cause: error };
+
+  if (hasValidationIssues(error) || error instanceof SyntaxError) {
+    return new WordPressSchemaMismatchError(message, context);
+  }
+
+  if (!(error instanceof WordPressHttpError)) {
+    return new WordPressUpstreamError(message, context);
+  }
+
+  switch (error.status) {
+    case 401:
+      return new WordPressUnauthorizedError(message, context);
+    case 403:
+      return new WordPressForbiddenError(message, context);
+    case 404:
+      return new WordPressNotFoundError(message, context);
+  }
+
+  if (error.status >= 500 || error.status === 408 || error.status === 429) {
+    return new WordPressUpstreamError(message, {
+      ...context,
+      status: error.status,
+    });
+  }
+
+  return new WordPressLoaderError(message, {
+    ...context,
+    status: error.status,
+  });
+}
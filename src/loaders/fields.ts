@@ -0,0 +1,91 @@
+import type { z } from 'astro/zod';
+import type { WordPressEmbedMode } from './types';
+
+/**
+ * Loader features that need specific REST fields to survive a projection.
+ */
+type FieldRequirements = {
+  /** `_embed` only works when `_links` and `_embedded` are requested. */
+  embed?: WordPressEmbedMode;
+  /** Path resolution walks `parent` and `slug`. */
+  paths?: boolean;
+  /** Incremental static syncs advance their cursor from `modified_gmt`. */
+  incremental?: boolean;
+  /** Live cache hints read relationship IDs and modification times. */
+  cacheHints?: boolean;
+  /** ACF relation tags read the `acf` object. */
+  acfRelations?: boolean;
+};
+
+/**
+ * REST fields live cache hints read for author, term, and featured media
+ * tags and for `lastModified`.
+ */
+const CACHE_HINT_FIELDS = [
+  'author',
+  'categories',
+  'tags',
+  'featured_media',
+  'modified_gmt',
+  'modified',
+];
+
+/**
+ * Builds the `_fields` query value for one field selection, adding `id` and
+ * the fields the loader itself relies on. Returns `undefined` without a
+ * selection so full payloads stay the default.
+ */
+export function createFieldsQuery(
+  fields: readonly string[] | undefined,
+  requirements: FieldRequirements = {},
+): string | undefined {
+  if (!fields || fields.length === 0) {
+    return undefined;
+  }
+
+  return [
+    ...new Set([
+      'id',
+      ...fields,
+      ...(requirements.embed ? ['_links', '_embedded'] : []),
+      ...(requirements.paths ? ['parent', 'slug'] : []),
+      ...(requirements.incremental ? ['modified_gmt'] : []),
+      ...(requirements.cacheHints ? CACHE_HINT_FIELDS : []),
+      ...(requirements.acfRelations ? ['acf'] : []),
+    ]),
+  ].join(',');
+}
+
+/**
+ * Narrows one Zod object schema to the fields requested by a loader's
+ * `fields` option (plus `id`), so collection entries are typed and validated
+ * against the trimmed payload.
+ *
+ * ```ts
+ * const fields = ['slug', 'title', 'date'] as const;
+ *
+ * const posts = defineLiveCollection({
+ *   loader: wordPressPostLoader(wp, { fields }),
+ *   schema: pickWordPressFields(postSchema, fields),
+ * });
+ * ```
+ */
+export function pickWordPressFields<
+  TShape extends z.core.$ZodShape,
+  TConfig extends z.core.$ZodObjectConfig,
+  const TFields extends readonly (keyof TShape & string)[],
+>(
+  schema: z.ZodObject<TShape, TConfig>,
+  fields: TFields,
+): z.ZodObject<
+  Pick<TShape, Extract<TFields[number] | 'id', keyof TShape>>,
+  TConfig
+> {
+  const mask = Object.fromEntries(
+    ['id', ...fields]
+      .filter((field) => field in schema.shape)
+      .map((field) => [field, true]),
+  );
+
+  return schema.pick(mask as never) as never;
+}
@@ -5,24 +5,75 @@
  * Static loaders: Use with defineCollection for build-time static generation
  */
 
+// Re-export catalog-derived ACF relation fields
+export { getWordPressAcfRelations } from './acf-relations';
+// Re-export comment thread helpers
+export { buildCommentThreads } from './comments';
+// Re-export embed normalization helpers
+export type {
+  WordPressEmbeddedEntry,
+  WordPressNormalizedEmbeds,
+} from './embeds';
+export { normalizeEmbeddedEntry } from './embeds';
+// Re-export typed live loader errors
+export type {
+  WordPressLoaderErrorCode,
+  WordPressLoaderErrorOptions,
+} from './errors';
+export {
+  WordPressForbiddenError,
+  WordPressLoaderError,
+  WordPressNotFoundError,
+  WordPressSchemaMismatchError,
+  WordPressUnauthorizedError,
+  WordPressUpstreamError,
+} from './errors';
+// Re-export field projection helpers
+export { pickWordPressFields } from './fields';
 // Re-export live loaders
 export {
   wordPressCategoryLoader,
+  wordPressCommentLoader,
   wordPressContentLoader,
   wordPressMediaLoader,
+  wordPressMenuLoader,
   wordPressPageLoader,
   wordPressPostLoader,
+  wordPressSearchLoader,
+  wordPressSettingsLoader,
   wordPressTagLoader,
   wordPressTermLoader,
   wordPressUserLoader,
 } from './live';
+// Re-export menu tree helpers
+export { buildMenuItemTree, parseNavigationBlocks } from './menus';
+// Re-export live pagination helpers
+export {
+  createPaginationLinks,
+  getWordPressPagination,
+} from './pagination';
+// Re-export draft preview scope helpers
+export { getWordPressPreview, runWithWordPressPreview } from './preview';
+// Re-export relation reference helpers
+export { resolveEntryRelations } from './relations';
+// Re-export request-scoped client helpers
+export {
+  createRequestClientResolver,
+  getRequestWordPressClient,
+  runWithWordPressClient,
+} from './request-client';
+// Re-export live read fallback helpers
+export { getWordPressStaleResult } from './resilience';
 // Re-export static loaders
 export {
   wordPressCategoryStaticLoader,
+  wordPressCommentStaticLoader,
   wordPressContentStaticLoader,
   wordPressMediaStaticLoader,
+  wordPressMenuStaticLoader,
   wordPressPageStaticLoader,
   wordPressPostStaticLoader,
+  wordPressSettingsStaticLoader,
   wordPressTagStaticLoader,
   wordPressTermStaticLoader,
   wordPressUserStaticLoader,
@@ -30,19 +81,64 @@ export {
 // Re-export types
 export type {
   CategoryFilter,
+  CommentFilter,
+  CommentsFilter,
   ContentFilter,
+  HierarchicalEntryLookup,
   MediaFilter,
+  MenuFilter,
   PageFilter,
   PostFilter,
+  ResolvableWordPressClient,
+  SearchFilter,
   TagFilter,
   TermFilter,
   UserFilter,
+  WordPressAcfRelationMap,
+  WordPressAcfRelationTagOptions,
+  WordPressCircuitBreakerOptions,
+  WordPressClientResolver,
+  WordPressCollectionReference,
+  WordPressCollectionTagOptions,
+  WordPressComment,
+  WordPressCommentLoaderOptions,
+  WordPressCommentStaticLoaderOptions,
   WordPressContentLoaderOptions,
   WordPressContentStaticLoaderOptions,
   WordPressEmbedMode,
   WordPressEntryMappingOptions,
+  WordPressFieldProjectionOptions,
+  WordPressFieldSelection,
+  WordPressHierarchicalLoaderOptions,
+  WordPressHierarchicalStaticLoaderOptions,
+  WordPressIncrementalStaticLoaderOptions,
+  WordPressLiveCacheOptions,
   WordPressLiveContentLoaderOptions,
+  WordPressLiveFallbackOptions,
+  WordPressLiveResilienceOptions,
   WordPressLoaderEntryMapper,
+  WordPressMenu,
+  WordPressMenuItem,
+  WordPressMenuLoaderOptions,
+  WordPressMenuSource,
+  WordPressMenuStaticLoaderOptions,
+  WordPressPagination,
+  WordPressPaginationLink,
+  WordPressPaginationLinkOptions,
+  WordPressPaginationLinks,
+  WordPressPostLikeStaticLoaderOptions,
+  WordPressPreviewScope,
+  WordPressPreviewTarget,
+  WordPressProjectedEntry,
+  WordPressRelationMap,
+  WordPressRelationOptions,
+  WordPressRequestClient,
+  WordPressResilienceOptions,
+  WordPressSearchLoaderOptions,
+  WordPressSearchResult,
+  WordPressSearchType,
+  WordPressSiteSettings,
+  WordPressStaleResult,
   WordPressTermLoaderOptions,
   WordPressTermStaticLoaderOptions,
 } from './types';
@@ -9,45 +9,122 @@ import type {
   WordPressTag,
 } from 'fluent-wp-client';
 import { WordPressClient } from 'fluent-wp-client';
+import { recordWordPressCacheTags } from '../cache/cdn';
 import {
+  createCommentCollectionCacheHint,
+  createCommentEntryCacheHint,
   createContentCollectionCacheHint,
   createContentEntryCacheHint,
   createMediaCollectionCacheHint,
   createMediaEntryCacheHint,
+  createMenuCollectionCacheHint,
+  createMenuEntryCacheHint,
+  createSearchEntryCacheHint,
+  createSettingsCacheHint,
   createTermCollectionCacheHint,
   createTermEntryCacheHint,
   createUserCollectionCacheHint,
   createUserEntryCacheHint,
   type WordPressCacheHint,
 } from '../cache/hints';
+import {
+  isInspectingWordPressLoaderCalls,
+  recordWordPressLoaderCall,
+  toReportedLastModified,
+  type WordPressCacheHintDropReason,
+  type WordPressLoaderCallReport,
+} from '../cache/inspector';
+import { serializeCacheKey, type WordPressLiveCache } from '../cache/memory';
+import {
+  createEntryBatcher,
+  createInFlightDeduper,
+  type EntryBatchLoader,
+  getBatchableEntryId,
+} from './batch';
+import { buildCommentThreads, listCommentPage, listComments } from './comments';
+import {
+  isTransientReadError,
+  toWordPressReadError,
+  WordPressLoaderError,
+  type WordPressLoaderErrorOptions,
+  WordPressNotFoundError,
+} from './errors';
+import { createFieldsQuery } from './fields';
+import { loadWordPressMenus } from './menus';
+import {
+  createSinglePagePagination,
+  loadCollectionPage,
+  recordPagination,
+} from './pagination';
+import {
+  createContentParentLoader,
+  findEntryByPath,
+  getEntryPathSegments,
+  withEntryPaths,
+} from './paths';
+import { getWordPressPreview, loadPreviewEntry } from './preview';
+import { resolveEntryRelations } from './relations';
+import { resolveLiveClient } from './request-client';
+import {
+  createLastKnownGoodStore,
+  createResilientReader,
+  recordStaleResult,
+} from './resilience';
+import { hydrateSearchResults, searchWordPress } from './search';
+import { loadWordPressSettings } from './settings';
 import type {
   CategoryFilter,
+  CommentFilter,
   ContentFilter,
   MediaFilter,
+  MenuFilter,
   PageFilter,
   PostFilter,
+  ResolvableWordPressClient,
+  SearchFilter,
   TagFilter,
   TermFilter,
   UserFilter,
+  WordPressAcfRelationTagOptions,
+  WordPressCollectionTagOptions,
+  WordPressComment,
+  WordPressCommentLoaderOptions,
   WordPressContentLoaderOptions,
   WordPressEmbedMode,
   WordPressEntryMappingOptions,
+  WordPressFieldProjectionOptions,
+  WordPressFieldSelection,
+  WordPressHierarchicalLoaderOptions,
+  WordPressLiveCacheOptions,
   WordPressLiveContentLoaderOptions,
+  WordPressLiveResilienceOptions,
+  WordPressMenu,
+  WordPressMenuLoaderOptions,
+  WordPressPagination,
+  WordPressProjectedEntry,
+  WordPressRelationMap,
+  WordPressResilienceOptions,
+  WordPressSearchLoaderOptions,
+  WordPressSearchResult,
+  WordPressSiteSettings,
+  WordPressStaleResult,
   WordPressTermLoaderOptions,
 } from './types';
 
 /**
- * Minimal embed config shared by post-like live loaders.
+ * Read config shared by post-like live loaders: embeds plus the resolved
+ * `_fields` projection.
  */
-type EmbedConfig = {
+type ReadConfig = {
   embed?: WordPressEmbedMode;
+  fields?: string;
 };
 
 /**
  * Shared shape used by Astro loader entry payloads.
  */
 type IdentifiableEntry = {
-  id: number;
+  id: number | string;
 };
 
 /**
@@ -57,6 +134,14 @@ type LiveLoaderContext = {
   filter?: unknown;
 };
 
+/**
+ * One loaded collection page with its paging metadata.
+ */
+type LiveCollectionPage<TEntry> = {
+  entries: TEntry[];
+  pagination: WordPressPagination;
+};
+
 /**
  * Configuration for one reusable live loader factory.
  */
@@ -69,28 +154,64 @@ interface LiveLoaderDefinition<TEntry extends IdentifiableEntry, TFilter> {
   loadCollectionData: (
     client: WordPressClient,
     filter: TFilter | undefined,
-  ) => Promise<TEntry[]>;
+  ) => Promise<TEntry[] | LiveCollectionPage<TEntry>>;
   loadEntryData: (
     client: WordPressClient,
     filter: TFilter | undefined,
   ) => Promise<TEntry | undefined>;
+  loadEntriesById?: EntryBatchLoader<TEntry>;
   mapEntry?: WordPressEntryMappingOptions<TEntry, TFilter>['mapEntry'];
+  relations?: WordPressRelationMap;
+  addEntryPaths?: (
+    client: WordPressClient,
+    entries: TEntry[],
+  ) => Promise<TEntry[]>;
   createEntryCacheHint?: (entry: TEntry) => WordPressCacheHint;
   createCollectionCacheHint?: (
     entries: TEntry[],
     filter: TFilter | undefined,
   ) => WordPressCacheHint;
   renderHtml?: (entry: TEntry) => string | undefined;
+  getEntryId?: (entry: TEntry) => string;
+  cache?: WordPressLiveCache;
+  resilience?: WordPressResilienceOptions;
+}
+
+/**
+ * Collection page as stored in the live cache: raw entries for cache hints
+ * plus the entries with hierarchical paths handed to `mapEntry`.
+ */
+type LoadedCollectionPage<TEntry> = LiveCollectionPage<TEntry> & {
+  pathEntries: TEntry[];
+};
+
+/**
+ * Sequence giving each loader instance its own live cache key namespace, so
+ * loaders with different options never share records.
+ */
+let loaderSequence = 0;
+
+/**
+ * Builds the embed and `_fields` query params of one post-like read.
+ */
+function createReadQuery(config?: ReadConfig): {
+  embed?: WordPressEmbedMode;
+  _fields?: string;
+} {
+  return {
+    embed: config?.embed,
+    ...(config?.fields ? { _fields: config.fields } : {}),
+  };
 }
 
 /**
- * Strips the loader-only ID lookup field while preserving upstream collection
- * filters such as `slug`, `search`, `include`, and custom query params.
+ * Strips the loader-only ID and path lookup fields while preserving upstream
+ * collection filters such as `slug`, `search`, `include`, and custom query params.
  */
-function stripEntryLookupId<T extends { id?: unknown }>(
+function stripEntryLookupId<T extends { id?: unknown; path?: unknown }>(
   filter: T,
-): Omit<T, 'id'> {
-  const { id: _id, ...rest } = filter;
+): Omit<T, 'id' | 'path'> {
+  const { id: _id, path: _path, ...rest } = filter;
   return rest;
 }
 
@@ -106,25 +227,44 @@ function normalizeLoaderFilter<TFilter>(filter: unknown): TFilter | undefined {
 }
 
 /**
- * Converts one thrown value into Astro's expected loader error shape.
+ * Converts one thrown value into Astro's expected loader error shape. Read
+ * failures already arrive as `WordPressLoaderError`; anything else (such as a
+ * throwing `mapEntry`) becomes a generic loader error with status 500.
  */
-function createLoaderError(message: string, error: unknown): { error: Error } {
+function createLoaderError(
+  message: string,
+  error: unknown,
+  options: WordPressLoaderErrorOptions,
+): { error: WordPressLoaderError } {
+  if (error instanceof WordPressLoaderError) {
+    return { error };
+  }
+
   return {
-    error: error instanceof Error ? error : new Error(message),
+    error: new WordPressLoaderError(
+      error instanceof Error ? error.message : message,
+      { ...options, cause: error },
+    ),
   };
 }
 
 /**
- * Applies the optional site-specific mapper while keeping cache hints based on the raw WordPress payload.
+ * Applies the optional site-specific mapper and relation references while
+ * keeping cache hints based on the raw WordPress payload.
  */
 async function mapLiveEntry<TEntry extends IdentifiableEntry, TFilter>(
   entry: TEntry,
   definition: LiveLoaderDefinition<TEntry, TFilter>,
   filter: TFilter | undefined,
 ): Promise<TEntry> {
-  return definition.mapEntry
-    ? definition.mapEntry(entry, { resource: definition.resource, filter })
+  const mapped = definition.mapEntry
+    ? await definition.mapEntry(entry, {
+        resource: definition.resource,
+        filter,
+      })
     : entry;
+
+  return resolveEntryRelations(mapped, definition.relations);
 }
 
 /**
@@ -134,6 +274,7 @@ function createLiveEntry<TEntry extends IdentifiableEntry>(
   entry: TEntry,
   cacheHint?: WordPressCacheHint,
   renderHtml?: (entry: TEntry) => string | undefined,
+  getEntryId?: (entry: TEntry) => string,
 ): {
   id: string;
   data: TEntry;
@@ -141,17 +282,18 @@ function createLiveEntry<TEntry extends IdentifiableEntry>(
   rendered?: { html: string };
 } {
   const html = renderHtml?.(entry);
+  const id = getEntryId?.(entry) ?? String(entry.id);
 
   if (!html) {
     return {
-      id: String(entry.id),
+      id,
       data: entry,
       ...(cacheHint ? { cacheHint } : {}),
     };
   }
 
   return {
-    id: String(entry.id),
+    id,
     data: entry,
     ...(cacheHint ? { cacheHint } : {}),
     rendered: { html },
@@ -170,11 +312,46 @@ function hasFreeTextSearchFilter(filter: unknown): boolean {
   return typeof (filter as { search?: unknown }).search === 'string';
 }
 
+/**
+ * Names why one loader result carries no route-level cache hint.
+ */
+function getDroppedHintReason(
+  authenticated: boolean,
+  stale: WordPressStaleResult | undefined,
+  filter: unknown,
+): WordPressCacheHintDropReason | undefined {
+  if (authenticated) {
+    return 'authenticated';
+  }
+
+  if (getWordPressPreview()) {
+    return 'preview';
+  }
+
+  if (stale) {
+    return 'stale';
+  }
+
+  return hasFreeTextSearchFilter(filter) ? 'free-text-search' : undefined;
+}
+
+/**
+ * Collects the tags of several cache hints for one live cache record.
+ */
+function collectCacheTags(
+  hints: Array<WordPressCacheHint | undefined>,
+): string[] {
+  return [...new Set(hints.flatMap((hint) => hint?.tags ?? []))];
+}
+
 /**
  * Creates one reusable live loader backed by `WordPressClient` methods.
+ * The client is resolved per call; results loaded with a request-authenticated
+ * client or in draft preview carry no cache hints and skip the live cache, so
+ * private data never reaches the route cache or shared memory.
  */
 function createLiveWordPressLoader<TEntry extends IdentifiableEntry, TFilter>(
-  client: WordPressClient,
+  client: ResolvableWordPressClient,
   definition: LiveLoaderDefinition<TEntry, TFilter>,
 ): {
   name: string;
@@ -182,70 +359,340 @@ function createLiveWordPressLoader<TEntry extends IdentifiableEntry, TFilter>(
     | {
         entries: ReturnType<typeof createLiveEntry<TEntry>>[];
         cacheHint?: WordPressCacheHint;
+        pagination: WordPressPagination;
       }
-    | { error: Error }
+    | { error: WordPressLoaderError }
   >;
   loadEntry: (
     context: LiveLoaderContext,
-  ) => Promise<ReturnType<typeof createLiveEntry<TEntry>> | { error: Error }>;
+  ) => Promise<
+    ReturnType<typeof createLiveEntry<TEntry>> | { error: WordPressLoaderError }
+  >;
 } {
+  loaderSequence += 1;
+
+  const cacheNamespace = `${definition.name}:${definition.resource}:${loaderSequence}`;
+
+  const loadBatchedEntry = definition.loadEntriesById
+    ? createEntryBatcher(definition.loadEntriesById, (requestClient, id) =>
+        definition.loadEntryData(requestClient, { id } as TFilter),
+      )
+    : undefined;
+  const dedupeEntryLoad = createInFlightDeduper<TEntry | undefined>();
+  const readResiliently = createResilientReader(
+    definition.resource,
+    definition.resilience,
+  );
+  const lastKnownGood = createLastKnownGoodStore(
+    definition.resilience?.fallback,
+  );
+
+  /**
+   * Loads one entry, coalescing concurrent ID lookups into one `include`
+   * request and sharing in-flight requests for identical filters. Preview
+   * reads load on their own because they resolve drafts and autosaves.
+   */
+  function loadSharedEntry(
+    requestClient: WordPressClient,
+    filter: TFilter | undefined,
+  ): Promise<TEntry | undefined> {
+    if (getWordPressPreview()) {
+      return definition.loadEntryData(requestClient, filter);
+    }
+
+    const id = getBatchableEntryId(filter);
+
+    if (loadBatchedEntry && id !== undefined) {
+      return loadBatchedEntry(requestClient, id);
+    }
+
+    return dedupeEntryLoad(requestClient, serializeCacheKey(filter), () =>
+      definition.loadEntryData(requestClient, filter),
+    );
+  }
+
+  /**
+   * Reads through the live cache unless the read is private or uncached.
+   */
+  function loadCached<TValue>(
+    kind: 'collection' | 'entry',
+    filter: TFilter | undefined,
+    privateRead: boolean,
+    loader: () => Promise<TValue>,
+    getTags: (value: TValue) => string[],
+  ): Promise<TValue> {
+    if (!definition.cache || privateRead) {
+      return readResiliently(loader, filter);
+    }
+
+    return definition.cache.load(
+      `${cacheNamespace}:${kind}:${serializeCacheKey(filter)}`,
+      () => readResiliently(loader, filter),
+      getTags,
+    );
+  }
+
+  /**
+   * Reads through `loadCached()` and remembers public results, so a failing
+   * read can serve the last successful result for the same filter instead.
+   */
+  async function loadWithFallback<TValue>(
+    kind: 'collection' | 'entry',
+    filter: TFilter | undefined,
+    privateRead: boolean,
+    loader: () => Promise<TValue>,
+    getTags: (value: TValue) => string[],
+  ): Promise<{ value: TValue; stale?: WordPressStaleResult }> {
+    const key = `${kind}:${serializeCacheKey(filter)}`;
+
+    try {
+      const value = await loadCached(
+        kind,
+        filter,
+        privateRead,
+        loader,
+        getTags,
+      );
+
+      if (!privateRead && value !== undefined) {
+        lastKnownGood?.set(key, value);
+      }
+
+      return { value };
+    } catch (error) {
+      const fallback =
+        privateRead || !isTransientReadError(error)
+          ? undefined
+          : lastKnownGood?.get<TValue>(key);
+
+      if (!fallback) {
+        throw error;
+      }
+
+      return {
+        value: fallback.value,
+        stale: {
+          error: toWordPressReadError(error, {
+            resource: definition.resource,
+            filter,
+          }),
+          loadedAt: fallback.loadedAt,
+        },
+      };
+    }
+  }
+
+  /**
+   * Reports one call to the dev toolbar cache inspector, when it is active.
+   */
+  function reportCall(
+    kind: WordPressLoaderCallReport['kind'],
+    filter: TFilter | undefined,
+    report: Partial<WordPressLoaderCallReport>,
+  ): void {
+    if (!isInspectingWordPressLoaderCalls()) {
+      return;
+    }
+
+    recordWordPressLoaderCall({
+      loader: definition.name,
+      resource: definition.resource,
+      kind,
+      filter,
+      tags: [],
+      ...report,
+    });
+  }
+
   return {
     name: definition.name,
     loadCollection: async ({ filter }: LiveLoaderContext) => {
+      const resolvedFilter = normalizeLoaderFilter<TFilter>(filter);
+
       try {
-        const resolvedFilter = normalizeLoaderFilter<TFilter>(filter);
-        const entries = await definition.loadCollectionData(
-          client,
+        const { client: requestClient, authenticated } =
+          await resolveLiveClient(client);
+        const privateRead = authenticated || Boolean(getWordPressPreview());
+        const { value: page, stale } = await loadWithFallback<
+          LoadedCollectionPage<TEntry>
+        >(
+          'collection',
           resolvedFilter,
+          privateRead,
+          async () => {
+            const data = await definition.loadCollectionData(
+              requestClient,
+              resolvedFilter,
+            );
+            const page = Array.isArray(data)
+              ? {
+                  entries: data,
+                  pagination: createSinglePagePagination(data.length),
+                }
+              : data;
+
+            return {
+              ...page,
+              pathEntries: definition.addEntryPaths
+                ? await definition.addEntryPaths(requestClient, page.entries)
+                : page.entries,
+            };
+          },
+          (page) =>
+            collectCacheTags([
+              definition.createCollectionCacheHint?.(
+                page.entries,
+                resolvedFilter,
+              ),
+              ...page.entries.map((entry) =>
+                definition.createEntryCacheHint?.(entry),
+              ),
+            ]),
         );
+        const { entries, pagination, pathEntries } = page;
         const mappedEntries = await Promise.all(
-          entries.map((entry) =>
+          pathEntries.map((entry) =>
             mapLiveEntry(entry, definition, resolvedFilter),
           ),
         );
-        const cacheHint = hasFreeTextSearchFilter(resolvedFilter)
-          ? undefined
-          : definition.createCollectionCacheHint?.(entries, resolvedFilter);
 
-        return {
-          entries: mappedEntries.map((entry, index) =>
-            createLiveEntry(
-              entry,
-              definition.createEntryCacheHint?.(entries[index]),
-              definition.renderHtml,
-            ),
+        recordPagination(filter, pagination);
+        recordStaleResult(filter, stale);
+
+        // Fallback results carry no hints so route caches do not keep them.
+        const uncached = privateRead || Boolean(stale);
+        const cacheHint =
+          uncached || hasFreeTextSearchFilter(resolvedFilter)
+            ? undefined
+            : definition.createCollectionCacheHint?.(entries, resolvedFilter);
+
+        const liveEntries = mappedEntries.map((entry, index) =>
+          createLiveEntry(
+            entry,
+            uncached
+              ? undefined
+              : definition.createEntryCacheHint?.(entries[index]),
+            definition.renderHtml,
+            definition.getEntryId,
           ),
+        );
+
+        const tags = collectCacheTags([
+          cacheHint,
+          ...liveEntries.map((entry) => entry.cacheHint),
+        ]);
+        const dropped = getDroppedHintReason(
+          authenticated,
+          stale,
+          resolvedFilter,
+        );
+
+        recordWordPressCacheTags(tags);
+        reportCall('collection', resolvedFilter, {
+          tags,
+          lastModified: toReportedLastModified(cacheHint),
+          entries: liveEntries.length,
+          ...(dropped ? { dropped } : {}),
+        });
+
+        return {
+          entries: liveEntries,
           ...(cacheHint ? { cacheHint } : {}),
+          pagination,
         };
       } catch (error) {
-        return createLoaderError(definition.collectionError, error);
+        const result = createLoaderError(definition.collectionError, error, {
+          resource: definition.resource,
+          filter: resolvedFilter,
+        });
+
+        reportCall('collection', resolvedFilter, {
+          error: result.error.message,
+        });
+
+        return result;
       }
     },
     loadEntry: async ({ filter }: LiveLoaderContext) => {
+      const resolvedFilter = normalizeLoaderFilter<TFilter>(filter);
+
       try {
-        const resolvedFilter = normalizeLoaderFilter<TFilter>(filter);
-        const entry = await definition.loadEntryData(client, resolvedFilter);
-
-        if (!entry) {
-          return createLoaderError(
-            definition.notFoundError,
-            new Error(definition.notFoundError),
-          );
+        const { client: requestClient, authenticated } =
+          await resolveLiveClient(client);
+        const privateRead = authenticated || Boolean(getWordPressPreview());
+        const { value: loaded, stale } = await loadWithFallback(
+          'entry',
+          resolvedFilter,
+          privateRead,
+          async () => {
+            const entry = await loadSharedEntry(requestClient, resolvedFilter);
+
+            if (!entry) {
+              return undefined;
+            }
+
+            const [pathEntry] = definition.addEntryPaths
+              ? await definition.addEntryPaths(requestClient, [entry])
+              : [entry];
+
+            return { entry, pathEntry };
+          },
+          (result) =>
+            collectCacheTags([
+              result && definition.createEntryCacheHint?.(result.entry),
+            ]),
+        );
+
+        if (!loaded) {
+          reportCall('entry', resolvedFilter, {
+            error: definition.notFoundError,
+          });
+
+          return {
+            error: new WordPressNotFoundError(definition.notFoundError, {
+              resource: definition.resource,
+              filter: resolvedFilter,
+            }),
+          };
         }
 
+        const { entry, pathEntry } = loaded;
         const mappedEntry = await mapLiveEntry(
-          entry,
+          pathEntry,
           definition,
           resolvedFilter,
         );
 
-        return createLiveEntry(
+        recordStaleResult(filter, stale);
+
+        const liveEntry = createLiveEntry(
           mappedEntry,
-          definition.createEntryCacheHint?.(entry),
+          privateRead || stale
+            ? undefined
+            : definition.createEntryCacheHint?.(entry),
           definition.renderHtml,
+          definition.getEntryId,
         );
+
+        const dropped = getDroppedHintReason(authenticated, stale, undefined);
+
+        recordWordPressCacheTags(liveEntry.cacheHint?.tags);
+        reportCall('entry', resolvedFilter, {
+          tags: liveEntry.cacheHint?.tags ?? [],
+          lastModified: toReportedLastModified(liveEntry.cacheHint),
+          ...(dropped ? { dropped } : {}),
+        });
+
+        return liveEntry;
       } catch (error) {
-        return createLoaderError(definition.entryError, error);
+        const result = createLoaderError(definition.entryError, error, {
+          resource: definition.resource,
+          filter: resolvedFilter,
+        });
+
+        reportCall('entry', resolvedFilter, { error: result.error.message });
+
+        return result;
       }
     },
   };
@@ -257,33 +704,84 @@ function createLiveWordPressLoader<TEntry extends IdentifiableEntry, TFilter>(
 async function loadPostEntry(
   client: WordPressClient,
   filter: PostFilter | undefined,
-  options?: EmbedConfig,
+  options?: ReadConfig,
 ): Promise<WordPressPost | undefined> {
   if (filter?.id) {
-    return client.content('posts').item(filter.id, { embed: options?.embed });
+    return client.content('posts').item(filter.id, createReadQuery(options));
   }
 
   if (typeof filter?.slug === 'string') {
-    return client.content('posts').item(filter.slug, { embed: options?.embed });
+    return client.content('posts').item(filter.slug, createReadQuery(options));
   }
 
   return undefined;
 }
 
 /**
- * Resolves one page from either `id` or `slug` filter input.
+ * Resolves one hierarchical content entry by its full slug path. One listing
+ * filtered by every path segment provides the candidates and their ancestors.
+ */
+async function loadContentEntryByPath<TEntry extends object>(
+  client: WordPressClient,
+  resource: string,
+  path: string,
+  options?: ReadConfig,
+): Promise<TEntry | undefined> {
+  const segments = [...new Set(getEntryPathSegments(path))];
+
+  if (segments.length === 0) {
+    return undefined;
+  }
+
+  const candidates = await client.content<TEntry>(resource).list({
+    slug: segments,
+    perPage: 100,
+    ...createReadQuery(options),
+  } as never);
+
+  return findEntryByPath(path, candidates);
+}
+
+/**
+ * Adds hierarchical `path` fields when the loader options opt in.
+ */
+function createEntryPathResolver<TEntry extends object>(
+  resource: string,
+  options?: WordPressHierarchicalLoaderOptions,
+):
+  | ((client: WordPressClient, entries: TEntry[]) => Promise<TEntry[]>)
+  | undefined {
+  if (!options?.hierarchical) {
+    return undefined;
+  }
+
+  return (client, entries) =>
+    withEntryPaths(entries, createContentParentLoader(client, resource));
+}
+
+/**
+ * Resolves one page from `id`, hierarchical `path`, or `slug` filter input.
  */
 async function loadPageEntry(
   client: WordPressClient,
   filter: PageFilter | undefined,
-  options?: EmbedConfig,
+  options?: ReadConfig,
 ): Promise<WordPressPage | undefined> {
   if (filter?.id) {
-    return client.content('pages').item(filter.id, { embed: options?.embed });
+    return client.content('pages').item(filter.id, createReadQuery(options));
+  }
+
+  if (filter?.path) {
+    return loadContentEntryByPath<WordPressPage>(
+      client,
+      'pages',
+      filter.path,
+      options,
+    );
   }
 
   if (typeof filter?.slug === 'string') {
-    return client.content('pages').item(filter.slug, { embed: options?.embed });
+    return client.content('pages').item(filter.slug, createReadQuery(options));
   }
 
   return undefined;
@@ -400,10 +898,28 @@ async function loadUserEntry(
 /**
  * Creates a live loader for WordPress posts.
  */
-export function wordPressPostLoader(
-  client: WordPressClient,
-  options?: WordPressLiveContentLoaderOptions<WordPressPost, PostFilter>,
-): LiveLoader<WordPressPost, PostFilter> {
+export function wordPressPostLoader<
+  const TFields extends
+    WordPressFieldSelection<WordPressPost> = WordPressFieldSelection<WordPressPost>,
+>(
+  client: ResolvableWordPressClient,
+  options?: WordPressLiveContentLoaderOptions<WordPressPost, PostFilter> &
+    WordPressFieldProjectionOptions<WordPressPost, TFields>,
+): LiveLoader<
+  WordPressProjectedEntry<WordPressPost, TFields>,
+  PostFilter,
+  never,
+  WordPressLoaderError
+> {
+  const read: ReadConfig = {
+    embed: options?.embed,
+    fields: createFieldsQuery(options?.fields, {
+      embed: options?.embed,
+      cacheHints: true,
+      acfRelations: Boolean(options?.acfRelations),
+    }),
+  };
+
   return createLiveWordPressLoader<WordPressPost, PostFilter>(client, {
     name: 'wordpress-post-loader',
     resource: 'posts',
@@ -411,28 +927,71 @@ export function wordPressPostLoader(
     entryError: 'Failed to load post',
     notFoundError: 'Post not found',
     createEntryCacheHint: (entry) =>
-      createContentEntryCacheHint('posts', entry),
-    createCollectionCacheHint: (entries) =>
-      createContentCollectionCacheHint('posts', entries),
+      createContentEntryCacheHint('posts', entry, options?.acfRelations),
+    createCollectionCacheHint: (entries, filter) =>
+      createContentCollectionCacheHint(
+        'posts',
+        entries,
+        filter,
+        options?.taxonomies,
+      ),
     loadCollectionData: (client, filter: PostFilter | undefined) =>
+      loadCollectionPage(
+        client.content('posts').listPaginated({
+          ...(filter ? stripEntryLookupId(filter) : {}),
+          ...createReadQuery(read),
+        } as never),
+        filter,
+      ),
+    mapEntry: options?.mapEntry,
+    cache: options?.cache,
+    resilience: options?.resilience,
+    relations: options?.relations,
+    loadEntryData: async (client, filter: PostFilter | undefined) =>
+      (await loadPreviewEntry<WordPressPost>('posts', filter)) ??
+      loadPostEntry(client, filter, read),
+    loadEntriesById: (client, ids) =>
       client.content('posts').list({
-        ...(filter ? stripEntryLookupId(filter) : {}),
-        embed: options?.embed,
+        include: ids,
+        perPage: ids.length,
+        ...createReadQuery(read),
       } as never),
-    mapEntry: options?.mapEntry,
-    loadEntryData: (client, filter: PostFilter | undefined) =>
-      loadPostEntry(client, filter, options),
-    renderHtml: (entry) => entry.content.rendered,
-  }) as LiveLoader<WordPressPost, PostFilter>;
+    renderHtml: (entry) => entry.content?.rendered,
+  }) as LiveLoader<
+    WordPressProjectedEntry<WordPressPost, TFields>,
+    PostFilter,
+    never,
+    WordPressLoaderError
+  >;
 }
 
 /**
  * Creates a live loader for WordPress pages.
  */
-export function wordPressPageLoader(
-  client: WordPressClient,
-  options?: WordPressLiveContentLoaderOptions<WordPressPage, PageFilter>,
-): LiveLoader<WordPressPage, PageFilter> {
+export function wordPressPageLoader<
+  const TFields extends
+    WordPressFieldSelection<WordPressPage> = WordPressFieldSelection<WordPressPage>,
+>(
+  client: ResolvableWordPressClient,
+  options?: WordPressLiveContentLoaderOptions<WordPressPage, PageFilter> &
+    WordPressHierarchicalLoaderOptions &
+    WordPressFieldProjectionOptions<WordPressPage, TFields>,
+): LiveLoader<
+  WordPressProjectedEntry<WordPressPage, TFields>,
+  PageFilter,
+  never,
+  WordPressLoaderError
+> {
+  const read: ReadConfig = {
+    embed: options?.embed,
+    fields: createFieldsQuery(options?.fields, {
+      embed: options?.embed,
+      paths: true,
+      cacheHints: true,
+      acfRelations: Boolean(options?.acfRelations),
+    }),
+  };
+
   return createLiveWordPressLoader<WordPressPage, PageFilter>(client, {
     name: 'wordpress-page-loader',
     resource: 'pages',
@@ -440,28 +999,54 @@ export function wordPressPageLoader(
     entryError: 'Failed to load page',
     notFoundError: 'Page not found',
     createEntryCacheHint: (entry) =>
-      createContentEntryCacheHint('pages', entry),
-    createCollectionCacheHint: (entries) =>
-      createContentCollectionCacheHint('pages', entries),
+      createContentEntryCacheHint('pages', entry, options?.acfRelations),
+    createCollectionCacheHint: (entries, filter) =>
+      createContentCollectionCacheHint(
+        'pages',
+        entries,
+        filter,
+        options?.taxonomies,
+      ),
     loadCollectionData: (client, filter: PageFilter | undefined) =>
+      loadCollectionPage(
+        client.content('pages').listPaginated({
+          ...(filter ? stripEntryLookupId(filter) : {}),
+          ...createReadQuery(read),
+        } as never),
+        filter,
+      ),
+    mapEntry: options?.mapEntry,
+    cache: options?.cache,
+    resilience: options?.resilience,
+    relations: options?.relations,
+    addEntryPaths: createEntryPathResolver('pages', options),
+    loadEntryData: async (client, filter: PageFilter | undefined) =>
+      (await loadPreviewEntry<WordPressPage>('pages', filter)) ??
+      loadPageEntry(client, filter, read),
+    loadEntriesById: (client, ids) =>
       client.content('pages').list({
-        ...(filter ? stripEntryLookupId(filter) : {}),
-        embed: options?.embed,
+        include: ids,
+        perPage: ids.length,
+        ...createReadQuery(read),
       } as never),
-    mapEntry: options?.mapEntry,
-    loadEntryData: (client, filter: PageFilter | undefined) =>
-      loadPageEntry(client, filter, options),
-    renderHtml: (entry) => entry.content.rendered,
-  }) as LiveLoader<WordPressPage, PageFilter>;
+    renderHtml: (entry) => entry.content?.rendered,
+  }) as LiveLoader<
+    WordPressProjectedEntry<WordPressPage, TFields>,
+    PageFilter,
+    never,
+    WordPressLoaderError
+  >;
 }
 
 /**
  * Creates a live loader for WordPress media items.
  */
 export function wordPressMediaLoader(
-  client: WordPressClient,
-  options?: WordPressEntryMappingOptions<WordPressMedia, MediaFilter>,
-): LiveLoader<WordPressMedia, MediaFilter> {
+  client: ResolvableWordPressClient,
+  options?: WordPressEntryMappingOptions<WordPressMedia, MediaFilter> &
+    WordPressLiveCacheOptions &
+    WordPressLiveResilienceOptions,
+): LiveLoader<WordPressMedia, MediaFilter, never, WordPressLoaderError> {
   return createLiveWordPressLoader<WordPressMedia, MediaFilter>(client, {
     name: 'wordpress-media-loader',
     resource: 'media',
@@ -473,20 +1058,29 @@ export function wordPressMediaLoader(
       createMediaCollectionCacheHint(entries),
     loadCollectionData: (client, filter) =>
       filter
-        ? client.media().list(stripEntryLookupId(filter))
+        ? loadCollectionPage(
+            client.media().listPaginated(stripEntryLookupId(filter)),
+            filter,
+          )
         : client.media().listAll(),
     loadEntryData: loadMediaEntry,
+    loadEntriesById: (client, ids) =>
+      client.media().list({ include: ids, perPage: ids.length }),
     mapEntry: options?.mapEntry,
-  }) as LiveLoader<WordPressMedia, MediaFilter>;
+    cache: options?.cache,
+    resilience: options?.resilience,
+  }) as LiveLoader<WordPressMedia, MediaFilter, never, WordPressLoaderError>;
 }
 
 /**
  * Creates a live loader for WordPress categories and taxonomies.
  */
 export function wordPressCategoryLoader(
-  client: WordPressClient,
-  options?: WordPressEntryMappingOptions<WordPressCategory, CategoryFilter>,
-): LiveLoader<WordPressCategory, CategoryFilter> {
+  client: ResolvableWordPressClient,
+  options?: WordPressEntryMappingOptions<WordPressCategory, CategoryFilter> &
+    WordPressLiveCacheOptions &
+    WordPressLiveResilienceOptions,
+): LiveLoader<WordPressCategory, CategoryFilter, never, WordPressLoaderError> {
   return createLiveWordPressLoader<WordPressCategory, CategoryFilter>(client, {
     name: 'wordpress-category-loader',
     resource: 'categories',
@@ -498,22 +1092,36 @@ export function wordPressCategoryLoader(
     createCollectionCacheHint: (entries) =>
       createTermCollectionCacheHint('categories', entries),
     loadCollectionData: (client, filter) =>
-      client.terms('categories').list({
-        ...(filter ? stripEntryLookupId(filter) : {}),
-        hideEmpty: filter?.hideEmpty ?? filter?.hide_empty,
-      }),
+      loadCollectionPage(
+        client.terms('categories').listPaginated({
+          ...(filter ? stripEntryLookupId(filter) : {}),
+          hideEmpty: filter?.hideEmpty ?? filter?.hide_empty,
+        }),
+        filter,
+      ),
     loadEntryData: loadCategoryEntry,
+    loadEntriesById: (client, ids) =>
+      client.terms('categories').list({ include: ids, perPage: ids.length }),
     mapEntry: options?.mapEntry,
-  }) as LiveLoader<WordPressCategory, CategoryFilter>;
+    cache: options?.cache,
+    resilience: options?.resilience,
+  }) as LiveLoader<
+    WordPressCategory,
+    CategoryFilter,
+    never,
+    WordPressLoaderError
+  >;
 }
 
 /**
  * Creates a live loader for WordPress tags.
  */
 export function wordPressTagLoader(
-  client: WordPressClient,
-  options?: WordPressEntryMappingOptions<WordPressTag, TagFilter>,
-): LiveLoader<WordPressTag, TagFilter> {
+  client: ResolvableWordPressClient,
+  options?: WordPressEntryMappingOptions<WordPressTag, TagFilter> &
+    WordPressLiveCacheOptions &
+    WordPressLiveResilienceOptions,
+): LiveLoader<WordPressTag, TagFilter, never, WordPressLoaderError> {
   return createLiveWordPressLoader<WordPressTag, TagFilter>(client, {
     name: 'wordpress-tag-loader',
     resource: 'tags',
@@ -524,22 +1132,31 @@ export function wordPressTagLoader(
     createCollectionCacheHint: (entries) =>
       createTermCollectionCacheHint('tags', entries),
     loadCollectionData: (client, filter) =>
-      client.terms('tags').list({
-        ...(filter ? stripEntryLookupId(filter) : {}),
-        hideEmpty: filter?.hideEmpty ?? filter?.hide_empty,
-      }),
+      loadCollectionPage(
+        client.terms('tags').listPaginated({
+          ...(filter ? stripEntryLookupId(filter) : {}),
+          hideEmpty: filter?.hideEmpty ?? filter?.hide_empty,
+        }),
+        filter,
+      ),
     loadEntryData: loadTagEntry,
+    loadEntriesById: (client, ids) =>
+      client.terms('tags').list({ include: ids, perPage: ids.length }),
     mapEntry: options?.mapEntry,
-  }) as LiveLoader<WordPressTag, TagFilter>;
+    cache: options?.cache,
+    resilience: options?.resilience,
+  }) as LiveLoader<WordPressTag, TagFilter, never, WordPressLoaderError>;
 }
 
 /**
  * Creates a live loader for custom taxonomy term resources.
  */
 export function wordPressTermLoader(
-  client: WordPressClient,
-  options: WordPressTermLoaderOptions<WordPressCategory, TermFilter>,
-): LiveLoader<WordPressCategory, TermFilter> {
+  client: ResolvableWordPressClient,
+  options: WordPressTermLoaderOptions<WordPressCategory, TermFilter> &
+    WordPressLiveCacheOptions &
+    WordPressLiveResilienceOptions,
+): LiveLoader<WordPressCategory, TermFilter, never, WordPressLoaderError> {
   const { resource } = options;
 
   return createLiveWordPressLoader<WordPressCategory, TermFilter>(client, {
@@ -552,15 +1169,22 @@ export function wordPressTermLoader(
     createCollectionCacheHint: (entries) =>
       createTermCollectionCacheHint(resource, entries),
     loadCollectionData: (client, filter: TermFilter | undefined) =>
-      client.terms(resource).list(createTermQueryFilter(filter)),
+      loadCollectionPage(
+        client.terms(resource).listPaginated(createTermQueryFilter(filter)),
+        filter,
+      ),
     loadEntryData: (client, filter: TermFilter | undefined) =>
       loadTermEntry(client, resource, filter),
+    loadEntriesById: (client, ids) =>
+      client.terms(resource).list({ include: ids, perPage: ids.length }),
     mapEntry: options.mapEntry,
-  }) as LiveLoader<WordPressCategory, TermFilter>;
+    cache: options.cache,
+    resilience: options.resilience,
+  }) as LiveLoader<WordPressCategory, TermFilter, never, WordPressLoaderError>;
 }
 
 /**
- * Resolves one content entry from either `id` or `slug` filter input.
+ * Resolves one content entry from `id`, hierarchical `path`, or `slug` filter input.
  * Used for custom post types via generic content resource helpers.
  * The v3 client returns the broader post-like shape for generic resources,
  * while Astro collections still expose this loader as post-compatible data.
@@ -569,20 +1193,29 @@ async function loadContentEntry(
   client: WordPressClient,
   resource: string,
   filter: ContentFilter | undefined,
-  options?: EmbedConfig,
+  options?: ReadConfig,
 ): Promise<WordPressPost | undefined> {
   if (filter?.id) {
     return client
       .content(resource)
-      .item(filter.id, { embed: options?.embed }) as unknown as Promise<
+      .item(filter.id, createReadQuery(options)) as unknown as Promise<
       WordPressPost | undefined
     >;
   }
 
+  if (filter?.path) {
+    return loadContentEntryByPath<WordPressPost>(
+      client,
+      resource,
+      filter.path,
+      options,
+    );
+  }
+
   if (typeof filter?.slug === 'string') {
     return client
       .content(resource)
-      .item(filter.slug, { embed: options?.embed }) as unknown as Promise<
+      .item(filter.slug, createReadQuery(options)) as unknown as Promise<
       WordPressPost | undefined
     >;
   }
@@ -594,9 +1227,11 @@ async function loadContentEntry(
  * Creates a live loader for WordPress users.
  */
 export function wordPressUserLoader(
-  client: WordPressClient,
-  options?: WordPressEntryMappingOptions<WordPressAuthor, UserFilter>,
-): LiveLoader<WordPressAuthor, UserFilter> {
+  client: ResolvableWordPressClient,
+  options?: WordPressEntryMappingOptions<WordPressAuthor, UserFilter> &
+    WordPressLiveCacheOptions &
+    WordPressLiveResilienceOptions,
+): LiveLoader<WordPressAuthor, UserFilter, never, WordPressLoaderError> {
   return createLiveWordPressLoader<WordPressAuthor, UserFilter>(client, {
     name: 'wordpress-user-loader',
     resource: 'users',
@@ -606,12 +1241,241 @@ export function wordPressUserLoader(
     createEntryCacheHint: createUserEntryCacheHint,
     createCollectionCacheHint: () => createUserCollectionCacheHint(),
     loadCollectionData: (client, filter) =>
-      client.users().list({
-        ...(filter ? stripEntryLookupId(filter) : {}),
-      }),
+      loadCollectionPage(
+        client.users().listPaginated({
+          ...(filter ? stripEntryLookupId(filter) : {}),
+        }),
+        filter,
+      ),
     loadEntryData: loadUserEntry,
+    loadEntriesById: (client, ids) =>
+      client.users().list({ include: ids, perPage: ids.length }),
     mapEntry: options?.mapEntry,
-  }) as LiveLoader<WordPressAuthor, UserFilter>;
+    cache: options?.cache,
+    resilience: options?.resilience,
+  }) as LiveLoader<WordPressAuthor, UserFilter, never, WordPressLoaderError>;
+}
+
+/**
+ * Resolves one comment by `id`. Threaded lookups attach the comment's replies.
+ */
+async function loadCommentEntry(
+  client: WordPressClient,
+  filter: CommentFilter | undefined,
+  threaded: boolean | undefined,
+): Promise<WordPressComment | undefined> {
+  if (!filter?.id) {
+    return undefined;
+  }
+
+  const comment = (await client
+    .content('comments')
+    .item(filter.id)) as unknown as WordPressComment | undefined;
+
+  if (!comment || !threaded) {
+    return comment;
+  }
+
+  const descendants = await listComments(
+    client,
+    { post: comment.post },
+    { all: true },
+  );
+  // Detach the comment from its own parent so it becomes the thread root.
+  const [thread] = buildCommentThreads([
+    { ...comment, parent: 0 },
+    ...descendants.filter((entry) => entry.id !== comment.id),
+  ]);
+
+  return { ...thread, parent: comment.parent };
+}
+
+/**
+ * Creates a live loader for WordPress comments. Filter by `post` and `status`;
+ * `threaded` assembles replies under their parent comments.
+ */
+export function wordPressCommentLoader(
+  client: ResolvableWordPressClient,
+  options?: WordPressCommentLoaderOptions<CommentFilter> &
+    WordPressLiveCacheOptions &
+    WordPressLiveResilienceOptions,
+): LiveLoader<WordPressComment, CommentFilter, never, WordPressLoaderError> {
+  return createLiveWordPressLoader<WordPressComment, CommentFilter>(client, {
+    name: 'wordpress-comment-loader',
+    resource: 'comments',
+    collectionError: 'Failed to load comments',
+    entryError: 'Failed to load comment',
+    notFoundError: 'Comment not found',
+    createEntryCacheHint: createCommentEntryCacheHint,
+    createCollectionCacheHint: createCommentCollectionCacheHint,
+    loadCollectionData: (client, filter) =>
+      listCommentPage(client, filter ? stripEntryLookupId(filter) : undefined, {
+        threaded: options?.threaded,
+      }),
+    loadEntryData: (client, filter) =>
+      loadCommentEntry(client, filter, options?.threaded),
+    mapEntry: options?.mapEntry,
+    cache: options?.cache,
+    resilience: options?.resilience,
+    renderHtml: (entry) => entry.content.rendered,
+  }) as LiveLoader<
+    WordPressComment,
+    CommentFilter,
+    never,
+    WordPressLoaderError
+  >;
+}
+
+/**
+ * Creates a live loader for navigation menus with nested item trees.
+ * Classic menus require an authenticated client with `edit_theme_options`;
+ * entries resolve by `id`, `slug`, or theme `location`.
+ */
+export function wordPressMenuLoader(
+  client: ResolvableWordPressClient,
+  options?: WordPressMenuLoaderOptions<MenuFilter> &
+    WordPressLiveCacheOptions &
+    WordPressLiveResilienceOptions,
+): LiveLoader<WordPressMenu, MenuFilter, never, WordPressLoaderError> {
+  const source = options?.source ?? 'menus';
+
+  return createLiveWordPressLoader<WordPressMenu, MenuFilter>(client, {
+    name: 'wordpress-menu-loader',
+    resource: source,
+    collectionError: 'Failed to load menus',
+    entryError: 'Failed to load menu',
+    notFoundError: 'Menu not found',
+    createEntryCacheHint: createMenuEntryCacheHint,
+    createCollectionCacheHint: (entries) =>
+      createMenuCollectionCacheHint(source, entries),
+    loadCollectionData: (client, filter) =>
+      loadWordPressMenus(client, source, filter),
+    loadEntryData: async (client, filter) =>
+      filter?.id || filter?.slug || filter?.location
+        ? (await loadWordPressMenus(client, source, filter))[0]
+        : undefined,
+    mapEntry: options?.mapEntry,
+    cache: options?.cache,
+    resilience: options?.resilience,
+  }) as LiveLoader<WordPressMenu, MenuFilter, never, WordPressLoaderError>;
+}
+
+/**
+ * Resolves one search result by `id`. Prefixed live entry IDs (`posts:12`)
+ * select the matching REST base; bare IDs return the first match, searching
+ * posts before terms unless `type` is set.
+ */
+async function loadSearchEntry(
+  client: WordPressClient,
+  filter: SearchFilter | undefined,
+): Promise<WordPressSearchResult | undefined> {
+  if (!filter?.id) {
+    return undefined;
+  }
+
+  const [resource, id] =
+    typeof filter.id === 'string' && filter.id.includes(':')
+      ? filter.id.split(':')
+      : [undefined, String(filter.id)];
+  const types = filter.type ? [filter.type] : (['post', 'term'] as const);
+
+  for (const type of types) {
+    const { entries } = await searchWordPress(client, {
+      type,
+      subtype: filter.subtype,
+      include: [Number(id)],
+      perPage: 100,
+    });
+    const match = entries.find(
+      (entry) => resource === undefined || entry.resource === resource,
+    );
+
+    if (match) {
+      return match;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Creates a live loader over `wp/v2/search` returning mixed posts, pages, CPT
+ * entries, and terms discriminated by `subtype`. Entry IDs are prefixed with
+ * the REST base (`posts:12`, `categories:3`) because IDs repeat across kinds.
+ */
+export function wordPressSearchLoader(
+  client: ResolvableWordPressClient,
+  options?: WordPressSearchLoaderOptions<SearchFilter> &
+    WordPressLiveCacheOptions &
+    WordPressLiveResilienceOptions,
+): LiveLoader<
+  WordPressSearchResult,
+  SearchFilter,
+  never,
+  WordPressLoaderError
+> {
+  const hydrate = async (
+    client: WordPressClient,
+    results: WordPressSearchResult[],
+  ) => (options?.hydrate ? hydrateSearchResults(client, results) : results);
+
+  return createLiveWordPressLoader<WordPressSearchResult, SearchFilter>(
+    client,
+    {
+      name: 'wordpress-search-loader',
+      resource: 'search',
+      collectionError: 'Failed to load search results',
+      entryError: 'Failed to load search result',
+      notFoundError: 'Search result not found',
+      createEntryCacheHint: createSearchEntryCacheHint,
+      loadCollectionData: async (client, filter) => {
+        const { entries, pagination } = await searchWordPress(client, filter);
+
+        return { entries: await hydrate(client, entries), pagination };
+      },
+      loadEntryData: async (client, filter) => {
+        const entry = await loadSearchEntry(client, filter);
+
+        return entry ? (await hydrate(client, [entry]))[0] : undefined;
+      },
+      mapEntry: options?.mapEntry,
+      cache: options?.cache,
+      resilience: options?.resilience,
+      getEntryId: (entry) => `${entry.resource}:${entry.id}`,
+    },
+  ) as LiveLoader<
+    WordPressSearchResult,
+    SearchFilter,
+    never,
+    WordPressLoaderError
+  >;
+}
+
+/**
+ * Creates a singleton live loader for site settings. The collection holds one
+ * `site` entry; any entry lookup resolves to it. Authenticated clients with
+ * `manage_options` also receive `wp/v2/settings` values.
+ */
+export function wordPressSettingsLoader(
+  client: ResolvableWordPressClient,
+  options?: WordPressEntryMappingOptions<WordPressSiteSettings> &
+    WordPressLiveCacheOptions &
+    WordPressLiveResilienceOptions,
+): LiveLoader<WordPressSiteSettings, never, never, WordPressLoaderError> {
+  return createLiveWordPressLoader<WordPressSiteSettings, never>(client, {
+    name: 'wordpress-settings-loader',
+    resource: 'settings',
+    collectionError: 'Failed to load settings',
+    entryError: 'Failed to load settings',
+    notFoundError: 'Settings not found',
+    createEntryCacheHint: () => createSettingsCacheHint(),
+    createCollectionCacheHint: () => createSettingsCacheHint(),
+    loadCollectionData: async (client) => [await loadWordPressSettings(client)],
+    loadEntryData: (client) => loadWordPressSettings(client),
+    mapEntry: options?.mapEntry,
+    cache: options?.cache,
+    resilience: options?.resilience,
+  }) as LiveLoader<WordPressSiteSettings, never, never, WordPressLoaderError>;
 }
 
 /**
@@ -620,11 +1484,32 @@ export function wordPressUserLoader(
  */
 export function wordPressContentLoader<
   TEntry extends WordPressPostLike = WordPressPost,
+  const TFields extends
+    WordPressFieldSelection<TEntry> = WordPressFieldSelection<TEntry>,
 >(
-  client: WordPressClient,
-  options: WordPressContentLoaderOptions<TEntry, ContentFilter>,
-): LiveLoader<TEntry, ContentFilter> {
+  client: ResolvableWordPressClient,
+  options: WordPressContentLoaderOptions<TEntry, ContentFilter> &
+    WordPressLiveCacheOptions &
+    WordPressLiveResilienceOptions &
+    WordPressCollectionTagOptions &
+    WordPressAcfRelationTagOptions &
+    WordPressFieldProjectionOptions<TEntry, TFields>,
+): LiveLoader<
+  WordPressProjectedEntry<TEntry, TFields>,
+  ContentFilter,
+  never,
+  WordPressLoaderError
+> {
   const { resource, embed } = options;
+  const read: ReadConfig = {
+    embed,
+    fields: createFieldsQuery(options.fields, {
+      embed,
+      paths: true,
+      cacheHints: true,
+      acfRelations: Boolean(options.acfRelations),
+    }),
+  };
 
   return createLiveWordPressLoader<TEntry, ContentFilter>(client, {
     name: 'wordpress-content-loader',
@@ -633,19 +1518,43 @@ export function wordPressContentLoader<
     entryError: `Failed to load ${resource} entry`,
     notFoundError: `${resource} entry not found`,
     createEntryCacheHint: (entry) =>
-      createContentEntryCacheHint(resource, entry),
-    createCollectionCacheHint: (entries) =>
-      createContentCollectionCacheHint(resource, entries),
+      createContentEntryCacheHint(resource, entry, options.acfRelations),
+    createCollectionCacheHint: (entries, filter) =>
+      createContentCollectionCacheHint(
+        resource,
+        entries,
+        filter,
+        options.taxonomies,
+      ),
     loadCollectionData: (client, filter: ContentFilter | undefined) =>
+      loadCollectionPage(
+        client.content<TEntry>(resource).listPaginated({
+          ...(filter ? stripEntryLookupId(filter) : {}),
+          ...createReadQuery(read),
+        } as never),
+        filter,
+      ),
+    loadEntryData: async (client, filter: ContentFilter | undefined) =>
+      (await loadPreviewEntry<TEntry>(resource, filter)) ??
+      (loadContentEntry(client, resource, filter, read) as Promise<
+        TEntry | undefined
+      >),
+    loadEntriesById: (client, ids) =>
       client.content<TEntry>(resource).list({
-        ...(filter ? stripEntryLookupId(filter) : {}),
-        embed,
+        include: ids,
+        perPage: ids.length,
+        ...createReadQuery(read),
       } as never),
-    loadEntryData: (client, filter: ContentFilter | undefined) =>
-      loadContentEntry(client, resource, filter, { embed }) as Promise<
-        TEntry | undefined
-      >,
     mapEntry: options.mapEntry,
+    cache: options.cache,
+    resilience: options.resilience,
+    relations: options.relations,
+    addEntryPaths: createEntryPathResolver(resource, options),
     renderHtml: (entry) => entry.content?.rendered,
-  }) as LiveLoader<TEntry, ContentFilter>;
+  }) as LiveLoader<
+    WordPressProjectedEntry<TEntry, TFields>,
+    ContentFilter,
+    never,
+    WordPressLoaderError
+  >;
 }
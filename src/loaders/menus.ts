@@ -0,0 +1,359 @@
+import type { WordPressClient } from 'fluent-wp-client';
+import type {
+  MenuFilter,
+  WordPressMenu,
+  WordPressMenuItem,
+  WordPressMenuSource,
+} from './types';
+
+/**
+ * Raw `wp/v2/menus` term payload.
+ */
+type RawMenu = {
+  id: number;
+  name: string;
+  slug: string;
+  locations?: string[];
+};
+
+/**
+ * Raw `wp/v2/menu-items` payload.
+ */
+type RawMenuItem = {
+  id: number;
+  title?: { rendered?: string } | string;
+  url?: string;
+  attr_title?: string;
+  target?: string;
+  classes?: string[];
+  type?: string;
+  object?: string;
+  object_id?: number;
+  parent?: number;
+  menu_order?: number;
+  menus?: number | number[];
+  invalid?: boolean;
+};
+
+/**
+ * Raw `wp/v2/navigation` post payload read with `context=edit`.
+ */
+type RawNavigation = {
+  id: number;
+  slug: string;
+  title?: { rendered?: string; raw?: string };
+  content?: { raw?: string };
+  modified_gmt?: string;
+};
+
+/**
+ * Navigation block attributes used to build menu items.
+ */
+type NavigationBlockAttributes = {
+  label?: string;
+  url?: string;
+  title?: string;
+  kind?: string;
+  type?: string;
+  id?: number;
+  opensInNewTab?: boolean;
+  className?: string;
+};
+
+/**
+ * Matches one serialized block comment delimiter (opener, closer, or void).
+ */
+const BLOCK_DELIMITER_PATTERN =
+  /<!--\s+(\/)?wp:([a-z][a-z0-9_/-]*)\s+(\{[\s\S]*?\}\s+)?(\/)?-->/g;
+
+/**
+ * Navigation blocks that become menu items. Other blocks (e.g. `page-list`)
+ * are skipped because their items are not stored in the navigation post.
+ */
+const NAVIGATION_ITEM_BLOCKS = new Set([
+  'navigation-link',
+  'navigation-submenu',
+  'home-link',
+  'core/navigation-link',
+  'core/navigation-submenu',
+  'core/home-link',
+]);
+
+/**
+ * Maps navigation block link kinds to classic menu item types.
+ */
+const NAVIGATION_KIND_TYPES: Record<string, string> = {
+  'post-type': 'post_type',
+  'post-type-archive': 'post_type_archive',
+  taxonomy: 'taxonomy',
+  custom: 'custom',
+};
+
+/**
+ * Resolves the site-relative path for items that link to WordPress objects.
+ * Custom links may point anywhere, so they keep only the absolute URL.
+ */
+function getMenuItemPath(url: string, type: string): string | undefined {
+  if (type === 'custom' || url.length === 0) {
+    return undefined;
+  }
+
+  try {
+    const parsed = new URL(url);
+    return `${parsed.pathname}${parsed.search}${parsed.hash}`;
+  } catch {
+    return url.startsWith('/') ? url : undefined;
+  }
+}
+
+/**
+ * Normalizes one classic menu item into the shared menu item shape.
+ */
+function createClassicMenuItem(raw: RawMenuItem): WordPressMenuItem {
+  const url = raw.url ?? '';
+  const type = raw.type ?? 'custom';
+
+  return {
+    id: raw.id,
+    parent: raw.parent ?? 0,
+    order: raw.menu_order ?? 0,
+    title:
+      typeof raw.title === 'string' ? raw.title : (raw.title?.rendered ?? ''),
+    url,
+    path: getMenuItemPath(url, type),
+    ...(raw.target ? { target: raw.target } : {}),
+    ...(raw.attr_title ? { attrTitle: raw.attr_title } : {}),
+    classes: (raw.classes ?? []).filter((name) => name.length > 0),
+    type,
+    object: raw.object ?? 'custom',
+    ...(raw.object_id ? { objectId: raw.object_id } : {}),
+    children: [],
+  };
+}
+
+/**
+ * Nests flat menu items under their parents, ordered by `order`. Items whose
+ * parent is missing (e.g. an unpublished parent) are promoted to the top level.
+ */
+export function buildMenuItemTree(
+  items: WordPressMenuItem[],
+): WordPressMenuItem[] {
+  const sorted = [...items].sort((a, b) => a.order - b.order);
+  const byId = new Map<number, WordPressMenuItem>(
+    sorted.map((item) => [item.id, { ...item, children: [] }]),
+  );
+  const roots: WordPressMenuItem[] = [];
+
+  for (const item of byId.values()) {
+    const parent = item.parent > 0 ? byId.get(item.parent) : undefined;
+
+    if (parent && parent !== item) {
+      parent.children.push(item);
+    } else {
+      roots.push(item);
+    }
+  }
+
+  return roots;
+}
+
+/**
+ * Returns the menu IDs one classic menu item belongs to.
+ */
+function getMenuItemMenuIds(item: RawMenuItem): number[] {
+  if (Array.isArray(item.menus)) {
+    return item.menus;
+  }
+
+  return typeof item.menus === 'number' ? [item.menus] : [];
+}
+
+/**
+ * Applies the live loader lookup fields to one menu.
+ */
+function matchesMenuFilter(
+  menu: Pick<WordPressMenu, 'id' | 'slug' | 'locations'>,
+  filter: MenuFilter | undefined,
+): boolean {
+  if (filter?.id && menu.id !== filter.id) {
+    return false;
+  }
+
+  if (filter?.slug && menu.slug !== filter.slug) {
+    return false;
+  }
+
+  if (filter?.location && !menu.locations.includes(filter.location)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Loads classic menus and their items. Menus are filtered before items are
+ * requested so single-menu lookups fetch only that menu's items.
+ */
+async function loadClassicMenus(
+  client: WordPressClient,
+  filter?: MenuFilter,
+): Promise<WordPressMenu[]> {
+  const menus = (
+    (await client.terms('menus').listAll()) as unknown as RawMenu[]
+  )
+    .map((menu) => ({ ...menu, locations: menu.locations ?? [] }))
+    .filter((menu) => matchesMenuFilter(menu, filter));
+
+  if (menus.length === 0) {
+    return [];
+  }
+
+  const items = (await client.content('menu-items').listAll({
+    menus: menus.map((menu) => menu.id),
+  } as never)) as unknown as RawMenuItem[];
+
+  return menus.map((menu) => ({
+    id: menu.id,
+    slug: menu.slug,
+    name: menu.name,
+    source: 'menus' as const,
+    locations: menu.locations,
+    items: buildMenuItemTree(
+      items
+        .filter(
+          (item) => !item.invalid && getMenuItemMenuIds(item).includes(menu.id),
+        )
+        .map(createClassicMenuItem),
+    ),
+  }));
+}
+
+/**
+ * Parses the attribute JSON of one block delimiter.
+ */
+function parseBlockAttributes(
+  json: string | undefined,
+): NavigationBlockAttributes {
+  if (!json) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(json) as NavigationBlockAttributes;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Creates one menu item from navigation block attributes.
+ */
+function createNavigationMenuItem(
+  name: string,
+  attributes: NavigationBlockAttributes,
+  id: number,
+  parent: number,
+): WordPressMenuItem {
+  const isHomeLink = name.endsWith('home-link');
+  const url = attributes.url ?? (isHomeLink ? '/' : '');
+  const type = isHomeLink
+    ? 'custom'
+    : (NAVIGATION_KIND_TYPES[attributes.kind ?? 'custom'] ?? 'custom');
+
+  return {
+    id,
+    parent,
+    order: id,
+    title: attributes.label ?? (isHomeLink ? 'Home' : ''),
+    url,
+    path: isHomeLink ? '/' : getMenuItemPath(url, type),
+    ...(attributes.opensInNewTab ? { target: '_blank' } : {}),
+    ...(attributes.title ? { attrTitle: attributes.title } : {}),
+    classes: (attributes.className ?? '')
+      .split(/\s+/)
+      .filter((className) => className.length > 0),
+    type,
+    object: attributes.type ?? 'custom',
+    ...(attributes.id ? { objectId: attributes.id } : {}),
+    children: [],
+  };
+}
+
+/**
+ * Parses serialized navigation blocks into flat menu items. Submenu blocks
+ * become parents of the links nested inside them.
+ */
+export function parseNavigationBlocks(content: string): WordPressMenuItem[] {
+  const items: WordPressMenuItem[] = [];
+  const parents: number[] = [];
+
+  for (const match of content.matchAll(BLOCK_DELIMITER_PATTERN)) {
+    const [, closer, name, json, voidMarker] = match;
+
+    if (!NAVIGATION_ITEM_BLOCKS.has(name)) {
+      continue;
+    }
+
+    if (closer) {
+      parents.pop();
+      continue;
+    }
+
+    const item = createNavigationMenuItem(
+      name,
+      parseBlockAttributes(json),
+      items.length + 1,
+      parents[parents.length - 1] ?? 0,
+    );
+
+    items.push(item);
+
+    if (!voidMarker) {
+      parents.push(item.id);
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Loads block-based `wp_navigation` menus. Reading raw block markup requires
+ * `context=edit`, so the client must be authenticated.
+ */
+async function loadNavigationMenus(
+  client: WordPressClient,
+  filter?: MenuFilter,
+): Promise<WordPressMenu[]> {
+  const navigations = (await client.content('navigation').listAll({
+    context: 'edit',
+  } as never)) as unknown as RawNavigation[];
+
+  return navigations
+    .map((navigation) => ({
+      id: navigation.id,
+      slug: navigation.slug,
+      name: navigation.title?.raw ?? navigation.title?.rendered ?? '',
+      source: 'navigation' as const,
+      locations: [],
+      items: buildMenuItemTree(
+        parseNavigationBlocks(navigation.content?.raw ?? ''),
+      ),
+      ...(navigation.modified_gmt
+        ? { modified_gmt: navigation.modified_gmt }
+        : {}),
+    }))
+    .filter((menu) => matchesMenuFilter(menu, filter));
+}
+
+/**
+ * Loads menus with nested item trees from one menu source.
+ */
+export function loadWordPressMenus(
+  client: WordPressClient,
+  source: WordPressMenuSource,
+  filter?: MenuFilter,
+): Promise<WordPressMenu[]> {
+  return source === 'navigation'
+    ? loadNavigationMenus(client, filter)
+    : loadClassicMenus(client, filter);
+}
@@ -0,0 +1,197 @@
+import type {
+  WordPressPagination,
+  WordPressPaginationLinkOptions,
+  WordPressPaginationLinks,
+} from './types';
+
+/**
+ * WordPress' default `per_page` when a collection request does not set one.
+ */
+export const DEFAULT_PER_PAGE = 10;
+
+/**
+ * Paging metadata recorded per `getLiveCollection()` filter object. Astro only
+ * forwards `entries` and `cacheHint`, so routes read the metadata back through
+ * the same filter object they passed in.
+ */
+const paginationByFilter = new WeakMap<object, WordPressPagination>();
+
+/**
+ * Paged list result from fluent-wp-client's `listPaginated()`, which reads the
+ * `X-WP-Total` / `X-WP-TotalPages` headers of one collection request.
+ */
+type PaginatedListResult<TEntry> = {
+  data: TEntry[];
+  total: number;
+  totalPages: number;
+  page?: number;
+  perPage?: number;
+};
+
+/**
+ * Page and size requested by one collection filter.
+ */
+type PageQuery = {
+  page?: number;
+  perPage?: number;
+};
+
+/**
+ * Reads paging metadata from one collection response. Falls back to the
+ * loaded entry count when the headers are missing (e.g. behind proxies that
+ * strip them).
+ */
+export function readPagination(
+  response: Pick<Response, 'headers'> | undefined,
+  page: number,
+  perPage: number,
+  entryCount: number,
+): WordPressPagination {
+  const total = Number.parseInt(response?.headers.get('X-WP-Total') ?? '', 10);
+  const totalPages = Number.parseInt(
+    response?.headers.get('X-WP-TotalPages') ?? '',
+    10,
+  );
+
+  return {
+    page,
+    perPage,
+    total: Number.isNaN(total) ? (page - 1) * perPage + entryCount : total,
+    totalPages: Number.isNaN(totalPages) ? page : totalPages,
+  };
+}
+
+/**
+ * Metadata for collections that are always loaded in full (menus, settings,
+ * unfiltered media).
+ */
+export function createSinglePagePagination(
+  entryCount: number,
+): WordPressPagination {
+  return {
+    page: 1,
+    perPage: entryCount,
+    total: entryCount,
+    totalPages: 1,
+  };
+}
+
+/**
+ * Awaits one `listPaginated()` request and returns its entries with the
+ * resolved paging metadata. The filter's `page`/`perPage` fill in values the
+ * result does not echo back.
+ */
+export async function loadCollectionPage<TEntry>(
+  request: Promise<PaginatedListResult<TEntry>>,
+  filter: object | undefined,
+): Promise<{ entries: TEntry[]; pagination: WordPressPagination }> {
+  const result = await request;
+  const query = filter as PageQuery | undefined;
+
+  return {
+    entries: result.data,
+    pagination: {
+      page: result.page ?? query?.page ?? 1,
+      perPage: result.perPage ?? query?.perPage ?? DEFAULT_PER_PAGE,
+      total: result.total,
+      totalPages: result.totalPages,
+    },
+  };
+}
+
+/**
+ * Stores paging metadata for one live loader filter object.
+ */
+export function recordPagination(
+  filter: unknown,
+  pagination: WordPressPagination,
+): void {
+  if (typeof filter === 'object' && filter !== null) {
+    paginationByFilter.set(filter, pagination);
+  }
+}
+
+/**
+ * Returns the paging metadata of the last live collection loaded with this
+ * exact filter object.
+ *
+ * ```ts
+ * const filter = { page: 2, perPage: 20 };
+ * const { entries } = await getLiveCollection('posts', filter);
+ * const pagination = getWordPressPagination(filter);
+ * ```
+ */
+export function getWordPressPagination(
+  filter: object,
+): WordPressPagination | undefined {
+  return paginationByFilter.get(filter);
+}
+
+/**
+ * Builds the href of one page from the link options.
+ */
+function createPageHref(
+  page: number,
+  options: WordPressPaginationLinkOptions,
+): string {
+  if (typeof options.href === 'function') {
+    return options.href(page);
+  }
+
+  const url = new URL(String(options.href), 'http://localhost');
+  const param = options.param ?? 'page';
+
+  if (page > 1) {
+    url.searchParams.set(param, String(page));
+  } else {
+    url.searchParams.delete(param);
+  }
+
+  // Relative route strings stay relative; absolute URLs keep their origin.
+  return options.href instanceof URL || /^[a-z][a-z\d+.-]*:/i.test(options.href)
+    ? url.toString()
+    : `${url.pathname}${url.search}${url.hash}`;
+}
+
+/**
+ * Turns paging metadata into prev/next and numbered links for Astro routes.
+ *
+ * ```astro
+ * ---
+ * const links = createPaginationLinks(pagination, { href: Astro.url, window: 2 });
+ * ---
+ * {links.prev && <a href={links.prev}>Previous</a>}
+ * {links.pages.map((link) => <a href={link.href} aria-current={link.current ? 'page' : undefined}>{link.page}</a>)}
+ * {links.next && <a href={links.next}>Next</a>}
+ * ```
+ */
+export function createPaginationLinks(
+  pagination: WordPressPagination,
+  options: WordPressPaginationLinkOptions,
+): WordPressPaginationLinks {
+  const { page, totalPages } = pagination;
+  const span = options.window ?? totalPages;
+  const pages: WordPressPaginationLinks['pages'] = [];
+
+  for (let number = 1; number <= totalPages; number += 1) {
+    const visible =
+      number === 1 || number === totalPages || Math.abs(number - page) <= span;
+
+    if (!visible) {
+      continue;
+    }
+
+    pages.push({
+      page: number,
+      href: createPageHref(number, options),
+      current: number === page,
+      gap: pages.length > 0 && pages[pages.length - 1].page !== number - 1,
+    });
+  }
+
+  return {
+    ...(page > 1 ? { prev: createPageHref(page - 1, options) } : {}),
+    ...(page < totalPages ? { next: createPageHref(page + 1, options) } : {}),
+    pages,
+  };
+}
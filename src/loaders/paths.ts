@@ -0,0 +1,157 @@
+import type { WordPressClient } from 'fluent-wp-client';
+
+/**
+ * Minimal shape needed to build hierarchical paths from WordPress entries.
+ */
+export interface WordPressHierarchicalEntry {
+  id: number;
+  slug: string;
+  parent?: number;
+}
+
+/**
+ * Loads entries by ID so parent chains can be completed when ancestors are not
+ * part of the current result set.
+ */
+export type WordPressParentLoader = (
+  ids: number[],
+) => Promise<WordPressHierarchicalEntry[]>;
+
+/**
+ * Upper bound for parent chain walks. Guards against cycles and runaway
+ * ancestor loading when WordPress returns inconsistent parent IDs.
+ */
+const MAX_HIERARCHY_DEPTH = 32;
+
+/**
+ * Splits one URL-like path (`/company/team/berlin/`) into its slug segments.
+ */
+export function getEntryPathSegments(path: string): string[] {
+  return path.split('/').filter((segment) => segment.length > 0);
+}
+
+/**
+ * Builds the full slug path of every entry from its parent chain, loading
+ * missing ancestors level by level. Ancestors the client cannot read are
+ * skipped, so their descendants fall back to the readable part of the chain.
+ */
+export async function resolveEntryPaths(
+  entries: WordPressHierarchicalEntry[],
+  loadParents?: WordPressParentLoader,
+): Promise<Map<number, string>> {
+  const known = new Map(entries.map((entry) => [entry.id, entry]));
+  const requested = new Set<number>();
+
+  for (let depth = 0; loadParents && depth < MAX_HIERARCHY_DEPTH; depth++) {
+    const missing = [...known.values()]
+      .map((entry) => entry.parent ?? 0)
+      .filter((id) => id > 0 && !known.has(id) && !requested.has(id));
+
+    if (missing.length === 0) {
+      break;
+    }
+
+    const uniqueMissing = [...new Set(missing)];
+
+    for (const id of uniqueMissing) {
+      requested.add(id);
+    }
+
+    for (const parent of await loadParents(uniqueMissing)) {
+      known.set(parent.id, parent);
+    }
+  }
+
+  const paths = new Map<number, string>();
+  const buildPath = (entry: WordPressHierarchicalEntry): string => {
+    const segments = [entry.slug];
+    const visited = new Set([entry.id]);
+    let parent = known.get(entry.parent ?? 0);
+
+    while (parent && !visited.has(parent.id)) {
+      visited.add(parent.id);
+      segments.unshift(parent.slug);
+      parent = known.get(parent.parent ?? 0);
+    }
+
+    return segments.join('/');
+  };
+
+  for (const entry of entries) {
+    paths.set(entry.id, buildPath(entry));
+  }
+
+  return paths;
+}
+
+/**
+ * Adds the computed hierarchical `path` field to every entry.
+ */
+export async function withEntryPaths<TEntry extends object>(
+  entries: TEntry[],
+  loadParents?: WordPressParentLoader,
+): Promise<Array<TEntry & { path: string }>> {
+  const paths = await resolveEntryPaths(
+    entries as unknown as WordPressHierarchicalEntry[],
+    loadParents,
+  );
+
+  return entries.map((entry) => ({
+    ...entry,
+    path: paths.get((entry as unknown as WordPressHierarchicalEntry).id) ?? '',
+  }));
+}
+
+/**
+ * Picks the entry whose parent chain matches every segment of one path.
+ * `candidates` must contain the entries for all path segments (for example
+ * one listing filtered by the segment slugs).
+ */
+export function findEntryByPath<TEntry extends object>(
+  path: string,
+  candidates: TEntry[],
+): TEntry | undefined {
+  const segments = getEntryPathSegments(path);
+  const entries = candidates as unknown as WordPressHierarchicalEntry[];
+  const byId = new Map(entries.map((entry) => [entry.id, entry]));
+  const leafSlug = segments[segments.length - 1];
+
+  if (!leafSlug) {
+    return undefined;
+  }
+
+  const match = entries.find((candidate) => {
+    if (candidate.slug !== leafSlug) {
+      return false;
+    }
+
+    let current: WordPressHierarchicalEntry | undefined = candidate;
+
+    for (let index = segments.length - 2; index >= 0; index--) {
+      current = byId.get(current.parent ?? 0);
+
+      if (!current || current.slug !== segments[index]) {
+        return false;
+      }
+    }
+
+    return !current.parent;
+  });
+
+  return match as unknown as TEntry | undefined;
+}
+
+/**
+ * Creates one parent loader that reads lean `id`/`slug`/`parent` payloads for
+ * one hierarchical content resource.
+ */
+export function createContentParentLoader(
+  client: WordPressClient,
+  resource: string,
+): WordPressParentLoader {
+  return (ids) =>
+    client.content(resource).listAll({
+      include: ids,
+      _fields: 'id,slug,parent',
+    } as never) as unknown as Promise<WordPressHierarchicalEntry[]>;
+}
@@ -0,0 +1,138 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { WordPressClient } from 'fluent-wp-client';
+import { getEntryPathSegments } from './paths';
+import type { WordPressPreviewScope } from './types';
+
+/**
+ * Autosave revision fields merged over the previewed entry.
+ */
+type RawAutosave = {
+  modified_gmt?: string;
+  title?: { rendered?: string; raw?: string };
+  content?: { rendered?: string; raw?: string };
+  excerpt?: { rendered?: string; raw?: string };
+};
+
+/**
+ * Entry fields used to match preview lookups and compare autosave dates.
+ */
+type PreviewableEntry = {
+  id: number;
+  slug?: string;
+  generated_slug?: string;
+  modified_gmt?: string;
+};
+
+/**
+ * Preview lookup fields accepted by post, page, and content live loaders.
+ */
+type PreviewLookup = {
+  id?: number;
+  slug?: unknown;
+  path?: string;
+};
+
+/**
+ * Request-scoped preview state populated by the preview middleware.
+ */
+const previewStorage = new AsyncLocalStorage<WordPressPreviewScope>();
+
+/**
+ * Runs one callback (usually middleware `next`) in draft preview mode for one
+ * entry.
+ */
+export function runWithWordPressPreview<T>(
+  scope: WordPressPreviewScope,
+  callback: () => T,
+): T {
+  return previewStorage.run(scope, callback);
+}
+
+/**
+ * Returns the preview state of the current request, if any.
+ */
+export function getWordPressPreview(): WordPressPreviewScope | undefined {
+  return previewStorage.getStore();
+}
+
+/**
+ * Returns the newest autosave when it is more recent than the entry itself.
+ */
+async function loadNewerAutosave(
+  client: WordPressClient,
+  resource: string,
+  entry: PreviewableEntry,
+): Promise<RawAutosave | undefined> {
+  const { data: autosaves } = await client.request<RawAutosave[]>({
+    endpoint: `/wp-json/wp/v2/${resource}/${entry.id}/autosaves`,
+    method: 'GET',
+  });
+  const [latest] = [...autosaves].sort((a, b) =>
+    (b.modified_gmt ?? '').localeCompare(a.modified_gmt ?? ''),
+  );
+
+  return latest && (latest.modified_gmt ?? '') >= (entry.modified_gmt ?? '')
+    ? latest
+    : undefined;
+}
+
+/**
+ * Checks whether one loader lookup targets the previewed entry. Drafts have
+ * no `slug` yet, so `generated_slug` also matches slug and path lookups.
+ */
+function matchesPreviewLookup(
+  entry: PreviewableEntry,
+  filter: PreviewLookup | undefined,
+): boolean {
+  const slugs = [entry.slug, entry.generated_slug].filter(Boolean);
+
+  if (filter?.id !== undefined) {
+    return filter.id === entry.id;
+  }
+
+  if (filter?.path) {
+    return slugs.includes(getEntryPathSegments(filter.path).at(-1));
+  }
+
+  return typeof filter?.slug === 'string' && slugs.includes(filter.slug);
+}
+
+/**
+ * Loads the latest draft or autosave of the previewed entry when the current
+ * request is in preview mode for `resource` and the lookup targets that entry.
+ * Returns `undefined` so callers fall back to the published entry otherwise.
+ */
+export async function loadPreviewEntry<TEntry>(
+  resource: string,
+  filter: PreviewLookup | undefined,
+): Promise<TEntry | undefined> {
+  const preview = getWordPressPreview();
+
+  if (!preview || preview.resource !== resource) {
+    return undefined;
+  }
+
+  const entry = (await preview.client
+    .content(resource)
+    .item(preview.id, { context: 'edit' } as never)) as unknown as
+    | PreviewableEntry
+    | undefined;
+
+  if (!entry || !matchesPreviewLookup(entry, filter)) {
+    return undefined;
+  }
+
+  const autosave = await loadNewerAutosave(preview.client, resource, entry);
+
+  if (!autosave) {
+    return entry as TEntry;
+  }
+
+  return {
+    ...entry,
+    ...(autosave.title ? { title: autosave.title } : {}),
+    ...(autosave.content ? { content: autosave.content } : {}),
+    ...(autosave.excerpt ? { excerpt: autosave.excerpt } : {}),
+    modified_gmt: autosave.modified_gmt,
+  } as TEntry;
+}
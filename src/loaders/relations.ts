@@ -0,0 +1,53 @@
+import type {
+  WordPressCollectionReference,
+  WordPressRelationMap,
+} from './types';
+
+/**
+ * Converts one WordPress relation ID into an Astro reference value.
+ * WordPress uses `0` for "no relation" (e.g. posts without featured media).
+ */
+function toCollectionReference(
+  value: unknown,
+  collection: string,
+): WordPressCollectionReference | undefined {
+  if (typeof value !== 'number' && typeof value !== 'string') {
+    return undefined;
+  }
+
+  if (value === 0 || value === '' || value === '0') {
+    return undefined;
+  }
+
+  return { collection, id: String(value) };
+}
+
+/**
+ * Rewrites the configured relation ID fields of one entry into Astro
+ * `reference()`-compatible `{ collection, id }` values. Array fields such as
+ * `categories` become reference arrays; missing fields are left untouched.
+ */
+export function resolveEntryRelations<TEntry extends object>(
+  entry: TEntry,
+  relations: WordPressRelationMap | undefined,
+): TEntry {
+  if (!relations) {
+    return entry;
+  }
+
+  const resolved = { ...entry } as Record<string, unknown>;
+
+  for (const [field, collection] of Object.entries(relations)) {
+    if (!(field in resolved)) {
+      continue;
+    }
+
+    const value = resolved[field];
+
+    resolved[field] = Array.isArray(value)
+      ? value.flatMap((item) => toCollectionReference(item, collection) ?? [])
+      : toCollectionReference(value, collection);
+  }
+
+  return resolved as TEntry;
+}
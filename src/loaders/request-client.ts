@@ -0,0 +1,76 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { WordPressClient } from 'fluent-wp-client';
+import type {
+  ResolvableWordPressClient,
+  WordPressClientResolver,
+  WordPressRequestClient,
+} from './types';
+
+/**
+ * Request-scoped client storage populated by middleware through
+ * `runWithWordPressClient()`.
+ */
+const requestClientStorage = new AsyncLocalStorage<WordPressRequestClient>();
+
+/**
+ * Runs one callback (usually middleware `next`) with a request-scoped client
+ * that live loaders created with `createRequestClientResolver()` pick up.
+ * Clients are treated as authenticated unless stated otherwise.
+ *
+ * ```ts
+ * export const onRequest = defineMiddleware(async (context, next) => {
+ *   const wp = await bridge.getClient(context);
+ *   return wp ? runWithWordPressClient(wp, next) : next();
+ * });
+ * ```
+ */
+export function runWithWordPressClient<T>(
+  client: WordPressClient,
+  callback: () => T,
+  options: { authenticated?: boolean } = {},
+): T {
+  return requestClientStorage.run(
+    { client, authenticated: options.authenticated ?? true },
+    callback,
+  );
+}
+
+/**
+ * Returns the client stored for the current request, if any.
+ */
+export function getRequestWordPressClient():
+  | WordPressRequestClient
+  | undefined {
+  return requestClientStorage.getStore();
+}
+
+/**
+ * Creates a live loader client resolver that uses the current request's
+ * client and falls back to one public client outside authenticated requests.
+ *
+ * ```ts
+ * const posts = defineLiveCollection({
+ *   loader: wordPressPostLoader(createRequestClientResolver(publicClient)),
+ * });
+ * ```
+ */
+export function createRequestClientResolver(
+  fallback: WordPressClient,
+): WordPressClientResolver {
+  return () =>
+    getRequestWordPressClient() ?? { client: fallback, authenticated: false };
+}
+
+/**
+ * Resolves the client used by one live loader call. Fixed clients are shared
+ * across requests and therefore never count as request-authenticated.
+ */
+export async function resolveLiveClient(
+  client: ResolvableWordPressClient,
+): Promise<WordPressRequestClient> {
+  if (typeof client === 'function') {
+    return client();
+  }
+
+  return { client, authenticated: false };
+}
@@ -0,0 +1,262 @@
+import {
+  isTransientReadError,
+  toWordPressReadError,
+  WordPressUpstreamError,
+} from './errors';
+import type {
+  WordPressCircuitBreakerOptions,
+  WordPressLiveFallbackOptions,
+  WordPressResilienceOptions,
+  WordPressStaleResult,
+} from './types';
+
+const DEFAULT_RETRY_DELAY_MS = 200;
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_RESET_TIMEOUT_MS = 30_000;
+const DEFAULT_FALLBACK_MAX_AGE_SECONDS = 60 * 60 * 24;
+const DEFAULT_FALLBACK_MAX_ENTRIES = 200;
+
+/**
+ * Runs one read with the configured timeout, retries, and circuit breaker.
+ * Failures reject with a `WordPressLoaderError` describing the filter.
+ */
+export type ResilientReader = <TValue>(
+  load: () => Promise<TValue>,
+  filter: unknown,
+) => Promise<TValue>;
+
+/**
+ * Last successful results of one loader, keyed like the live cache.
+ */
+export type LastKnownGoodStore = {
+  get: <TValue>(key: string) => { value: TValue; loadedAt: Date } | undefined;
+  set: (key: string, value: unknown) => void;
+};
+
+/**
+ * Fallback markers recorded per `getLiveCollection()` / `getLiveEntry()`
+ * filter object, read back through `getWordPressStaleResult()`.
+ */
+const staleResultsByFilter = new WeakMap<object, WordPressStaleResult>();
+
+/**
+ * Waits for one backoff delay.
+ */
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Rejects when one read takes longer than `timeout` milliseconds.
+ */
+async function withTimeout<TValue>(
+  load: () => Promise<TValue>,
+  timeout: number | undefined,
+  createError: () => Error,
+): Promise<TValue> {
+  if (!timeout) {
+    return load();
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    return await Promise.race([
+      load(),
+      new Promise<never>((_resolve, reject) => {
+        timer = setTimeout(() => {
+          reject(createError());
+        }, timeout);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Resolves `true` or partial circuit breaker settings into full settings.
+ */
+function resolveCircuitBreaker(
+  option: boolean | WordPressCircuitBreakerOptions | undefined,
+): Required<WordPressCircuitBreakerOptions> | undefined {
+  if (!option) {
+    return undefined;
+  }
+
+  const settings = option === true ? {} : option;
+
+  return {
+    failureThreshold: settings.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD,
+    resetTimeout: settings.resetTimeout ?? DEFAULT_RESET_TIMEOUT_MS,
+  };
+}
+
+/**
+ * Creates the read wrapper of one loader instance. Failed reads are retried
+ * with exponential backoff; after `failureThreshold` consecutive failures the
+ * circuit opens and reads fail immediately until `resetTimeout` passed, then
+ * one trial read decides whether it closes again.
+ */
+export function createResilientReader(
+  resource: string,
+  options: WordPressResilienceOptions | undefined,
+): ResilientReader {
+  const retries = options?.retries ?? 0;
+  const retryDelay = options?.retryDelay ?? DEFAULT_RETRY_DELAY_MS;
+  const breaker = resolveCircuitBreaker(options?.circuitBreaker);
+  let failures = 0;
+  let openUntil = 0;
+  let trialPending = false;
+
+  /**
+   * Runs one read with timeout and retries, outside the circuit breaker.
+   */
+  async function attempt<TValue>(
+    load: () => Promise<TValue>,
+    filter: unknown,
+  ): Promise<TValue> {
+    for (let retry = 0; ; retry += 1) {
+      try {
+        return await withTimeout(
+          load,
+          options?.timeout,
+          () =>
+            new WordPressUpstreamError(
+              `WordPress read timed out after ${options?.timeout}ms`,
+              { resource, filter, status: 504 },
+            ),
+        );
+      } catch (caught) {
+        const error = toWordPressReadError(caught, { resource, filter });
+
+        if (retry >= retries || !isTransientReadError(error)) {
+          throw error;
+        }
+
+        await wait(retryDelay * 2 ** retry);
+      }
+    }
+  }
+
+  return async (load, filter) => {
+    if (!breaker) {
+      return attempt(load, filter);
+    }
+
+    const halfOpen = openUntil > 0 && openUntil <= Date.now();
+
+    if ((openUntil > 0 && !halfOpen) || (halfOpen && trialPending)) {
+      throw new WordPressUpstreamError(
+        'WordPress circuit is open; skipping read',
+        { resource, filter },
+      );
+    }
+
+    trialPending = halfOpen;
+
+    try {
+      const value = await attempt(load, filter);
+
+      failures = 0;
+      openUntil = 0;
+
+      return value;
+    } catch (error) {
+      if (isTransientReadError(error)) {
+        failures += 1;
+
+        if (halfOpen || failures >= breaker.failureThreshold) {
+          openUntil = Date.now() + breaker.resetTimeout;
+        }
+      }
+
+      throw error;
+    } finally {
+      if (halfOpen) {
+        trialPending = false;
+      }
+    }
+  };
+}
+
+/**
+ * Creates the last-known-good store of one loader instance, or `undefined`
+ * when the fallback is disabled. Entries are kept in least-recently-used
+ * order and dropped after `maxAge`.
+ */
+export function createLastKnownGoodStore(
+  option: boolean | WordPressLiveFallbackOptions | undefined,
+): LastKnownGoodStore | undefined {
+  if (!option) {
+    return undefined;
+  }
+
+  const settings = option === true ? {} : option;
+  const maxAge = (settings.maxAge ?? DEFAULT_FALLBACK_MAX_AGE_SECONDS) * 1000;
+  const maxEntries = settings.maxEntries ?? DEFAULT_FALLBACK_MAX_ENTRIES;
+  const results = new Map<string, { value: unknown; loadedAt: Date }>();
+
+  return {
+    get: <TValue>(key: string) => {
+      const result = results.get(key);
+
+      if (!result) {
+        return undefined;
+      }
+
+      if (result.loadedAt.getTime() + maxAge <= Date.now()) {
+        results.delete(key);
+        return undefined;
+      }
+
+      return result as { value: TValue; loadedAt: Date };
+    },
+    set: (key, value) => {
+      results.delete(key);
+      results.set(key, { value, loadedAt: new Date() });
+
+      for (const oldest of results.keys()) {
+        if (results.size <= maxEntries) {
+          break;
+        }
+
+        results.delete(oldest);
+      }
+    },
+  };
+}
+
+/**
+ * Stores or clears the fallback marker of one live loader filter object.
+ */
+export function recordStaleResult(
+  filter: unknown,
+  stale: WordPressStaleResult | undefined,
+): void {
+  if (typeof filter !== 'object' || filter === null) {
+    return;
+  }
+
+  if (stale) {
+    staleResultsByFilter.set(filter, stale);
+  } else {
+    staleResultsByFilter.delete(filter);
+  }
+}
+
+/**
+ * Returns the fallback marker when the last live read with this exact filter
+ * object failed and served the last-known-good result instead.
+ *
+ * ```ts
+ * const filter = { slug: 'about' };
+ * const { entry } = await getLiveEntry('pages', filter);
+ * const stale = getWordPressStaleResult(filter);
+ * ```
+ */
+export function getWordPressStaleResult(
+  filter: object,
+): WordPressStaleResult | undefined {
+  return staleResultsByFilter.get(filter);
+}
@@ -0,0 +1,171 @@
+import type { WordPressClient } from 'fluent-wp-client';
+import { DEFAULT_PER_PAGE, readPagination } from './pagination';
+import type {
+  SearchFilter,
+  WordPressPagination,
+  WordPressSearchResult,
+  WordPressSearchType,
+} from './types';
+
+/**
+ * Raw `wp/v2/search` result payload.
+ */
+type RawSearchResult = {
+  id: number;
+  title?: string;
+  url?: string;
+  type: WordPressSearchType;
+  subtype: string;
+  _links?: {
+    self?: Array<{ href?: string }>;
+  };
+};
+
+/**
+ * Extracts the REST base from one `wp/v2` item link (`.../wp/v2/books/12`).
+ */
+const REST_ITEM_ROUTE_PATTERN = /\/wp\/v2\/([^/?#]+)\/\d+/;
+
+/**
+ * REST bases of the built-in subtypes whose slug differs from the route.
+ */
+const BUILT_IN_RESOURCES: Record<string, string> = {
+  post: 'posts',
+  page: 'pages',
+  attachment: 'media',
+  category: 'categories',
+  post_tag: 'tags',
+};
+
+/**
+ * Resolves the REST base of one search result from its `self` link, falling
+ * back to the built-in subtype mapping.
+ */
+function getSearchResultResource(result: RawSearchResult): string {
+  const href = result._links?.self?.[0]?.href ?? '';
+  const match = REST_ITEM_ROUTE_PATTERN.exec(decodeURIComponent(href));
+
+  return match?.[1] ?? BUILT_IN_RESOURCES[result.subtype] ?? result.subtype;
+}
+
+/**
+ * Normalizes one raw search result.
+ */
+function createSearchResult(raw: RawSearchResult): WordPressSearchResult {
+  return {
+    id: raw.id,
+    title: raw.title ?? '',
+    url: raw.url ?? '',
+    type: raw.type,
+    subtype: raw.subtype,
+    resource: getSearchResultResource(raw),
+  };
+}
+
+/**
+ * Builds the `wp/v2/search` query string from one loader filter.
+ */
+function createSearchQuery(
+  filter: SearchFilter | undefined,
+  page: number,
+  perPage: number,
+): string {
+  const query = new URLSearchParams({
+    page: String(page),
+    per_page: String(perPage),
+  });
+
+  if (filter?.search) {
+    query.set('search', filter.search);
+  }
+
+  if (filter?.type) {
+    query.set('type', filter.type);
+  }
+
+  if (filter?.subtype) {
+    query.set('subtype', [filter.subtype].flat().join(','));
+  }
+
+  if (filter?.include?.length) {
+    query.set('include', filter.include.join(','));
+  }
+
+  if (filter?.exclude?.length) {
+    query.set('exclude', filter.exclude.join(','));
+  }
+
+  return query.toString();
+}
+
+/**
+ * Runs one `wp/v2/search` request and returns the results with paging metadata.
+ */
+export async function searchWordPress(
+  client: WordPressClient,
+  filter: SearchFilter | undefined,
+): Promise<{
+  entries: WordPressSearchResult[];
+  pagination: WordPressPagination;
+}> {
+  const page = filter?.page ?? 1;
+  const perPage = filter?.perPage ?? DEFAULT_PER_PAGE;
+  const { data, response } = await client.request<RawSearchResult[]>({
+    endpoint: `/wp-json/wp/v2/search?${createSearchQuery(filter, page, perPage)}`,
+    method: 'GET',
+  });
+  const entries = data.map(createSearchResult);
+
+  return {
+    entries,
+    pagination: readPagination(response, page, perPage, entries.length),
+  };
+}
+
+/**
+ * Loads the full entry behind every search result with one request per
+ * resource. Post formats have no item endpoint and stay unhydrated.
+ */
+export async function hydrateSearchResults(
+  client: WordPressClient,
+  results: WordPressSearchResult[],
+): Promise<WordPressSearchResult[]> {
+  const groups = new Map<string, WordPressSearchResult[]>();
+
+  for (const result of results) {
+    if (result.type === 'post-format') {
+      continue;
+    }
+
+    const key = `${result.type}:${result.resource}`;
+    groups.set(key, [...(groups.get(key) ?? []), result]);
+  }
+
+  const loaded = await Promise.all(
+    [...groups.values()].map(async (group) => {
+      const { type, resource } = group[0];
+      const query = {
+        include: group.map((result) => result.id),
+        perPage: group.length,
+      } as never;
+      const entries = (await (type === 'term'
+        ? client.terms(resource).list(query)
+        : client.content(resource).list(query))) as unknown as Array<{
+        id: number;
+      }>;
+
+      return entries.map((entry) => [`${type}:${resource}:${entry.id}`, entry]);
+    }),
+  );
+  const entriesByKey = new Map<string, unknown>(
+    loaded.flat() as Array<[string, unknown]>,
+  );
+
+  return results.map((result) => {
+    const entry = entriesByKey.get(
+      `${result.type}:${result.resource}:${result.id}`,
+    );
+
+    return entry ? { ...result, entry } : result;
+  });
+}
@@ -0,0 +1,129 @@
+import { type WordPressClient, WordPressHttpError } from 'fluent-wp-client';
+import type { WordPressSiteSettings } from './types';
+
+/**
+ * Public site fields requested from the REST root index. Limiting the fields
+ * keeps the large `routes` map out of the response.
+ */
+const SITE_INDEX_FIELDS = [
+  'name',
+  'description',
+  'url',
+  'home',
+  'gmt_offset',
+  'timezone_string',
+  'site_logo',
+  'site_icon',
+  'site_icon_url',
+].join(',');
+
+/**
+ * Public site fields exposed by the REST root index (`/wp-json/`).
+ */
+type RawSiteIndex = {
+  name?: string;
+  description?: string;
+  url?: string;
+  home?: string;
+  gmt_offset?: number | string;
+  timezone_string?: string;
+  site_logo?: number;
+  site_icon?: number;
+  site_icon_url?: string;
+};
+
+/**
+ * Authenticated `wp/v2/settings` payload.
+ */
+type RawSiteSettings = {
+  title?: string;
+  description?: string;
+  url?: string;
+  timezone?: string;
+  date_format?: string;
+  time_format?: string;
+  start_of_week?: number;
+  language?: string;
+  show_on_front?: 'posts' | 'page';
+  page_on_front?: number;
+  page_for_posts?: number;
+  posts_per_page?: number;
+  site_logo?: number | null;
+  site_icon?: number;
+};
+
+/**
+ * Returns one attachment ID, treating WordPress' `0`/`null` as "not set".
+ */
+function toAttachmentId(value: number | null | undefined): number | undefined {
+  return typeof value === 'number' && value > 0 ? value : undefined;
+}
+
+/**
+ * Reads `wp/v2/settings`. Public or under-privileged clients get a 401/403,
+ * in which case only the public index data is used. Every other failure is
+ * rethrown so it surfaces as a typed loader error.
+ */
+async function loadAuthenticatedSettings(
+  client: WordPressClient,
+): Promise<RawSiteSettings | undefined> {
+  try {
+    const { data } = await client.request<RawSiteSettings>({
+      endpoint: '/wp-json/wp/v2/settings',
+      method: 'GET',
+    });
+
+    return data;
+  } catch (error) {
+    if (
+      error instanceof WordPressHttpError &&
+      (error.status === 401 || error.status === 403)
+    ) {
+      return undefined;
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Loads site settings by merging the public REST index with authenticated
+ * `wp/v2/settings` values when the client has credentials for them.
+ */
+export async function loadWordPressSettings(
+  client: WordPressClient,
+): Promise<WordPressSiteSettings> {
+  const [{ data: index }, settings] = await Promise.all([
+    client.request<RawSiteIndex>({
+      endpoint: `/wp-json/?_fields=${SITE_INDEX_FIELDS}`,
+      method: 'GET',
+    }),
+    loadAuthenticatedSettings(client),
+  ]);
+
+  return {
+    id: 'site',
+    title: settings?.title ?? index.name ?? '',
+    description: settings?.description ?? index.description ?? '',
+    url: index.url ?? settings?.url ?? '',
+    home: index.home ?? index.url ?? '',
+    timezone: settings?.timezone || index.timezone_string || '',
+    gmt_offset: Number(index.gmt_offset ?? 0),
+    site_logo: toAttachmentId(settings?.site_logo ?? index.site_logo),
+    site_icon: toAttachmentId(settings?.site_icon ?? index.site_icon),
+    ...(index.site_icon_url ? { site_icon_url: index.site_icon_url } : {}),
+    ...(settings
+      ? {
+          date_format: settings.date_format,
+          time_format: settings.time_format,
+          start_of_week: settings.start_of_week,
+          language: settings.language,
+          show_on_front: settings.show_on_front,
+          page_on_front: settings.page_on_front,
+          page_for_posts: settings.page_for_posts,
+          posts_per_page: settings.posts_per_page,
+        }
+      : {}),
+    authenticated: Boolean(settings),
+  };
+}
@@ -1,4 +1,4 @@
-import type { Loader } from 'astro/loaders';
+import type { Loader, LoaderContext } from 'astro/loaders';
 import type {
   CategoriesFilter,
   MediaFilter as ClientMediaFilter,
@@ -16,18 +16,64 @@ import type {
   WordPressTag,
 } from 'fluent-wp-client';
 import { WordPressClient } from 'fluent-wp-client';
+import { getWordPressLastModified } from '../cache/hints';
+import { listComments } from './comments';
+import { normalizeEmbeddedEntry } from './embeds';
+import { createFieldsQuery } from './fields';
+import { loadWordPressMenus } from './menus';
+import { createContentParentLoader, withEntryPaths } from './paths';
+import { resolveEntryRelations } from './relations';
+import { loadWordPressSettings } from './settings';
 import type {
+  WordPressComment,
+  WordPressCommentStaticLoaderOptions,
   WordPressContentStaticLoaderOptions,
+  WordPressEmbedMode,
   WordPressEntryMappingOptions,
+  WordPressHierarchicalStaticLoaderOptions,
+  WordPressIncrementalStaticLoaderOptions,
+  WordPressMenu,
+  WordPressMenuStaticLoaderOptions,
+  WordPressPostLikeStaticLoaderOptions,
+  WordPressRelationMap,
+  WordPressSiteSettings,
   WordPressStaticLoaderOptions,
   WordPressTermStaticLoaderOptions,
 } from './types';
 
+/**
+ * Meta store key holding the newest `modified_gmt` seen by the last sync.
+ */
+const SYNC_CURSOR_META_KEY = 'wordpress-sync-cursor';
+
+/**
+ * WordPress compares `modified_after` against the site-local `post_modified`
+ * column, so the GMT cursor is rewound by one day to cover every timezone
+ * offset. Re-fetched entries that did not change are upserted idempotently.
+ */
+const SYNC_CURSOR_OVERLAP_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * IDs per `include` request when incremental syncs restore entries missing
+ * from the store, keeping request URLs short.
+ */
+const SYNC_INCLUDE_CHUNK_SIZE = 100;
+
 /**
  * Shared shape for static loader entries stored in Astro's content store.
  */
 type IdentifiableEntry = {
-  id: number;
+  id: number | string;
+};
+
+/**
+ * Timestamp fields exposed by post-like resources that support incremental syncs.
+ */
+type ModifiableEntry = IdentifiableEntry & {
+  modified_gmt?: unknown;
+  modified?: unknown;
+  date_gmt?: unknown;
+  date?: unknown;
 };
 
 /**
@@ -39,6 +85,23 @@ type RenderableEntry = IdentifiableEntry & {
   };
 };
 
+/**
+ * Reads used by incremental syncs: changed entries since one cursor, the
+ * current ID set used to detect deleted, unpublished, or missing entries,
+ * and a lookup for entries missing from the store.
+ */
+interface StaticLoaderIncrementalSource<TEntry extends IdentifiableEntry> {
+  loadChangedEntries: (
+    client: WordPressClient,
+    modifiedAfter: string,
+  ) => Promise<TEntry[]>;
+  loadEntryIds: (client: WordPressClient) => Promise<Array<TEntry['id']>>;
+  loadEntriesById: (
+    client: WordPressClient,
+    ids: Array<TEntry['id']>,
+  ) => Promise<TEntry[]>;
+}
+
 /**
  * Configuration for one reusable static loader factory.
  */
@@ -47,51 +110,196 @@ interface StaticLoaderDefinition<TEntry extends IdentifiableEntry> {
   logLabel: string;
   resource: string;
   loadEntries: (client: WordPressClient) => Promise<TEntry[]>;
+  incremental?: StaticLoaderIncrementalSource<TEntry>;
   mapEntry?: WordPressEntryMappingOptions<TEntry>['mapEntry'];
+  relations?: WordPressRelationMap;
+  getEntryKey?: (entry: TEntry) => string;
   renderHtml?: (entry: TEntry) => string | undefined;
 }
 
 /**
- * Builds one Astro store entry with optional rendered HTML.
+ * Builds one Astro store entry with optional rendered HTML and content digest.
  */
 function createStaticStoreEntry<TEntry extends IdentifiableEntry>(
+  id: string,
   entry: TEntry,
   renderHtml?: (entry: TEntry) => string | undefined,
+  digest?: string,
 ): {
   id: string;
   data: TEntry | Record<string, unknown>;
+  digest?: string;
   rendered?: { html: string };
 } {
   const html = renderHtml?.(entry);
 
   if (!html) {
     return {
-      id: String(entry.id),
+      id,
       data: entry as TEntry | Record<string, unknown>,
+      ...(digest ? { digest } : {}),
     };
   }
 
   return {
-    id: String(entry.id),
+    id,
     data: entry,
+    ...(digest ? { digest } : {}),
     rendered: { html },
   };
 }
 
 /**
- * Applies the optional site-specific mapper before storing entries in Astro's content store.
+ * Serializes one value with sorted object keys so equal payloads hash equally.
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    return `{${Object.keys(value)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`,
+      )
+      .join(',')}}`;
+  }
+
+  return JSON.stringify(value) ?? 'undefined';
+}
+
+/**
+ * Fallback digest (FNV-1a) used when the loader context does not provide
+ * `generateDigest`, for example when loaders run outside Astro's content layer.
+ */
+function createStableDigest(data: Record<string, unknown> | string): string {
+  const input = typeof data === 'string' ? data : stableStringify(data);
+  let hash = 0x811c9dc5;
+
+  for (let index = 0; index < input.length; index++) {
+    hash ^= input.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Applies the optional site-specific mapper and relation references before
+ * storing entries in Astro's content store.
  */
 async function mapStaticEntry<TEntry extends IdentifiableEntry>(
   entry: TEntry,
   definition: StaticLoaderDefinition<TEntry>,
 ): Promise<TEntry> {
-  return definition.mapEntry
-    ? definition.mapEntry(entry, { resource: definition.resource })
+  const mapped = definition.mapEntry
+    ? await definition.mapEntry(entry, { resource: definition.resource })
     : entry;
+
+  return resolveEntryRelations(mapped, definition.relations);
+}
+
+/**
+ * Resolves the Astro store key of one entry (numeric ID by default).
+ */
+function getStaticEntryKey<TEntry extends IdentifiableEntry>(
+  entry: TEntry,
+  definition: StaticLoaderDefinition<TEntry>,
+): string {
+  return definition.getEntryKey?.(entry) ?? String(entry.id);
+}
+
+/**
+ * Maps and writes entries whose raw WordPress payload digest differs from the
+ * stored digest. Unchanged entries skip both `mapEntry` and `store.set`, so
+ * Astro does not redo downstream render work for them.
+ */
+async function upsertStaticEntries<TEntry extends IdentifiableEntry>(
+  store: LoaderContext['store'],
+  entries: TEntry[],
+  definition: StaticLoaderDefinition<TEntry>,
+  generateDigest: LoaderContext['generateDigest'],
+): Promise<number> {
+  const results = await Promise.all(
+    entries.map(async (entry) => {
+      const key = getStaticEntryKey(entry, definition);
+      const digest = generateDigest(entry as Record<string, unknown>);
+
+      if (store.get(key)?.digest === digest) {
+        return false;
+      }
+
+      const mappedEntry = await mapStaticEntry(entry, definition);
+      store.set(
+        createStaticStoreEntry(key, mappedEntry, definition.renderHtml, digest),
+      );
+
+      return true;
+    }),
+  );
+
+  return results.filter(Boolean).length;
+}
+
+/**
+ * Removes stored entries whose keys are no longer returned by WordPress.
+ */
+function pruneStaticEntries(
+  store: LoaderContext['store'],
+  currentKeys: string[],
+): number {
+  const keep = new Set(currentKeys);
+  let removed = 0;
+
+  for (const key of store.keys()) {
+    if (!keep.has(key)) {
+      store.delete(key);
+      removed++;
+    }
+  }
+
+  return removed;
+}
+
+/**
+ * Computes the next sync cursor from the newest `modified_gmt` in one result set.
+ */
+function getNextSyncCursor(
+  entries: IdentifiableEntry[],
+  previousCursor?: string,
+): string | undefined {
+  let latest = previousCursor ? new Date(previousCursor) : undefined;
+
+  for (const entry of entries) {
+    const candidate = getWordPressLastModified(entry as ModifiableEntry);
+
+    if (candidate && (!latest || candidate > latest)) {
+      latest = candidate;
+    }
+  }
+
+  return latest?.toISOString();
+}
+
+/**
+ * Formats one stored cursor as the `modified_after` query value, including the
+ * timezone overlap window.
+ */
+function toModifiedAfterValue(cursor: string): string {
+  const rewound = new Date(new Date(cursor).getTime() - SYNC_CURSOR_OVERLAP_MS);
+
+  return rewound.toISOString().slice(0, 19);
 }
 
 /**
  * Creates one reusable static loader backed by `WordPressClient` methods.
+ *
+ * Every entry stores a digest of its raw WordPress payload so unchanged
+ * entries are skipped. Loaders with an incremental source also persist a sync
+ * cursor in Astro's meta store; later syncs fetch only entries modified since
+ * that cursor, upsert them, and remove entries missing from one ID-only listing.
  */
 function createStaticWordPressLoader<TEntry extends IdentifiableEntry>(
   client: WordPressClient,
@@ -99,22 +307,83 @@ function createStaticWordPressLoader<TEntry extends IdentifiableEntry>(
 ): Loader {
   return {
     name: definition.name,
-    load: async ({ store, logger }) => {
-      logger.info(`Loading all WordPress ${definition.logLabel}...`);
+    load: async ({ store, meta, logger, generateDigest }) => {
+      const digest = generateDigest ?? createStableDigest;
+      const cursor = definition.incremental
+        ? meta?.get(SYNC_CURSOR_META_KEY)
+        : undefined;
 
       try {
+        if (definition.incremental && cursor) {
+          logger.info(
+            `Syncing WordPress ${definition.logLabel} modified since ${cursor}...`,
+          );
+
+          const [entries, currentIds] = await Promise.all([
+            definition.incremental.loadChangedEntries(
+              client,
+              toModifiedAfterValue(cursor),
+            ),
+            definition.incremental.loadEntryIds(client),
+          ]);
+          const removed = pruneStaticEntries(store, currentIds.map(String));
+          // Entries can join the listing without a newer modification time,
+          // e.g. scheduled posts published by WordPress cron.
+          const loadedKeys = new Set([
+            ...store.keys(),
+            ...entries.map((entry) => String(entry.id)),
+          ]);
+          const missingIds = currentIds.filter(
+            (id) => !loadedKeys.has(String(id)),
+          );
+          const restored =
+            missingIds.length > 0
+              ? await definition.incremental.loadEntriesById(client, missingIds)
+              : [];
+          const written = await upsertStaticEntries(
+            store,
+            [...entries, ...restored],
+            definition,
+            digest,
+          );
+          const nextCursor = getNextSyncCursor(entries, cursor);
+
+          if (nextCursor) {
+            meta.set(SYNC_CURSOR_META_KEY, nextCursor);
+          }
+
+          logger.info(
+            `Synced ${written} changed, restored ${restored.length}, and removed ${removed} ${definition.logLabel}`,
+          );
+          return;
+        }
+
+        logger.info(`Loading all WordPress ${definition.logLabel}...`);
+
         const entries = await definition.loadEntries(client);
-        const mappedEntries = await Promise.all(
-          entries.map((entry) => mapStaticEntry(entry, definition)),
+
+        pruneStaticEntries(
+          store,
+          entries.map((entry) => getStaticEntryKey(entry, definition)),
         );
 
-        store.clear();
+        const written = await upsertStaticEntries(
+          store,
+          entries,
+          definition,
+          digest,
+        );
+        const nextCursor = definition.incremental
+          ? getNextSyncCursor(entries)
+          : undefined;
 
-        for (const entry of mappedEntries) {
-          store.set(createStaticStoreEntry(entry, definition.renderHtml));
+        if (nextCursor) {
+          meta?.set(SYNC_CURSOR_META_KEY, nextCursor);
         }
 
-        logger.info(`Loaded ${entries.length} ${definition.logLabel}`);
+        logger.info(
+          `Loaded ${entries.length} ${definition.logLabel} (${written} changed)`,
+        );
       } catch (error) {
         logger.error(`Failed to load ${definition.logLabel}: ${error}`);
         throw error;
@@ -123,6 +392,127 @@ function createStaticWordPressLoader<TEntry extends IdentifiableEntry>(
   };
 }
 
+/**
+ * Extra query params added by incremental syncs on top of the build-time filter.
+ */
+type StaticSyncQuery = {
+  modified_after?: string;
+  _fields?: string;
+  include?: Array<number | string>;
+};
+
+/**
+ * Builds the incremental source for one post-like resource. Returns undefined
+ * when the loader options opt out of incremental syncs.
+ */
+function createIncrementalSource<TEntry extends IdentifiableEntry>(
+  options: WordPressIncrementalStaticLoaderOptions | undefined,
+  listAll: (
+    client: WordPressClient,
+    query: StaticSyncQuery,
+  ) => Promise<TEntry[]>,
+): StaticLoaderIncrementalSource<TEntry> | undefined {
+  if (options?.incremental === false) {
+    return undefined;
+  }
+
+  return {
+    loadChangedEntries: (client, modifiedAfter) =>
+      listAll(client, { modified_after: modifiedAfter }),
+    loadEntryIds: async (client) => {
+      const entries = await listAll(client, { _fields: 'id' });
+
+      return entries.map((entry) => entry.id);
+    },
+    loadEntriesById: async (client, ids) => {
+      const chunks: Array<Array<TEntry['id']>> = [];
+
+      for (
+        let index = 0;
+        index < ids.length;
+        index += SYNC_INCLUDE_CHUNK_SIZE
+      ) {
+        chunks.push(ids.slice(index, index + SYNC_INCLUDE_CHUNK_SIZE));
+      }
+
+      const results = await Promise.all(
+        chunks.map((chunk) => listAll(client, { include: chunk })),
+      );
+
+      return results.flat();
+    },
+  };
+}
+
+/**
+ * Lists every entry of one post-like resource. When `embed` is configured the
+ * relations are requested and normalized into `featuredMedia`, `authorData`,
+ * and `terms`. `fields` holds the resolved `_fields` projection; ID-only
+ * listings (`query._fields`) override it and never request embeds.
+ */
+async function listContentEntries<TEntry extends IdentifiableEntry>(
+  client: WordPressClient,
+  resource: string,
+  filter: object | undefined,
+  query: StaticSyncQuery = {},
+  embed?: WordPressEmbedMode,
+  fields?: string,
+): Promise<TEntry[]> {
+  const shouldEmbed = Boolean(embed) && !query._fields;
+  const entries = await client.content<TEntry>(resource).listAll({
+    ...filter,
+    ...(fields ? { _fields: fields } : {}),
+    ...query,
+    ...(shouldEmbed ? { embed } : {}),
+  } as never);
+
+  return shouldEmbed
+    ? entries.map(
+        (entry: TEntry) => normalizeEmbeddedEntry(entry) as unknown as TEntry,
+      )
+    : entries;
+}
+
+/**
+ * Creates the listing wiring shared by page and custom content loaders. With
+ * `hierarchical` or `idFromPath`, entries carry a `path` field built from the
+ * parent chain. Descendant paths change when an ancestor is renamed or moved,
+ * so path-aware loaders always run full syncs and rely on content digests to
+ * skip unchanged writes.
+ */
+function createContentListing<TEntry extends IdentifiableEntry>(
+  resource: string,
+  options:
+    | (WordPressHierarchicalStaticLoaderOptions &
+        WordPressIncrementalStaticLoaderOptions)
+    | undefined,
+  listAll: (
+    client: WordPressClient,
+    query?: StaticSyncQuery,
+  ) => Promise<TEntry[]>,
+): Pick<
+  StaticLoaderDefinition<TEntry>,
+  'loadEntries' | 'incremental' | 'getEntryKey'
+> {
+  if (!options?.hierarchical && !options?.idFromPath) {
+    return {
+      loadEntries: (client) => listAll(client),
+      incremental: createIncrementalSource(options, listAll),
+    };
+  }
+
+  return {
+    loadEntries: async (client) =>
+      withEntryPaths(
+        await listAll(client),
+        createContentParentLoader(client, resource),
+      ),
+    getEntryKey: options.idFromPath
+      ? (entry) => (entry as { path?: string }).path || String(entry.id)
+      : undefined,
+  };
+}
+
 /**
  * Reads rendered HTML from one content entry.
  */
@@ -135,17 +525,33 @@ function renderContentHtml(entry: RenderableEntry): string | undefined {
  */
 export function wordPressPostStaticLoader(
   client: WordPressClient,
-  options?: WordPressStaticLoaderOptions<
+  options?: WordPressPostLikeStaticLoaderOptions<
     WordPressPost,
     ExtensibleFilter<PostsFilter>
   >,
 ): Loader {
+  const fields = createFieldsQuery(options?.fields, {
+    embed: options?.embed,
+    incremental: options?.incremental !== false,
+  });
+  const listPosts = (client: WordPressClient, query?: StaticSyncQuery) =>
+    listContentEntries<WordPressPost>(
+      client,
+      'posts',
+      options?.filter,
+      query,
+      options?.embed,
+      fields,
+    );
+
   return createStaticWordPressLoader<WordPressPost>(client, {
     name: 'wordpress-post-static-loader',
     logLabel: 'posts',
     resource: 'posts',
-    loadEntries: (client) => client.content('posts').listAll(options?.filter),
+    loadEntries: (client) => listPosts(client),
+    incremental: createIncrementalSource(options, listPosts),
     mapEntry: options?.mapEntry,
+    relations: options?.relations,
     renderHtml: renderContentHtml,
   });
 }
@@ -155,17 +561,34 @@ export function wordPressPostStaticLoader(
  */
 export function wordPressPageStaticLoader(
   client: WordPressClient,
-  options?: WordPressStaticLoaderOptions<
+  options?: WordPressPostLikeStaticLoaderOptions<
     WordPressPage,
     ExtensibleFilter<PagesFilter>
-  >,
+  > &
+    WordPressHierarchicalStaticLoaderOptions,
 ): Loader {
+  const fields = createFieldsQuery(options?.fields, {
+    embed: options?.embed,
+    paths: Boolean(options?.hierarchical || options?.idFromPath),
+    incremental: options?.incremental !== false,
+  });
+  const listPages = (client: WordPressClient, query?: StaticSyncQuery) =>
+    listContentEntries<WordPressPage>(
+      client,
+      'pages',
+      options?.filter,
+      query,
+      options?.embed,
+      fields,
+    );
+
   return createStaticWordPressLoader<WordPressPage>(client, {
     name: 'wordpress-page-static-loader',
     logLabel: 'pages',
     resource: 'pages',
-    loadEntries: (client) => client.content('pages').listAll(options?.filter),
+    ...createContentListing('pages', options, listPages),
     mapEntry: options?.mapEntry,
+    relations: options?.relations,
     renderHtml: renderContentHtml,
   });
 }
@@ -178,13 +601,17 @@ export function wordPressMediaStaticLoader(
   options?: WordPressStaticLoaderOptions<
     WordPressMedia,
     ExtensibleFilter<ClientMediaFilter>
-  >,
+  > &
+    WordPressIncrementalStaticLoaderOptions,
 ): Loader {
   return createStaticWordPressLoader<WordPressMedia>(client, {
     name: 'wordpress-media-static-loader',
     logLabel: 'media items',
     resource: 'media',
     loadEntries: (client) => client.media().listAll(options?.filter),
+    incremental: createIncrementalSource(options, (client, query) =>
+      client.media().listAll({ ...options?.filter, ...query }),
+    ),
     mapEntry: options?.mapEntry,
   });
 }
@@ -265,6 +692,66 @@ export function wordPressUserStaticLoader(
   });
 }
 
+/**
+ * Creates a static loader for WordPress comments. `threaded` stores top-level
+ * comments with their replies nested instead of one entry per comment.
+ */
+export function wordPressCommentStaticLoader(
+  client: WordPressClient,
+  options?: WordPressCommentStaticLoaderOptions,
+): Loader {
+  return createStaticWordPressLoader<WordPressComment>(client, {
+    name: 'wordpress-comment-static-loader',
+    logLabel: 'comments',
+    resource: 'comments',
+    loadEntries: (client) =>
+      listComments(client, options?.filter, {
+        all: true,
+        threaded: options?.threaded,
+      }),
+    mapEntry: options?.mapEntry,
+    renderHtml: (entry) => entry.content.rendered,
+  });
+}
+
+/**
+ * Creates a static loader for navigation menus with nested item trees.
+ * Menus are small, so every sync reloads them and relies on digests to skip
+ * unchanged writes.
+ */
+export function wordPressMenuStaticLoader(
+  client: WordPressClient,
+  options?: WordPressMenuStaticLoaderOptions,
+): Loader {
+  const source = options?.source ?? 'menus';
+
+  return createStaticWordPressLoader<WordPressMenu>(client, {
+    name: 'wordpress-menu-static-loader',
+    logLabel: 'menus',
+    resource: source,
+    loadEntries: (client) =>
+      loadWordPressMenus(client, source, options?.filter),
+    mapEntry: options?.mapEntry,
+  });
+}
+
+/**
+ * Creates a singleton static loader for site settings stored as one `site`
+ * entry. Authenticated clients also receive `wp/v2/settings` values.
+ */
+export function wordPressSettingsStaticLoader(
+  client: WordPressClient,
+  options?: WordPressEntryMappingOptions<WordPressSiteSettings>,
+): Loader {
+  return createStaticWordPressLoader<WordPressSiteSettings>(client, {
+    name: 'wordpress-settings-static-loader',
+    logLabel: 'settings',
+    resource: 'settings',
+    loadEntries: async (client) => [await loadWordPressSettings(client)],
+    mapEntry: options?.mapEntry,
+  });
+}
+
 /**
  * Creates a static loader for custom WordPress content resources (CPTs).
  * Aligns with fluent-wp-client's content(resource) naming.
@@ -275,15 +762,29 @@ export function wordPressContentStaticLoader<
   client: WordPressClient,
   options: WordPressContentStaticLoaderOptions<TEntry>,
 ): Loader {
-  const { resource } = options;
+  const { resource, embed } = options;
+  const fields = createFieldsQuery(options.fields, {
+    embed,
+    paths: Boolean(options.hierarchical || options.idFromPath),
+    incremental: options.incremental !== false,
+  });
+  const listEntries = (client: WordPressClient, query?: StaticSyncQuery) =>
+    listContentEntries<TEntry>(
+      client,
+      resource,
+      options.filter,
+      query,
+      embed,
+      fields,
+    );
 
   return createStaticWordPressLoader<TEntry>(client, {
     name: 'wordpress-content-static-loader',
     logLabel: resource,
     resource,
-    loadEntries: (client) =>
-      client.content<TEntry>(resource).listAll(options.filter),
+    ...createContentListing(resource, options, listEntries),
     mapEntry: options.mapEntry,
+    relations: options.relations,
     renderHtml: renderContentHtml,
   });
 }
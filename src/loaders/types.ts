@@ -10,7 +10,9 @@ import type {
   PostsFilter,
   TagsFilter,
   UsersFilter,
+  WordPressClient,
 } from 'fluent-wp-client';
+import type { WordPressLiveCache } from '../cache/memory';
 
 /**
  * Build-time filter for static loaders. Passed as loader options and forwarded
@@ -24,6 +26,57 @@ export type StaticLoaderFilter<TFilter> = Omit<TFilter, 'page'>;
  */
 export type WordPressEmbedMode = boolean | string[];
 
+/**
+ * Maps WordPress relation ID fields to the Astro collections holding the related
+ * entries (example: `{ author: 'wpUsers', categories: 'wpCategories' }`).
+ */
+export type WordPressRelationMap = Record<string, string>;
+
+/**
+ * Astro `reference()`-compatible value pointing at one entry in a sibling collection.
+ */
+export interface WordPressCollectionReference<
+  TCollection extends string = string,
+> {
+  collection: TCollection;
+  id: string;
+}
+
+/**
+ * Shared options for content loaders that resolve relation IDs into references.
+ */
+export interface WordPressRelationOptions {
+  /**
+   * Rewrites numeric relation fields (`author`, `categories`, `tags`,
+   * `featured_media`, custom taxonomies) into `{ collection, id }` references
+   * after `mapEntry` runs, so `getEntry()` can follow them directly.
+   */
+  relations?: WordPressRelationMap;
+}
+
+/**
+ * Options for loaders reading hierarchical resources (pages, hierarchical CPTs).
+ */
+export interface WordPressHierarchicalLoaderOptions {
+  /**
+   * Adds a `path` field built from the parent slug chain
+   * (e.g. `company/team/berlin`). Missing ancestors are loaded on demand.
+   */
+  hierarchical?: boolean;
+}
+
+/**
+ * Options for static loaders reading hierarchical resources.
+ */
+export interface WordPressHierarchicalStaticLoaderOptions
+  extends WordPressHierarchicalLoaderOptions {
+  /**
+   * Uses the computed `path` as Astro entry ID instead of the numeric
+   * WordPress ID. Implies `hierarchical`.
+   */
+  idFromPath?: boolean;
+}
+
 /**
  * Per-entry mapper for site-specific field normalization before Astro receives loader data.
  */
@@ -46,13 +99,152 @@ export interface WordPressEntryMappingOptions<TEntry, TFilter = unknown> {
   mapEntry?: WordPressLoaderEntryMapper<TEntry, TFilter>;
 }
 
+/**
+ * Top-level REST fields one loader may request with `_fields`.
+ */
+export type WordPressFieldSelection<TEntry> = readonly (keyof TEntry &
+  string)[];
+
+/**
+ * Entry type narrowed to one field selection. `id` is always kept because
+ * loaders key entries by it.
+ */
+export type WordPressProjectedEntry<
+  TEntry,
+  TFields extends readonly PropertyKey[],
+> = Pick<TEntry, Extract<TFields[number] | 'id', keyof TEntry>>;
+
+/**
+ * Options for loaders that can trim REST payloads to selected fields.
+ */
+export interface WordPressFieldProjectionOptions<
+  TEntry,
+  TFields extends
+    WordPressFieldSelection<TEntry> = WordPressFieldSelection<TEntry>,
+> {
+  /**
+   * Top-level fields sent as `_fields` (e.g. `['slug', 'title', 'date']`).
+   * `id` is always requested, as are the fields embeds, hierarchical paths,
+   * and incremental syncs depend on. Cache hints only carry the relationship
+   * tags and `lastModified` of fields that were requested.
+   */
+  fields?: TFields;
+}
+
+/**
+ * Options for live loaders that can serve repeated reads from memory.
+ */
+export interface WordPressLiveCacheOptions {
+  /**
+   * Stale-while-revalidate cache from `createWordPressMemoryCache()`.
+   * Request-authenticated and draft preview reads always bypass it.
+   */
+  cache?: WordPressLiveCache;
+}
+
+/**
+ * Options for live loaders whose collection cache tags are scoped by filters.
+ */
+export interface WordPressCollectionTagOptions {
+  /**
+   * REST fields of custom taxonomies (e.g. `['genres']`) whose filters scope
+   * collection cache tags, like `categories` and `tags` do.
+   */
+  taxonomies?: readonly string[];
+}
+
+/**
+ * Maps ACF relationship, post object, taxonomy, user, image, file, and
+ * gallery fields to the REST resources their IDs point to (example:
+ * `{ related_products: 'products', hero: 'media', topics: 'categories' }`).
+ * Fields accepting several post types list every resource.
+ */
+export type WordPressAcfRelationMap = Record<
+  string,
+  string | readonly string[]
+>;
+
+/**
+ * Options for live loaders whose entry cache tags follow ACF relation fields.
+ */
+export interface WordPressAcfRelationTagOptions {
+  /**
+   * ACF fields whose related entries tag each entry, so changing one related
+   * entry invalidates the pages showing it. `defineWordPressCollection()`
+   * derives this from the discovery catalog.
+   */
+  acfRelations?: WordPressAcfRelationMap;
+}
+
+/**
+ * Circuit breaker settings for one live loader.
+ */
+export interface WordPressCircuitBreakerOptions {
+  /** Consecutive failed reads that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** Milliseconds the circuit stays open before one trial read (default: 30000) */
+  resetTimeout?: number;
+}
+
+/**
+ * Last-known-good fallback settings for one live loader.
+ */
+export interface WordPressLiveFallbackOptions {
+  /** Seconds one successful result may be served as a fallback (default: 86400) */
+  maxAge?: number;
+  /** Maximum results kept per loader (default: 200) */
+  maxEntries?: number;
+}
+
+/**
+ * Timeout, retry, circuit breaker, and fallback settings for live reads.
+ */
+export interface WordPressResilienceOptions {
+  /** Milliseconds before one read is abandoned (default: no timeout) */
+  timeout?: number;
+  /** Extra attempts for reads failing with network, timeout, or 5xx errors (default: 0) */
+  retries?: number;
+  /** Base backoff in milliseconds, doubled on every retry (default: 200) */
+  retryDelay?: number;
+  /** Stops calling WordPress after repeated failures. `true` uses the defaults. */
+  circuitBreaker?: boolean | WordPressCircuitBreakerOptions;
+  /**
+   * Serves the last successful result for the same filter when a read fails.
+   * Request-authenticated and draft preview reads never fall back.
+   */
+  fallback?: boolean | WordPressLiveFallbackOptions;
+}
+
+/**
+ * Options for live loaders that keep rendering while WordPress is slow or down.
+ */
+export interface WordPressLiveResilienceOptions {
+  resilience?: WordPressResilienceOptions;
+}
+
+/**
+ * Marks one live result that was served from the last-known-good fallback.
+ */
+export interface WordPressStaleResult {
+  /** The error that made the live read fail. */
+  error: Error;
+  /** When the served result was originally loaded. */
+  loadedAt: Date;
+}
+
 /**
  * Options shared by live loaders that read post-like content resources.
  */
 export interface WordPressLiveContentLoaderOptions<
   TEntry = unknown,
   TFilter = unknown,
-> extends WordPressEntryMappingOptions<TEntry, TFilter> {
+> extends WordPressEntryMappingOptions<TEntry, TFilter>,
+    WordPressRelationOptions,
+    WordPressLiveCacheOptions,
+    WordPressLiveResilienceOptions,
+    WordPressCollectionTagOptions,
+    WordPressAcfRelationTagOptions,
+    WordPressFieldProjectionOptions<TEntry> {
   /**
    * Requests embedded relations for collection and entry reads.
    * Leave unset for the lean default payload.
@@ -91,6 +283,14 @@ export interface LoaderEntryLookup {
   slug?: string;
 }
 
+/**
+ * Lookup by full hierarchical slug path for pages and hierarchical CPTs.
+ */
+export interface HierarchicalEntryLookup {
+  /** Full slug path from the root ancestor (e.g. `company/team/berlin`). */
+  path?: string;
+}
+
 /**
  * Live loader filters use fluent-wp-client collection filters while also
  * accepting a string slug for Astro single-entry lookups.
@@ -115,7 +315,8 @@ export type PostFilter = WordPressLiveFilter<PostsFilter>;
 /**
  * Filter options for pages (live loader).
  */
-export type PageFilter = WordPressLiveFilter<PagesFilter>;
+export type PageFilter = WordPressLiveFilter<PagesFilter> &
+  HierarchicalEntryLookup;
 
 /**
  * Filter options for media (live loader).
@@ -160,10 +361,41 @@ export type TermFilter = ExtensibleFilter<CategoriesFilter> &
 export interface WordPressContentLoaderOptions<
   TEntry = unknown,
   TFilter = unknown,
-> extends WordPressEntryMappingOptions<TEntry, TFilter> {
+> extends WordPressEntryMappingOptions<TEntry, TFilter>,
+    WordPressRelationOptions,
+    WordPressHierarchicalLoaderOptions,
+    WordPressFieldProjectionOptions<TEntry> {
   /** REST resource path (examples: 'posts', 'pages', 'products', 'books') */
   resource: string;
-  /** Optional embedded relation loading for live reads. */
+  /** Optional embedded relation loading; static loaders normalize the result. */
+  embed?: WordPressEmbedMode;
+}
+
+/**
+ * Options for static loaders whose resources expose `modified_gmt` timestamps
+ * (posts, pages, media, and custom post types).
+ */
+export interface WordPressIncrementalStaticLoaderOptions {
+  /**
+   * Persists a sync cursor in Astro's meta store so later syncs fetch only
+   * entries modified since the previous run and remove deleted or unpublished
+   * entries via one ID-only listing. Defaults to `true`.
+   */
+  incremental?: boolean;
+}
+
+/**
+ * Options for the typed post and page static loaders.
+ */
+export interface WordPressPostLikeStaticLoaderOptions<TEntry, TFilter>
+  extends WordPressStaticLoaderOptions<TEntry, TFilter>,
+    WordPressIncrementalStaticLoaderOptions,
+    WordPressRelationOptions,
+    WordPressFieldProjectionOptions<TEntry> {
+  /**
+   * Requests embedded relations during the build and normalizes them into
+   * `featuredMedia`, `authorData`, and `terms` fields instead of `_embedded`.
+   */
   embed?: WordPressEmbedMode;
 }
 
@@ -171,7 +403,9 @@ export interface WordPressContentLoaderOptions<
  * Options for generic static content loaders.
  */
 export interface WordPressContentStaticLoaderOptions<TEntry = unknown>
-  extends WordPressContentLoaderOptions<TEntry> {
+  extends WordPressContentLoaderOptions<TEntry>,
+    WordPressIncrementalStaticLoaderOptions,
+    WordPressHierarchicalStaticLoaderOptions {
   /**
    * Build-time filter forwarded to `listAll()`. Scopes which entries are fetched
    * at build/prerender time. `page` is omitted — `listAll()` handles pagination.
@@ -197,9 +431,341 @@ export interface WordPressStaticLoaderOptions<TEntry, TFilter>
  * Uses `ExtensibleFilter<PostsFilter>` so it satisfies the index signature
  * required by the generic `client.content(string)` overload without casting.
  */
-export type ContentFilter = WordPressLiveFilter<PostsFilter>;
+export type ContentFilter = WordPressLiveFilter<PostsFilter> &
+  HierarchicalEntryLookup;
 
 /**
  * Filter options for users (live loader).
  */
 export type UserFilter = ExtensibleFilter<UsersFilter> & LoaderEntryLookup;
+
+/**
+ * Menu storage read by menu loaders: classic `wp/v2/menus` terms or block-based
+ * `wp_navigation` posts (`wp/v2/navigation`).
+ */
+export type WordPressMenuSource = 'menus' | 'navigation';
+
+/**
+ * One menu item with its resolved URL, object reference, and nested children.
+ */
+export interface WordPressMenuItem {
+  /** Menu item ID (classic menus) or 1-based block position (navigation posts). */
+  id: number;
+  /** Parent menu item ID, `0` for top-level items. */
+  parent: number;
+  /** Position within the menu. */
+  order: number;
+  title: string;
+  /** Absolute URL returned by WordPress. */
+  url: string;
+  /** Site-relative path for items linking to WordPress objects (pages, posts, terms). */
+  path?: string;
+  target?: string;
+  attrTitle?: string;
+  classes: string[];
+  /** Link kind: `post_type`, `taxonomy`, `post_type_archive`, or `custom`. */
+  type: string;
+  /** Linked object type (e.g. `page`, `post`, `category`, `custom`). */
+  object: string;
+  /** Linked object ID, when the item points at a WordPress object. */
+  objectId?: number;
+  children: WordPressMenuItem[];
+}
+
+/**
+ * One navigation menu with its items as a parent/child tree.
+ */
+export interface WordPressMenu {
+  id: number;
+  slug: string;
+  name: string;
+  source: WordPressMenuSource;
+  /** Theme locations the menu is assigned to (classic menus only). */
+  locations: string[];
+  /** Top-level items; nested items live in `children`. */
+  items: WordPressMenuItem[];
+  /** Last modification time (navigation posts only). */
+  modified_gmt?: string;
+}
+
+/**
+ * Filter options for menus (live loader).
+ */
+export interface MenuFilter extends LoaderEntryLookup {
+  /** Theme location slug (e.g. `primary`), classic menus only. */
+  location?: string;
+}
+
+/**
+ * Options for menu loaders.
+ */
+export interface WordPressMenuLoaderOptions<TFilter = unknown>
+  extends WordPressEntryMappingOptions<WordPressMenu, TFilter> {
+  /** Menu storage to read. Defaults to classic menus (`'menus'`). */
+  source?: WordPressMenuSource;
+}
+
+/**
+ * Options for the menu static loader.
+ */
+export interface WordPressMenuStaticLoaderOptions
+  extends WordPressStaticLoaderOptions<WordPressMenu, MenuFilter> {
+  /** Menu storage to read. Defaults to classic menus (`'menus'`). */
+  source?: WordPressMenuSource;
+}
+
+/**
+ * One `wp/v2/comments` entry. Threaded loaders nest direct replies in `replies`.
+ */
+export interface WordPressComment {
+  id: number;
+  /** ID of the post, page, or CPT entry the comment belongs to. */
+  post: number;
+  /** Parent comment ID, `0` for top-level comments. */
+  parent: number;
+  /** Registered user ID, `0` for guest comments. */
+  author: number;
+  author_name: string;
+  author_url?: string;
+  author_avatar_urls?: Record<string, string>;
+  date: string;
+  date_gmt: string;
+  content: { rendered: string };
+  link: string;
+  /** Moderation status (`approved`, `hold`, `spam`, `trash`). */
+  status: string;
+  type: string;
+  /** Nested replies, set only when threading is enabled. */
+  replies?: WordPressComment[];
+}
+
+/**
+ * Collection query fields accepted by `wp/v2/comments`.
+ */
+export interface CommentsFilter {
+  /** Limits results to comments on these post IDs. */
+  post?: number | number[];
+  /** Limits results to replies of these comment IDs (`0` for top-level). */
+  parent?: number | number[];
+  /** Moderation status. Anything but `approve` requires an authenticated client. */
+  status?: string;
+  type?: string;
+  author?: number | number[];
+  search?: string;
+  include?: number[];
+  exclude?: number[];
+  order?: 'asc' | 'desc';
+  orderby?: string;
+  page?: number;
+  perPage?: number;
+}
+
+/**
+ * Filter options for comments (live loader).
+ */
+export type CommentFilter = ExtensibleFilter<CommentsFilter> &
+  LoaderEntryLookup;
+
+/**
+ * Options for the comment live loader.
+ */
+export interface WordPressCommentLoaderOptions<TFilter = unknown>
+  extends WordPressEntryMappingOptions<WordPressComment, TFilter> {
+  /**
+   * Assembles flat comments into reply threads. Entries become top-level
+   * comments with nested `replies`; replies whose parent is not part of the
+   * result set (e.g. on another page) are kept at the top level.
+   */
+  threaded?: boolean;
+}
+
+/**
+ * Options for the comment static loader.
+ */
+export interface WordPressCommentStaticLoaderOptions
+  extends WordPressStaticLoaderOptions<WordPressComment, CommentFilter> {
+  /** Stores top-level comments with nested `replies` instead of flat comments. */
+  threaded?: boolean;
+}
+
+/**
+ * Site identity, reading, and front-page settings. Public fields come from the
+ * REST root index; the optional fields require an authenticated client with
+ * `manage_options` and are read from `wp/v2/settings`.
+ */
+export interface WordPressSiteSettings {
+  /** Fixed singleton entry ID. */
+  id: 'site';
+  title: string;
+  /** Site tagline. */
+  description: string;
+  url: string;
+  home: string;
+  /** Timezone string (e.g. `Europe/Berlin`), empty for manual UTC offsets. */
+  timezone: string;
+  /** UTC offset in hours. */
+  gmt_offset: number;
+  /** Attachment ID of the site logo. */
+  site_logo?: number;
+  /** Attachment ID of the site icon. */
+  site_icon?: number;
+  site_icon_url?: string;
+  date_format?: string;
+  time_format?: string;
+  start_of_week?: number;
+  language?: string;
+  show_on_front?: 'posts' | 'page';
+  page_on_front?: number;
+  page_for_posts?: number;
+  posts_per_page?: number;
+  /** Whether authenticated `wp/v2/settings` values were merged in. */
+  authenticated: boolean;
+}
+
+/**
+ * WordPress client resolved for the current request. `authenticated` marks
+ * clients carrying the request user's credentials, whose results must not be
+ * shared through the route cache.
+ */
+export interface WordPressRequestClient {
+  client: WordPressClient;
+  authenticated: boolean;
+}
+
+/**
+ * Resolves the client for the current request. Live loaders receive no
+ * request context, so resolvers read request state from elsewhere (for
+ * example AsyncLocalStorage populated by middleware).
+ */
+export type WordPressClientResolver = () =>
+  | WordPressRequestClient
+  | Promise<WordPressRequestClient>;
+
+/**
+ * Client source accepted by live loaders: one fixed client or a per-request
+ * resolver.
+ */
+export type ResolvableWordPressClient =
+  | WordPressClient
+  | WordPressClientResolver;
+
+/**
+ * One WordPress entry selected for draft preview.
+ */
+export interface WordPressPreviewTarget {
+  /** REST base of the previewed entry (`posts`, `pages`, `books`, ...). */
+  resource: string;
+  id: number;
+}
+
+/**
+ * Preview state for one request: the previewed entry and a client allowed to
+ * read its drafts and autosaves.
+ */
+export interface WordPressPreviewScope extends WordPressPreviewTarget {
+  client: WordPressClient;
+}
+
+/**
+ * Paging metadata for one live collection page, read from the
+ * `X-WP-Total` / `X-WP-TotalPages` response headers.
+ */
+export interface WordPressPagination {
+  /** 1-based page number that was loaded. */
+  page: number;
+  perPage: number;
+  /** Total number of matching entries across all pages. */
+  total: number;
+  totalPages: number;
+}
+
+/**
+ * Options for `createPaginationLinks()`.
+ */
+export interface WordPressPaginationLinkOptions {
+  /**
+   * Builds the href of one page. A string or URL is treated as the current
+   * route and receives a `?page=` query parameter (omitted on page 1).
+   */
+  href: string | URL | ((page: number) => string);
+  /** Query parameter used when `href` is a string or URL. Defaults to `page`. */
+  param?: string;
+  /**
+   * Number of numbered links shown on each side of the current page. The first
+   * and last pages are always included. Defaults to all pages.
+   */
+  window?: number;
+}
+
+/**
+ * One numbered page link.
+ */
+export interface WordPressPaginationLink {
+  page: number;
+  href: string;
+  current: boolean;
+}
+
+/**
+ * Prev/next and numbered page links for one paginated route.
+ */
+export interface WordPressPaginationLinks {
+  prev?: string;
+  next?: string;
+  /** Numbered links in page order; `gap` marks skipped pages before a link. */
+  pages: Array<WordPressPaginationLink & { gap: boolean }>;
+}
+
+/**
+ * Object kinds returned by `wp/v2/search`.
+ */
+export type WordPressSearchType = 'post' | 'term' | 'post-format';
+
+/**
+ * One `wp/v2/search` result. `subtype` discriminates the post type or taxonomy
+ * (`post`, `page`, `book`, `category`, ...).
+ */
+export interface WordPressSearchResult<TEntry = unknown> {
+  id: number;
+  title: string;
+  url: string;
+  type: WordPressSearchType;
+  subtype: string;
+  /** REST base of the matched object (e.g. `posts`, `books`, `categories`). */
+  resource: string;
+  /** Full entry loaded from `resource` when hydration is enabled. */
+  entry?: TEntry;
+}
+
+/**
+ * Filter options for the search live loader.
+ */
+export interface SearchFilter {
+  /**
+   * Entry lookup: a WordPress object ID or the live entry ID prefixed with the
+   * REST base (`posts:12`), as used by `getLiveEntry('search', 'posts:12')`.
+   */
+  id?: number | string;
+  /** Search terms. */
+  search?: string;
+  /** Object kind to search. Defaults to `post`. */
+  type?: WordPressSearchType;
+  /** Post types or taxonomies to search. Defaults to all searchable subtypes. */
+  subtype?: string | string[];
+  page?: number;
+  perPage?: number;
+  include?: number[];
+  exclude?: number[];
+}
+
+/**
+ * Options for the search live loader.
+ */
+export interface WordPressSearchLoaderOptions<TFilter = unknown>
+  extends WordPressEntryMappingOptions<WordPressSearchResult, TFilter> {
+  /**
+   * Loads the full entry behind every result with one request per resource
+   * and exposes it as `entry`. Entry cache hints then include relationship tags.
+   */
+  hydrate?: boolean;
+}
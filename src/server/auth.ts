@@ -21,6 +21,11 @@ import {
   jwtAuthTokenResponseSchema,
   wordPressErrorSchema,
 } from 'fluent-wp-client/zod';
+import {
+  createRequestClientResolver,
+  runWithWordPressClient,
+} from '../loaders/request-client';
+import type { WordPressClientResolver } from '../loaders/types';
 
 const DEFAULT_COOKIE_NAME = 'wp_astro_auth';
 const DEFAULT_COOKIE_PATH = '/';
@@ -251,6 +256,32 @@ export interface WordPressAuthBridge {
     WordPressClientConfig,
     'baseUrl' | 'auth' | 'authHeader' | 'authHeaders'
   > | null>;
+  /**
+   * Runs one callback (usually middleware `next`) with the request's
+   * authenticated client available to live loaders created with
+   * `liveClient`. Anonymous requests run the callback unchanged.
+   *
+   * @example
+   * // src/middleware.ts
+   * export const onRequest = defineMiddleware((context, next) =>
+   *   bridge.runWithClient(context, next),
+   * );
+   */
+  runWithClient: <T>(
+    context: Pick<ActionAPIContext, 'cookies' | 'request'>,
+    callback: () => Promise<T>,
+  ) => Promise<T>;
+  /**
+   * Live loader client resolver: the request's authenticated client inside
+   * `runWithClient()`, otherwise one shared public client. Authenticated
+   * results skip cache hints.
+   *
+   * @example
+   * const posts = defineLiveCollection({
+   *   loader: wordPressPostLoader(bridge.liveClient),
+   * });
+   */
+  liveClient: WordPressClientResolver;
   /**
    * Resolves the current authenticated user from request-derived auth only.
    * Bridge-level static auth is intentionally ignored.
@@ -1009,6 +1040,21 @@ export function createWordPressAuthBridge(
     }
   }
 
+  /**
+   * Runs one callback inside the request's authenticated client scope so live
+   * loaders using `liveClient` read with the user's credentials.
+   */
+  async function runWithClient<T>(
+    context: Pick<ActionAPIContext, 'cookies' | 'request'>,
+    callback: () => Promise<T>,
+  ): Promise<T> {
+    const client = await getClient(context);
+
+    return client ? runWithWordPressClient(client, callback) : callback();
+  }
+
+  const liveClient = createRequestClientResolver(getPublicClient());
+
   /**
    * Resolves the authenticated user directly from middleware context.
    * Ignores bridge-level static auth so the result always reflects request user state.
@@ -1091,6 +1137,8 @@ export function createWordPressAuthBridge(
     getClient,
     getPublicClient,
     withClient,
+    runWithClient,
+    liveClient,
     resolveUser,
     isAuthenticated,
   };
@@ -0,0 +1,44 @@
+/**
+ * Route injected by `wordpress()` in dev that invalidates the tags the dev
+ * toolbar cache inspector posts.
+ */
+import type { APIRoute } from 'astro';
+import { z } from 'astro/zod';
+import { invalidateWordPressTags } from '../cache/invalidate';
+
+export const prerender = false;
+
+const invalidateInputSchema = z.object({
+  tags: z.array(z.string().min(1)).min(1),
+});
+
+/**
+ * Serializes one JSON response that no cache keeps.
+ */
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+
+export const POST: APIRoute = async (context) => {
+  context.cache.set(false);
+
+  const input = invalidateInputSchema.safeParse(
+    await context.request.json().catch(() => undefined),
+  );
+
+  if (!input.success) {
+    return jsonResponse({ error: 'Post a non-empty `tags` array.' }, 400);
+  }
+
+  const { tags } = input.data;
+
+  const { cdnFailures } = await invalidateWordPressTags(context, tags);
+
+  return jsonResponse({ invalidated: true, tags, cdnFailures }, 200);
+};
@@ -0,0 +1,60 @@
+/**
+ * Middleware injected by `wordpress()` in dev that embeds the WordPress
+ * loader calls and cache tags of each HTML page for the dev toolbar cache
+ * inspector.
+ */
+import type { MiddlewareHandler } from 'astro';
+import { collectWordPressLoaderCalls } from '../cache/inspector';
+import {
+  CACHE_INSPECTOR_INVALIDATE_ROUTE,
+  CACHE_INSPECTOR_REPORT_ID,
+  type WordPressCacheInspectorReport,
+} from '../toolbar/cache-inspector-report';
+
+/**
+ * Escapes one JSON string for an inline `<script>` element.
+ */
+function toInlineJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
+
+export const onRequest: MiddlewareHandler = async (context, next) => {
+  // Pages render while their body streams, so the body is read inside the
+  // collector to see every loader call.
+  const { value, calls } = await collectWordPressLoaderCalls(async () => {
+    const response = await next();
+
+    if (!response.headers.get('content-type')?.includes('text/html')) {
+      return { response };
+    }
+
+    return { response, html: await response.text() };
+  });
+
+  if (value.html === undefined) {
+    return value.response;
+  }
+
+  const report: WordPressCacheInspectorReport = {
+    route: `${context.url.pathname}${context.url.search}`,
+    cacheEnabled: context.cache.enabled,
+    routeTags: [...context.cache.tags],
+    calls,
+    invalidateRoute: CACHE_INSPECTOR_INVALIDATE_ROUTE,
+  };
+  const script = `<script type="application/json" id="${CACHE_INSPECTOR_REPORT_ID}">${toInlineJson(report)}</script>`;
+  const bodyEnd = value.html.lastIndexOf('</body>');
+  const html =
+    bodyEnd === -1
+      ? `${value.html}${script}`
+      : `${value.html.slice(0, bodyEnd)}${script}${value.html.slice(bodyEnd)}`;
+  const headers = new Headers(value.response.headers);
+
+  headers.delete('content-length');
+
+  return new Response(html, {
+    status: value.response.status,
+    statusText: value.response.statusText,
+    headers,
+  });
+};
@@ -0,0 +1,45 @@
+import type { MiddlewareHandler } from 'astro';
+import { collectWordPressResponseCacheTags } from '../cache/cdn';
+import {
+  recordWordPressRouteTags,
+  registerWordPressCacheWarmup,
+  type WordPressCacheWarmupOptions,
+} from '../cache/warmup';
+
+/**
+ * Creates middleware that records which WordPress cache tags each route
+ * rendered with and enables warmup: after cache invalidation actions, write
+ * actions, or the webhook route invalidate tags, the affected routes are
+ * re-requested in the background with bounded concurrency. Only successful
+ * `GET` responses with tags are recorded.
+ *
+ * @example
+ * // src/middleware.ts
+ * export const onRequest = createWordPressCacheWarmupMiddleware({
+ *   include: (route) => !route.startsWith('/account'),
+ * });
+ */
+export function createWordPressCacheWarmupMiddleware(
+  options: WordPressCacheWarmupOptions = {},
+): MiddlewareHandler {
+  registerWordPressCacheWarmup(options);
+
+  return async (context, next) => {
+    if (context.request.method !== 'GET') {
+      return next();
+    }
+
+    const { value: response, tags: collected } =
+      await collectWordPressResponseCacheTags(next);
+    const tags = [...new Set([...collected, ...context.cache.tags])];
+
+    if (response.ok) {
+      await recordWordPressRouteTags(
+        `${context.url.pathname}${context.url.search}`,
+        tags,
+      );
+    }
+
+    return response;
+  };
+}
@@ -1,5 +1,6 @@
 /**
- * Server-side authentication helpers for Astro Actions and middleware.
+ * Server-side authentication, draft preview, webhook, surrogate key, and
+ * cache warmup helpers for Astro Actions, middleware, and routes.
  */
 
 export type {
@@ -15,3 +16,25 @@ export {
   createWordPressAuthBridge,
   wordPressLoginInputSchema,
 } from './auth';
+export { createWordPressCacheWarmupMiddleware } from './cache-warmup';
+export type { WordPressPreview, WordPressPreviewConfig } from './preview';
+export {
+  createWordPressPreview,
+  createWordPressPreviewToken,
+  verifyWordPressPreviewNonce,
+  verifyWordPressPreviewToken,
+} from './preview';
+export type { WordPressSurrogateKeyOptions } from './surrogate-keys';
+export { createWordPressSurrogateKeyMiddleware } from './surrogate-keys';
+export type {
+  WordPressWebhook,
+  WordPressWebhookConfig,
+  WordPressWebhookPayload,
+} from './webhook';
+export {
+  createWordPressWebhook,
+  createWordPressWebhookHeaders,
+  getWordPressWebhookTags,
+  verifyWordPressWebhookSignature,
+  wordPressWebhookPayloadSchema,
+} from './webhook';
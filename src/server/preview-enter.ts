@@ -0,0 +1,10 @@
+/**
+ * Route injected by `wordpress({ preview })` that starts draft preview mode.
+ */
+import type { APIRoute } from 'astro';
+import { getInjectedWordPressPreview } from './preview-runtime';
+
+export const prerender = false;
+
+export const GET: APIRoute = (context) =>
+  getInjectedWordPressPreview().enter(context);
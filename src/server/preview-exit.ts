@@ -0,0 +1,27 @@
+/**
+ * Route injected by `wordpress({ preview })` that ends draft preview mode.
+ * Without preview configuration it still clears the cookie.
+ */
+import type { APIRoute } from 'astro';
+import {
+  clearUnconfiguredPreviewCookie,
+  findInjectedWordPressPreview,
+} from './preview-runtime';
+
+export const prerender = false;
+
+export const GET: APIRoute = (context) => {
+  const preview = findInjectedWordPressPreview();
+
+  if (preview) {
+    return preview.exit(context);
+  }
+
+  context.cache.set(false);
+  clearUnconfiguredPreviewCookie(context.cookies);
+
+  return new Response(null, {
+    status: 302,
+    headers: { Location: '/', 'Cache-Control': 'no-store' },
+  });
+};
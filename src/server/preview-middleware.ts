@@ -0,0 +1,26 @@
+/**
+ * Middleware injected by `wordpress({ preview })` that renders requests
+ * carrying the preview cookie in draft preview mode. Without preview
+ * configuration the cookie is cleared and the public page renders.
+ */
+import type { MiddlewareHandler } from 'astro';
+import {
+  clearUnconfiguredPreviewCookie,
+  findInjectedWordPressPreview,
+  hasPreviewCookie,
+} from './preview-runtime';
+
+export const onRequest: MiddlewareHandler = (context, next) => {
+  if (!hasPreviewCookie(context.cookies)) {
+    return next();
+  }
+
+  const preview = findInjectedWordPressPreview();
+
+  if (!preview) {
+    clearUnconfiguredPreviewCookie(context.cookies);
+    return next();
+  }
+
+  return preview.middleware(context, next);
+};
@@ -0,0 +1,98 @@
+import { previewOptions } from 'virtual:wp-astrojs/preview';
+import { createWordPressPreview, type WordPressPreview } from './preview';
+
+let preview: WordPressPreview | undefined;
+let warnedMissingConfig = false;
+
+/**
+ * Reads one preview environment variable at request time so secrets never end
+ * up in the server bundle.
+ */
+function readPreviewEnv(key: string): string | undefined {
+  const value = process.env[`${previewOptions.envPrefix}${key}`];
+  return value && value.length > 0 ? value : undefined;
+}
+
+/**
+ * Describes the missing preview configuration.
+ */
+function getMissingConfigMessage(): string {
+  return `WordPress preview is enabled, but ${previewOptions.envPrefix}URL or ${previewOptions.envPrefix}SECRET is not set.`;
+}
+
+/**
+ * Returns the preview handlers configured by the `wordpress({ preview })`
+ * integration option, created on first use from `<envPrefix>URL`,
+ * `<envPrefix>SECRET`, and `<envPrefix>AUTH_HEADER` or
+ * `<envPrefix>USERNAME` / `<envPrefix>PASSWORD`. Returns `undefined` while
+ * `<envPrefix>URL` or `<envPrefix>SECRET` is not set.
+ */
+export function findInjectedWordPressPreview(): WordPressPreview | undefined {
+  if (preview) {
+    return preview;
+  }
+
+  const baseUrl = readPreviewEnv('URL');
+  const secret = readPreviewEnv('SECRET');
+
+  if (!baseUrl || !secret) {
+    return undefined;
+  }
+
+  const authHeader = readPreviewEnv('AUTH_HEADER');
+  const username = readPreviewEnv('USERNAME');
+  const password = readPreviewEnv('PASSWORD');
+
+  preview = createWordPressPreview({
+    baseUrl,
+    secret,
+    cookieName: previewOptions.cookieName,
+    maxAge: previewOptions.maxAge,
+    ...(authHeader
+      ? { authHeader }
+      : username && password
+        ? { auth: { username, password } }
+        : {}),
+  });
+
+  return preview;
+}
+
+/**
+ * Returns the injected preview handlers, throwing when the preview
+ * configuration is missing.
+ */
+export function getInjectedWordPressPreview(): WordPressPreview {
+  const handlers = findInjectedWordPressPreview();
+
+  if (!handlers) {
+    throw new Error(getMissingConfigMessage());
+  }
+
+  return handlers;
+}
+
+/**
+ * Clears one stale preview cookie when the preview configuration is
+ * missing, warning once per server process.
+ */
+export function clearUnconfiguredPreviewCookie(cookies: {
+  delete(name: string, options?: { path?: string }): void;
+}): void {
+  if (!warnedMissingConfig) {
+    warnedMissingConfig = true;
+    console.warn(`${getMissingConfigMessage()} Ignoring the preview cookie.`);
+  }
+
+  cookies.delete(previewOptions.cookieName, { path: '/' });
+}
+
+/**
+ * Checks for the preview cookie without touching preview configuration, so
+ * regular requests and prerendering work without preview env variables.
+ */
+export function hasPreviewCookie(cookies: {
+  has(name: string): boolean;
+}): boolean {
+  return cookies.has(previewOptions.cookieName);
+}
@@ -0,0 +1,414 @@
+import type { APIContext, APIRoute, MiddlewareHandler } from 'astro';
+import { WordPressClient, type WordPressClientConfig } from 'fluent-wp-client';
+import { runWithWordPressPreview } from '../loaders/preview';
+import type { WordPressPreviewTarget } from '../loaders/types';
+
+const DEFAULT_PREVIEW_COOKIE_NAME = 'wp_astro_preview';
+const DEFAULT_PREVIEW_MAX_AGE_SECONDS = 60 * 10;
+const PREVIEW_RESOURCE_PATTERN = /^[a-z0-9_-]+$/i;
+
+/**
+ * Configuration for draft preview handlers.
+ *
+ * `auth` / `authHeader` / `authHeaders` must belong to a user who can read
+ * drafts and autosaves of the previewed resources (e.g. an editor's
+ * application password).
+ */
+export interface WordPressPreviewConfig
+  extends Pick<
+    WordPressClientConfig,
+    'baseUrl' | 'auth' | 'authHeader' | 'authHeaders'
+  > {
+  /** Shared secret used to sign preview tokens and the preview cookie. */
+  secret: string;
+  /** Preview cookie name (default: 'wp_astro_preview') */
+  cookieName?: string;
+  /** Lifetime of the preview cookie in seconds (default: 10 minutes) */
+  maxAge?: number;
+}
+
+/**
+ * Route handlers and middleware implementing draft preview mode.
+ */
+export interface WordPressPreview {
+  cookieName: string;
+  /**
+   * Starts preview mode. Accepts either `?token=` (signed with
+   * `createWordPressPreviewToken()`) or `?resource=&id=&nonce=` with a
+   * `wp_rest` nonce validated by WordPress against the editor's cookies.
+   * Redirects to the sanitized `redirect` path.
+   */
+  enter: APIRoute;
+  /** Clears the preview cookie and redirects to the sanitized `redirect` path. */
+  exit: APIRoute;
+  /**
+   * Reads the preview cookie and renders the request in preview mode, with
+   * route caching disabled.
+   */
+  middleware: MiddlewareHandler;
+  /** Resolves the preview target of one request from its preview cookie. */
+  getTarget: (
+    context: Pick<APIContext, 'cookies'>,
+  ) => Promise<WordPressPreviewTarget | null>;
+}
+
+/**
+ * Signed preview token payload.
+ */
+type PreviewTokenPayload = WordPressPreviewTarget & {
+  /** Expiry as Unix timestamp in seconds. */
+  exp: number;
+};
+
+/**
+ * Encodes one byte array as base64url.
+ */
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Decodes one base64url string into bytes.
+ */
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64.padEnd(Math.ceil(base64.length / 4) * 4, '=');
+
+  return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+}
+
+/**
+ * Imports one HMAC-SHA256 key from the shared preview secret.
+ */
+function importPreviewKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify'],
+  );
+}
+
+/**
+ * Checks that one decoded payload names a valid preview target.
+ */
+function isPreviewTokenPayload(value: unknown): value is PreviewTokenPayload {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const payload = value as Partial<PreviewTokenPayload>;
+
+  return (
+    typeof payload.resource === 'string' &&
+    PREVIEW_RESOURCE_PATTERN.test(payload.resource) &&
+    Number.isInteger(payload.id) &&
+    (payload.id ?? 0) > 0 &&
+    typeof payload.exp === 'number'
+  );
+}
+
+/**
+ * Creates one signed preview token (`<payload>.<signature>`, both base64url)
+ * for the given entry. WordPress can create the same token with
+ * `hash_hmac('sha256', $payload, $secret, true)` in a `preview_post_link`
+ * filter.
+ */
+export async function createWordPressPreviewToken(
+  target: WordPressPreviewTarget,
+  secret: string,
+  maxAge = DEFAULT_PREVIEW_MAX_AGE_SECONDS,
+): Promise<string> {
+  const payload = toBase64Url(
+    new TextEncoder().encode(
+      JSON.stringify({
+        resource: target.resource,
+        id: target.id,
+        exp: Math.floor(Date.now() / 1000) + maxAge,
+      }),
+    ),
+  );
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    await importPreviewKey(secret),
+    new TextEncoder().encode(payload),
+  );
+
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verifies one signed preview token and returns its target, or `null` when the
+ * token is malformed, forged, or expired.
+ */
+export async function verifyWordPressPreviewToken(
+  token: string | null | undefined,
+  secret: string,
+): Promise<WordPressPreviewTarget | null> {
+  const [payload, signature, ...rest] = token?.split('.') ?? [];
+
+  if (!payload || !signature || rest.length > 0) {
+    return null;
+  }
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await importPreviewKey(secret),
+      fromBase64Url(signature),
+      new TextEncoder().encode(payload),
+    );
+
+    if (!valid) {
+      return null;
+    }
+
+    const decoded: unknown = JSON.parse(
+      new TextDecoder().decode(fromBase64Url(payload)),
+    );
+
+    if (
+      !isPreviewTokenPayload(decoded) ||
+      decoded.exp <= Math.floor(Date.now() / 1000)
+    ) {
+      return null;
+    }
+
+    return { resource: decoded.resource, id: decoded.id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validates one `wp_rest` nonce by asking WordPress to read the entry in edit
+ * context with the editor's forwarded cookies. Only works when the browser
+ * sends WordPress login cookies to the Astro host (shared parent domain).
+ */
+export async function verifyWordPressPreviewNonce(
+  baseUrl: string,
+  target: WordPressPreviewTarget,
+  nonce: string,
+  cookie: string | null,
+): Promise<boolean> {
+  if (!cookie || !PREVIEW_RESOURCE_PATTERN.test(target.resource)) {
+    return false;
+  }
+
+  const client = new WordPressClient({
+    baseUrl,
+    authHeaders: () => ({ Cookie: cookie, 'X-WP-Nonce': nonce }),
+  });
+
+  try {
+    await client.request({
+      endpoint: `/wp-json/wp/v2/${target.resource}/${target.id}?context=edit&_fields=id`,
+      method: 'GET',
+    });
+
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Reports whether one redirect contains a backslash or control character,
+ * which browsers strip or treat as `/` (e.g. `/\evil.com` or `/\t/evil.com`).
+ */
+function hasUnsafeRedirectCharacter(candidate: string): boolean {
+  for (const character of candidate) {
+    const code = character.charCodeAt(0);
+
+    if (character === '\\' || code < 0x20 || code === 0x7f) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Keeps preview redirects on the current site: the target must resolve to
+ * the request origin and is returned as path, query, and hash only.
+ */
+function sanitizePreviewRedirect(
+  candidate: string | null,
+  requestUrl: URL,
+): string {
+  if (
+    !candidate ||
+    !candidate.startsWith('/') ||
+    candidate.startsWith('//') ||
+    hasUnsafeRedirectCharacter(candidate)
+  ) {
+    return '/';
+  }
+
+  let target: URL;
+
+  try {
+    target = new URL(candidate, requestUrl);
+  } catch {
+    return '/';
+  }
+
+  if (target.origin !== requestUrl.origin) {
+    return '/';
+  }
+
+  return `${target.pathname}${target.search}${target.hash}`;
+}
+
+/**
+ * Reads one preview target from `?resource=&id=` query parameters.
+ */
+function readQueryTarget(url: URL): WordPressPreviewTarget | null {
+  const resource = url.searchParams.get('resource') ?? 'posts';
+  const id = Number(url.searchParams.get('id'));
+
+  if (!PREVIEW_RESOURCE_PATTERN.test(resource) || !Number.isInteger(id)) {
+    return null;
+  }
+
+  return id > 0 ? { resource, id } : null;
+}
+
+/**
+ * Creates draft preview route handlers and middleware.
+ *
+ * @example
+ * const preview = createWordPressPreview({
+ *   baseUrl: import.meta.env.WP_URL,
+ *   secret: import.meta.env.WP_PREVIEW_SECRET,
+ *   auth: { username: 'editor', password: import.meta.env.WP_APP_PASSWORD },
+ * });
+ *
+ * // src/pages/api/preview.ts
+ * export const GET = preview.enter;
+ */
+export function createWordPressPreview(
+  config: WordPressPreviewConfig,
+): WordPressPreview {
+  const cookieName = config.cookieName ?? DEFAULT_PREVIEW_COOKIE_NAME;
+  const maxAge = config.maxAge ?? DEFAULT_PREVIEW_MAX_AGE_SECONDS;
+  const client = new WordPressClient({
+    baseUrl: config.baseUrl,
+    auth: config.auth,
+    authHeader: config.authHeader,
+    authHeaders: config.authHeaders,
+  });
+
+  /**
+   * Resolves the preview target stored in one request's preview cookie.
+   */
+  async function getTarget(
+    context: Pick<APIContext, 'cookies'>,
+  ): Promise<WordPressPreviewTarget | null> {
+    return verifyWordPressPreviewToken(
+      context.cookies.get(cookieName)?.value,
+      config.secret,
+    );
+  }
+
+  const enter: APIRoute = async (context) => {
+    const { url } = context;
+    const nonce = url.searchParams.get('nonce');
+    const queryTarget = readQueryTarget(url);
+    const target = url.searchParams.has('token')
+      ? await verifyWordPressPreviewToken(
+          url.searchParams.get('token'),
+          config.secret,
+        )
+      : nonce &&
+          queryTarget &&
+          (await verifyWordPressPreviewNonce(
+            config.baseUrl,
+            queryTarget,
+            nonce,
+            context.request.headers.get('cookie'),
+          ))
+        ? queryTarget
+        : null;
+
+    context.cache.set(false);
+
+    if (!target) {
+      return new Response('Invalid or expired preview link.', {
+        status: 401,
+        headers: { 'Cache-Control': 'no-store' },
+      });
+    }
+
+    context.cookies.set(
+      cookieName,
+      await createWordPressPreviewToken(target, config.secret, maxAge),
+      {
+        path: '/',
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: url.protocol === 'https:',
+        maxAge,
+      },
+    );
+
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: sanitizePreviewRedirect(
+          url.searchParams.get('redirect'),
+          url,
+        ),
+        'Cache-Control': 'no-store',
+      },
+    });
+  };
+
+  const exit: APIRoute = (context) => {
+    context.cache.set(false);
+    context.cookies.delete(cookieName, { path: '/' });
+
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: sanitizePreviewRedirect(
+          context.url.searchParams.get('redirect'),
+          context.url,
+        ),
+        'Cache-Control': 'no-store',
+      },
+    });
+  };
+
+  const middleware: MiddlewareHandler = async (context, next) => {
+    const target = await getTarget(context);
+
+    if (!target) {
+      return next();
+    }
+
+    context.cache.set(false);
+
+    const response = await runWithWordPressPreview({ ...target, client }, () =>
+      next(),
+    );
+
+    // Pages may re-enable caching with their own hints; preview wins.
+    context.cache.set(false);
+    response.headers.set('Cache-Control', 'private, no-store');
+
+    return response;
+  };
+
+  return {
+    cookieName,
+    enter,
+    exit,
+    middleware,
+    getTarget,
+  };
+}
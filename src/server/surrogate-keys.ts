@@ -0,0 +1,64 @@
+import type { MiddlewareHandler } from 'astro';
+import {
+  collectWordPressResponseCacheTags,
+  formatWordPressSurrogateKeyHeader,
+  type WordPressSurrogateKeyHeader,
+} from '../cache/cdn';
+
+/**
+ * Configuration for the surrogate key middleware.
+ */
+export interface WordPressSurrogateKeyOptions {
+  /**
+   * Headers that list the route's surrogate keys (default: `Cache-Tag`
+   * separated by `,` and `Surrogate-Key` separated by `' '`, 16 KB each).
+   */
+  headers?: WordPressSurrogateKeyHeader[];
+}
+
+const DEFAULT_SURROGATE_KEY_HEADERS: WordPressSurrogateKeyHeader[] = [
+  { name: 'Cache-Tag', separator: ',' },
+  { name: 'Surrogate-Key', separator: ' ' },
+];
+
+/**
+ * Creates middleware that writes the WordPress cache tags of each route as
+ * surrogate key headers for a CDN in front of Astro. Tags come from public
+ * live loader results and `Astro.cache` hints, so pages need no extra code.
+ * Responses whose tags do not fit a header even after hashing are marked
+ * `no-store`, because the CDN could not purge them reliably.
+ *
+ * @example
+ * // src/middleware.ts
+ * export const onRequest = createWordPressSurrogateKeyMiddleware();
+ */
+export function createWordPressSurrogateKeyMiddleware(
+  options: WordPressSurrogateKeyOptions = {},
+): MiddlewareHandler {
+  const headers = options.headers ?? DEFAULT_SURROGATE_KEY_HEADERS;
+
+  return async (context, next) => {
+    const { value: response, tags: collected } =
+      await collectWordPressResponseCacheTags(next);
+    const tags = [...new Set([...collected, ...context.cache.tags])];
+
+    if (tags.length === 0) {
+      return response;
+    }
+
+    const values = await Promise.all(
+      headers.map((header) => formatWordPressSurrogateKeyHeader(tags, header)),
+    );
+
+    if (values.includes(undefined)) {
+      response.headers.set('Cache-Control', 'no-store');
+      return response;
+    }
+
+    for (const [index, header] of headers.entries()) {
+      response.headers.set(header.name, values[index] as string);
+    }
+
+    return response;
+  };
+}
@@ -0,0 +1,11 @@
+/**
+ * Route injected by `wordpress({ webhook })` that receives signed WordPress
+ * change notifications.
+ */
+import type { APIRoute } from 'astro';
+import { getInjectedWordPressWebhook } from './webhook-runtime';
+
+export const prerender = false;
+
+export const POST: APIRoute = (context) =>
+  getInjectedWordPressWebhook().receive(context);
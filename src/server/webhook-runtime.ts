@@ -0,0 +1,30 @@
+import { webhookOptions } from 'virtual:wp-astrojs/webhook';
+import { createWordPressWebhook, type WordPressWebhook } from './webhook';
+
+let webhook: WordPressWebhook | undefined;
+
+/**
+ * Returns the webhook receiver configured by the `wordpress({ webhook })`
+ * integration option, created on first use from `<envPrefix>SECRET`, which is
+ * read at request time so it never ends up in the server bundle.
+ */
+export function getInjectedWordPressWebhook(): WordPressWebhook {
+  if (webhook) {
+    return webhook;
+  }
+
+  const secret = process.env[`${webhookOptions.envPrefix}SECRET`];
+
+  if (!secret) {
+    throw new Error(
+      `WordPress webhooks are enabled, but ${webhookOptions.envPrefix}SECRET is not set.`,
+    );
+  }
+
+  webhook = createWordPressWebhook({
+    secret,
+    tolerance: webhookOptions.tolerance,
+  });
+
+  return webhook;
+}
@@ -0,0 +1,383 @@
+import type { APIRoute } from 'astro';
+import { z } from 'astro/zod';
+import {
+  createCommentInvalidationTags,
+  createContentInvalidationTags,
+  createContentWriteInvalidationTags,
+  createMediaInvalidationTags,
+  createMenuInvalidationTags,
+  createTermWriteInvalidationTags,
+  createUserWriteInvalidationTags,
+  type WordPressMembershipEntry,
+} from '../cache/hints';
+import {
+  invalidateWordPressTags,
+  type WordPressTagInvalidation,
+} from '../cache/invalidate';
+
+const DEFAULT_WEBHOOK_TOLERANCE_SECONDS = 60 * 5;
+const WEBHOOK_TIMESTAMP_HEADER = 'x-wp-webhook-timestamp';
+const WEBHOOK_SIGNATURE_HEADER = 'x-wp-webhook-signature';
+const WEBHOOK_SIGNATURE_PREFIX = 'sha256=';
+const WEBHOOK_RESOURCE_PATTERN = /^[a-z0-9_-]+$/i;
+
+/**
+ * Configuration for the webhook receiver.
+ */
+export interface WordPressWebhookConfig {
+  /** Shared secret WordPress signs webhook deliveries with. */
+  secret: string;
+  /**
+   * Maximum age and clock skew of one delivery in seconds (default: 5 minutes).
+   * Older deliveries and repeated signatures are rejected as replays.
+   */
+  tolerance?: number;
+}
+
+/**
+ * Route handler receiving signed WordPress change notifications.
+ */
+export interface WordPressWebhook {
+  /**
+   * Verifies one signed delivery, maps it to cache tags, and invalidates them
+   * in Astro's route cache, every live loader memory cache, and every
+   * registered CDN.
+   */
+  receive: APIRoute;
+}
+
+const webhookIdSchema = z.number().int().positive();
+const webhookResourceSchema = z.string().regex(WEBHOOK_RESOURCE_PATTERN);
+const webhookEntryStateSchema = z.record(z.string(), z.unknown()).nullish();
+
+/**
+ * Payload of one WordPress webhook delivery. Post states use REST field names
+ * (`status`, `author`, `categories`, …); `null` marks a missing state.
+ */
+export const wordPressWebhookPayloadSchema = z.discriminatedUnion('entity', [
+  z.object({
+    entity: z.literal('post'),
+    resource: webhookResourceSchema,
+    id: webhookIdSchema,
+    before: webhookEntryStateSchema,
+    after: webhookEntryStateSchema,
+  }),
+  z.object({
+    entity: z.literal('term'),
+    resource: webhookResourceSchema,
+    id: webhookIdSchema,
+    taxonomy: z.string().min(1),
+    parent: z.number().int().nonnegative().optional(),
+  }),
+  z.object({
+    entity: z.literal('user'),
+    id: webhookIdSchema,
+    reassign: webhookIdSchema.optional(),
+  }),
+  z.object({
+    entity: z.literal('media'),
+    id: webhookIdSchema,
+  }),
+  z.object({
+    entity: z.literal('menu'),
+    source: z.enum(['menus', 'navigation']).default('menus'),
+    id: webhookIdSchema,
+    locations: z.array(z.string().min(1)).optional(),
+  }),
+  z.object({
+    entity: z.literal('comment'),
+    id: webhookIdSchema,
+    post: z.number().int().nonnegative(),
+  }),
+]);
+
+export type WordPressWebhookPayload = z.infer<
+  typeof wordPressWebhookPayloadSchema
+>;
+
+/**
+ * Encodes one byte array as lowercase hex, matching PHP's `hash_hmac()`.
+ */
+function toHex(bytes: Uint8Array): string {
+  return [...bytes].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Decodes one hex string into bytes, or `null` when it is not valid hex.
+ */
+function fromHex(value: string): Uint8Array<ArrayBuffer> | null {
+  if (value.length % 2 !== 0 || !/^[0-9a-f]*$/i.test(value)) {
+    return null;
+  }
+
+  return Uint8Array.from(value.match(/../g) ?? [], (pair) =>
+    Number.parseInt(pair, 16),
+  );
+}
+
+/**
+ * Imports one HMAC-SHA256 key from the shared webhook secret.
+ */
+function importWebhookKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify'],
+  );
+}
+
+/**
+ * Creates the headers of one signed webhook delivery. The signature is
+ * `sha256=` plus the hex HMAC of `<timestamp>.<body>`, which WordPress can
+ * create with `hash_hmac('sha256', "$timestamp.$body", $secret)`.
+ */
+export async function createWordPressWebhookHeaders(
+  body: string,
+  secret: string,
+  timestamp = Math.floor(Date.now() / 1000),
+): Promise<Record<string, string>> {
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    await importWebhookKey(secret),
+    new TextEncoder().encode(`${timestamp}.${body}`),
+  );
+
+  return {
+    'Content-Type': 'application/json',
+    'X-WP-Webhook-Timestamp': String(timestamp),
+    'X-WP-Webhook-Signature': `${WEBHOOK_SIGNATURE_PREFIX}${toHex(new Uint8Array(signature))}`,
+  };
+}
+
+/**
+ * Verifies the signature of one webhook delivery in constant time.
+ */
+export async function verifyWordPressWebhookSignature(
+  body: string,
+  timestamp: string,
+  signature: string | null | undefined,
+  secret: string,
+): Promise<boolean> {
+  const bytes = signature?.startsWith(WEBHOOK_SIGNATURE_PREFIX)
+    ? fromHex(signature.slice(WEBHOOK_SIGNATURE_PREFIX.length))
+    : null;
+
+  if (!bytes) {
+    return false;
+  }
+
+  return crypto.subtle.verify(
+    'HMAC',
+    await importWebhookKey(secret),
+    bytes,
+    new TextEncoder().encode(`${timestamp}.${body}`),
+  );
+}
+
+/**
+ * Adds the entry ID to one post state sent by WordPress.
+ */
+function toContentState(
+  state: Record<string, unknown> | null | undefined,
+  id: number,
+): (WordPressMembershipEntry & { id: number }) | undefined {
+  return state ? { ...state, id } : undefined;
+}
+
+/**
+ * Maps one webhook payload to the cache tags its change affects.
+ */
+export function getWordPressWebhookTags(
+  payload: WordPressWebhookPayload,
+): string[] {
+  switch (payload.entity) {
+    case 'post':
+      return [
+        ...new Set([
+          ...createContentInvalidationTags(payload.resource, payload.id),
+          ...createContentWriteInvalidationTags(
+            payload.resource,
+            toContentState(payload.before, payload.id),
+            toContentState(payload.after, payload.id),
+          ),
+        ]),
+      ];
+    case 'term': {
+      const term = {
+        id: payload.id,
+        taxonomy: payload.taxonomy,
+        parent: payload.parent ?? 0,
+      };
+
+      return createTermWriteInvalidationTags(payload.resource, term, term);
+    }
+    case 'user':
+      return [
+        ...new Set([
+          ...createUserWriteInvalidationTags(payload.id),
+          ...(payload.reassign
+            ? createUserWriteInvalidationTags(payload.reassign)
+            : []),
+        ]),
+      ];
+    case 'media':
+      return createMediaInvalidationTags(payload.id);
+    case 'menu':
+      return [
+        ...createMenuInvalidationTags(payload.source, payload.id),
+        ...(payload.locations ?? []).map(
+          (location) => `wp:menu-location:${location}`,
+        ),
+      ];
+    case 'comment':
+      return createCommentInvalidationTags(payload);
+  }
+}
+
+/**
+ * Creates one uncached JSON response.
+ */
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+
+/**
+ * Creates the webhook receiver for WordPress change notifications.
+ *
+ * @example
+ * const webhook = createWordPressWebhook({
+ *   secret: import.meta.env.WP_WEBHOOK_SECRET,
+ * });
+ *
+ * // src/pages/api/wp-webhook.ts
+ * export const POST = webhook.receive;
+ */
+export function createWordPressWebhook(
+  config: WordPressWebhookConfig,
+): WordPressWebhook {
+  const tolerance = config.tolerance ?? DEFAULT_WEBHOOK_TOLERANCE_SECONDS;
+  /** Signatures accepted inside the tolerance window, with their expiry. */
+  const seenSignatures = new Map<string, number>();
+
+  /**
+   * Records one accepted signature, or reports it was already used.
+   */
+  function claimSignature(signature: string): boolean {
+    const now = Date.now();
+
+    for (const [seen, expiresAt] of seenSignatures) {
+      if (expiresAt <= now) {
+        seenSignatures.delete(seen);
+      }
+    }
+
+    if (seenSignatures.has(signature)) {
+      return false;
+    }
+
+    seenSignatures.set(signature, now + tolerance * 2 * 1000);
+    return true;
+  }
+
+  const receive: APIRoute = async (context) => {
+    context.cache.set(false);
+
+    const body = await context.request.text();
+    const timestamp =
+      context.request.headers.get(WEBHOOK_TIMESTAMP_HEADER) ?? '';
+    const signature = context.request.headers.get(WEBHOOK_SIGNATURE_HEADER);
+    const sentAt = Number(timestamp);
+
+    if (
+      !/^\d+$/.test(timestamp) ||
+      Math.abs(Math.floor(Date.now() / 1000) - sentAt) > tolerance
+    ) {
+      return jsonResponse(
+        {
+          error: 'Webhook timestamp is missing or outside the allowed window.',
+        },
+        401,
+      );
+    }
+
+    if (
+      !signature ||
+      !(await verifyWordPressWebhookSignature(
+        body,
+        timestamp,
+        signature,
+        config.secret,
+      ))
+    ) {
+      return jsonResponse({ error: 'Invalid webhook signature.' }, 401);
+    }
+
+    if (!claimSignature(signature)) {
+      return jsonResponse(
+        { error: 'Webhook delivery was already processed.' },
+        409,
+      );
+    }
+
+    let decoded: unknown;
+
+    try {
+      decoded = JSON.parse(body);
+    } catch {
+      return jsonResponse({ error: 'Webhook body is not valid JSON.' }, 400);
+    }
+
+    const payload = wordPressWebhookPayloadSchema.safeParse(decoded);
+
+    if (!payload.success) {
+      return jsonResponse(
+        {
+          error: 'Webhook payload does not describe a supported change.',
+          issues: payload.error.issues,
+        },
+        400,
+      );
+    }
+
+    const tags = getWordPressWebhookTags(payload.data);
+
+    let invalidation: WordPressTagInvalidation;
+
+    try {
+      invalidation = await invalidateWordPressTags(context, tags);
+    } catch (error) {
+      // Lets WordPress retry the same delivery.
+      seenSignatures.delete(signature);
+
+      return jsonResponse(
+        {
+          invalidated: false,
+          entity: payload.data.entity,
+          tags,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        500,
+      );
+    }
+
+    return jsonResponse(
+      {
+        invalidated: true,
+        entity: payload.data.entity,
+        tags,
+        ...invalidation,
+      },
+      200,
+    );
+  };
+
+  return { receive };
+}
@@ -0,0 +1,23 @@
+import type { WordPressLoaderCallReport } from '../cache/inspector';
+
+/**
+ * Cache report of one rendered route, embedded into dev HTML responses for
+ * the dev toolbar cache inspector.
+ */
+export interface WordPressCacheInspectorReport {
+  /** Route path and query the report belongs to. */
+  route: string;
+  /** Whether Astro route caching is enabled for the request. */
+  cacheEnabled: boolean;
+  /** Tags Astro's route cache stores the response under. */
+  routeTags: string[];
+  calls: WordPressLoaderCallReport[];
+  /** Dev route that invalidates posted tags. */
+  invalidateRoute: string;
+}
+
+/** ID of the JSON script element carrying the report. */
+export const CACHE_INSPECTOR_REPORT_ID = 'wp-astrojs-cache-inspector';
+
+/** Dev-only route invalidating the tags posted by the inspector. */
+export const CACHE_INSPECTOR_INVALIDATE_ROUTE = '/_wp-astrojs/cache-invalidate';
@@ -0,0 +1,262 @@
+/// <reference lib="dom" />
+/**
+ * Dev toolbar app registered by `wordpress()` that lists the WordPress loader
+ * calls of the current page, their cache tags, and dropped hints, and can
+ * invalidate the page's tags.
+ */
+import { defineToolbarApp } from 'astro/toolbar';
+import type { WordPressCdnPurgeFailure } from '../cache/cdn';
+import type { WordPressLoaderCallReport } from '../cache/inspector';
+import {
+  CACHE_INSPECTOR_REPORT_ID,
+  type WordPressCacheInspectorReport,
+} from './cache-inspector-report';
+
+/**
+ * Explains each reason a loader result carries no route-level cache hint.
+ */
+const DROP_REASON_LABELS: Record<
+  NonNullable<WordPressLoaderCallReport['dropped']>,
+  string
+> = {
+  authenticated: 'Dropped: read with a request-authenticated client',
+  preview: 'Dropped: draft preview read',
+  stale: 'Dropped: stale fallback after a failed read',
+  'free-text-search':
+    'Collection hint dropped: free-text search results; entry hints kept',
+};
+
+const STYLES = `
+  header { display: flex; align-items: center; justify-content: space-between; gap: 12px; }
+  h1 { font-size: 18px; margin: 0; }
+  section { border-top: 1px solid rgba(255, 255, 255, 0.1); padding: 8px 0; }
+  h2 { font-size: 14px; margin: 0 0 4px; display: flex; gap: 8px; align-items: center; }
+  code, pre { font-family: ui-monospace, monospace; font-size: 12px; }
+  pre { margin: 4px 0; white-space: pre-wrap; word-break: break-all; }
+  ul { margin: 4px 0; padding-left: 18px; }
+  p { margin: 4px 0; }
+  .muted { color: #9198ad; }
+  .status { min-height: 1.2em; }
+  .content { overflow: auto; max-height: 60vh; }
+`;
+
+/**
+ * Creates one element with optional text content.
+ */
+function createElement<K extends keyof HTMLElementTagNameMap>(
+  tag: K,
+  text?: string,
+  className?: string,
+): HTMLElementTagNameMap[K] {
+  const element = document.createElement(tag);
+
+  if (text !== undefined) {
+    element.textContent = text;
+  }
+
+  if (className) {
+    element.className = className;
+  }
+
+  return element;
+}
+
+/**
+ * Reads the report the dev middleware embedded into the current page.
+ */
+function readReport(): WordPressCacheInspectorReport | undefined {
+  const script = document.getElementById(CACHE_INSPECTOR_REPORT_ID);
+
+  if (!script?.textContent) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(script.textContent) as WordPressCacheInspectorReport;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Collects every tag of the page: route cache tags plus loader call tags.
+ */
+function getPageTags(report: WordPressCacheInspectorReport): string[] {
+  return [
+    ...new Set([
+      ...report.routeTags,
+      ...report.calls.flatMap((call) => call.tags),
+    ]),
+  ];
+}
+
+/**
+ * Renders one loader call with its filter, tags, and hint state.
+ */
+function renderCall(call: WordPressLoaderCallReport): HTMLElement {
+  const section = createElement('section');
+  const title = createElement('h2');
+  const badge = createElement('astro-dev-toolbar-badge', call.kind);
+
+  badge.setAttribute('badge-style', call.error ? 'red' : 'gray');
+  title.append(createElement('code', `${call.loader} → ${call.resource}`));
+  title.append(badge);
+  section.append(title);
+  section.append(
+    createElement('pre', JSON.stringify(call.filter ?? null, null, 2)),
+  );
+
+  if (call.error) {
+    section.append(createElement('p', `Error: ${call.error}`));
+    return section;
+  }
+
+  if (call.dropped) {
+    section.append(createElement('p', DROP_REASON_LABELS[call.dropped]));
+  }
+
+  const details = [
+    call.entries === undefined ? undefined : `${call.entries} entries`,
+    call.lastModified ? `lastModified ${call.lastModified}` : undefined,
+  ].filter(Boolean);
+
+  if (details.length > 0) {
+    section.append(createElement('p', details.join(' · '), 'muted'));
+  }
+
+  if (call.tags.length === 0) {
+    section.append(createElement('p', 'No cache tags', 'muted'));
+    return section;
+  }
+
+  const list = createElement('ul');
+
+  for (const tag of call.tags) {
+    const item = createElement('li');
+
+    item.append(createElement('code', tag));
+    list.append(item);
+  }
+
+  section.append(list);
+  return section;
+}
+
+/**
+ * Renders the inspector window for the current page.
+ */
+function render(canvas: ShadowRoot): void {
+  const report = readReport();
+  const panel = createElement('astro-dev-toolbar-window');
+  const style = createElement('style', STYLES);
+  const header = createElement('header');
+  const content = createElement('div', undefined, 'content');
+  const status = createElement('p', undefined, 'status muted');
+
+  header.append(createElement('h1', 'WordPress cache'));
+  panel.append(style, header);
+
+  if (!report) {
+    panel.append(
+      createElement(
+        'p',
+        'No WordPress cache report for this page. Only HTML pages rendered on demand are inspected.',
+        'muted',
+      ),
+    );
+    canvas.replaceChildren(panel);
+    return;
+  }
+
+  const tags = getPageTags(report);
+  const button = createElement(
+    'astro-dev-toolbar-button',
+    `Invalidate ${tags.length} tags`,
+  );
+
+  button.setAttribute('button-style', 'purple');
+  button.toggleAttribute('disabled', tags.length === 0);
+  button.addEventListener('click', async () => {
+    status.textContent = 'Invalidating…';
+
+    try {
+      const response = await fetch(report.invalidateRoute, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tags }),
+      });
+
+      if (!response.ok) {
+        status.textContent = `Invalidation failed with HTTP ${response.status}.`;
+        return;
+      }
+
+      const { cdnFailures = [] } = (await response.json()) as {
+        cdnFailures?: WordPressCdnPurgeFailure[];
+      };
+      const failed = cdnFailures
+        .map((failure) => `${failure.adapter}: ${failure.error}`)
+        .join('; ');
+
+      status.textContent = `Invalidated ${tags.length} tags. ${
+        failed ? `CDN purge failed (${failed}). ` : ''
+      }Reload to render the page again.`;
+    } catch (error) {
+      status.textContent = `Invalidation failed: ${String(error)}`;
+    }
+  });
+  header.append(button);
+
+  content.append(
+    createElement(
+      'p',
+      `${report.route} · route cache ${report.cacheEnabled ? 'enabled' : 'disabled'} · ${report.calls.length} loader calls`,
+      'muted',
+    ),
+  );
+
+  if (report.routeTags.length > 0) {
+    content.append(
+      createElement('p', `Route cache tags: ${report.routeTags.join(', ')}`),
+    );
+  }
+
+  for (const call of report.calls) {
+    content.append(renderCall(call));
+  }
+
+  panel.append(status, content);
+  canvas.replaceChildren(panel);
+}
+
+export default defineToolbarApp({
+  init(canvas, app) {
+    /**
+     * Flags the toolbar icon when a loader call failed or dropped its hint.
+     */
+    function notify(): void {
+      const calls = readReport()?.calls ?? [];
+      const failed = calls.some((call) => call.error);
+      const dropped = calls.some((call) => call.dropped);
+
+      app.toggleNotification(
+        failed || dropped
+          ? { state: true, level: failed ? 'error' : 'warning' }
+          : { state: false },
+      );
+    }
+
+    notify();
+    app.onToggled(({ state }) => {
+      if (state) {
+        render(canvas);
+      }
+    });
+
+    // Client-side navigations swap in the next page's report.
+    document.addEventListener('astro:after-swap', () => {
+      notify();
+      render(canvas);
+    });
+  },
+});
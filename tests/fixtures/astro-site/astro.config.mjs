@@ -4,6 +4,8 @@
  * - Action suites run against `astro dev` and need `output: 'server'`.
  * - Build suites run `astro build` and need `output: 'static'` without an adapter.
  * - Route-caching suites run a production preview with the in-memory cache provider.
+ * - Server suites enable the injected draft preview routes (`/api/wp-preview`).
+ * - Server suites also enable the injected webhook route (`/api/wp-webhook`).
  */
 
 import node from '@astrojs/node';
@@ -37,6 +39,8 @@ export default defineConfig({
             cacheFile: 'wp-astrojs-test/catalog.json',
           }
         : false,
+      preview: !isStaticBuild,
+      webhook: !isStaticBuild,
     }),
   ],
 });
@@ -30,6 +30,7 @@ import {
   createUpdateTermAction,
   createUpdateUserAction,
   createUserInputSchema,
+  createWpCacheBulkInvalidateAction,
   createWpCacheInvalidateAction,
   updatePostInputSchema,
   updateTermInputSchema,
@@ -240,6 +241,13 @@ const updateBook = createUpdatePostAction(requestClient, {
   schema: booksUpdateSchema,
 });
 
+const updateBookInvalidatingCache = createUpdatePostAction(requestClient, {
+  resource: 'books',
+  responseSchema: booksItemSchema,
+  schema: booksUpdateSchema,
+  invalidateCache: true,
+});
+
 const deleteBook = createDeletePostAction(requestClient, { resource: 'books' });
 
 /* ── Term actions ────────────────────────────────────── */
@@ -260,6 +268,12 @@ const updateCategory = createUpdateTermAction(requestClient, {
   }),
 });
 
+const updateCategoryInvalidatingCache = createUpdateTermAction(requestClient, {
+  resource: 'categories',
+  responseSchema: categorySchema,
+  invalidateCache: true,
+});
+
 const deleteCategory = createDeleteTermAction(requestClient, {
   resource: 'categories',
 });
@@ -286,6 +300,10 @@ const deleteGenre = createDeleteTermAction(requestClient, {
 
 const wpCacheInvalidate = createWpCacheInvalidateAction(requestClient);
 
+const wpCacheBulkInvalidate = createWpCacheBulkInvalidateAction(requestClient, {
+  chunkSize: 2,
+});
+
 /* ── User actions ────────────────────────────────────── */
 
 const createUser = createCreateUserAction(requestClient);
@@ -559,16 +577,19 @@ export const server = {
   createBookCustomSchema,
   createBookResponseOverride,
   updateBook,
+  updateBookInvalidatingCache,
   deleteBook,
 
   createCategory,
   updateCategory,
+  updateCategoryInvalidatingCache,
   deleteCategory,
   createTag,
   deleteTag,
   createGenre,
   deleteGenre,
   wpCacheInvalidate,
+  wpCacheBulkInvalidate,
 
   createUser,
   createUserCustomSchema,
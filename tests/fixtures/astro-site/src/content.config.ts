@@ -11,6 +11,7 @@ import {
   wordPressContentStaticLoader,
   wordPressPageStaticLoader,
   wordPressPostStaticLoader,
+  wordPressSettingsStaticLoader,
 } from '../../../../src/loaders/static';
 import { resolveWpBaseUrl } from '../../../helpers/wp-env';
 import {
@@ -64,9 +65,18 @@ const books = defineCollection({
 
 const catalogPosts =
   process.env.ASTRO_TEST_CATALOG === '1'
-    ? defineWordPressCollection('posts', { client: wp })
+    ? defineWordPressCollection('posts', {
+        client: wp,
+        relations: { categories: 'categories' },
+      })
     : posts;
 
+/** Site settings singleton, typed by the catalog schema module when enabled. */
+const siteSettings =
+  process.env.ASTRO_TEST_CATALOG === '1'
+    ? defineWordPressCollection('settings', { client: wp })
+    : defineCollection({ loader: wordPressSettingsStaticLoader(wp) });
+
 export const collections = {
   posts,
   mappedPosts,
@@ -74,4 +84,5 @@ export const collections = {
   categories,
   books,
   catalogPosts,
+  siteSettings,
 };
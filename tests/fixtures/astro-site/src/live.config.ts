@@ -13,6 +13,7 @@ import {
   wordPressContentLoader,
   wordPressPageLoader,
   wordPressPostLoader,
+  wordPressSearchLoader,
   wordPressUserLoader,
 } from '../../../../src/loaders/live';
 import { resolveWpBaseUrl } from '../../../helpers/wp-env';
@@ -87,6 +88,16 @@ const liveUsers = defineLiveCollection({
     .passthrough(),
 });
 
+/** Cross-type search collection over `wp/v2/search`. */
+const liveSearch = defineLiveCollection({
+  loader: wordPressSearchLoader(wp),
+});
+
+/** Schemaless post collection used by draft preview runtime tests. */
+const livePreviewPosts = defineLiveCollection({
+  loader: wordPressPostLoader(wp),
+});
+
 export const collections = {
   livePosts,
   liveMappedPosts,
@@ -95,4 +106,6 @@ export const collections = {
   liveBooks,
   liveCatalogBooks,
   liveUsers,
+  liveSearch,
+  livePreviewPosts,
 };
@@ -0,0 +1,31 @@
+/**
+ * Fixture middleware writing WordPress surrogate key headers and recording
+ * routes for cache warmup. Route-caching suites set `WP_CDN_PURGE_URL` to a
+ * local stand-in that records the purges sent by the HTTP BAN adapter.
+ */
+import { sequence } from 'astro:middleware';
+import { registerWordPressCdnPurgeAdapter } from '../../../../src/cache/cdn';
+import { createHttpBanPurgeAdapter } from '../../../../src/cache/purge-adapters';
+import { createWordPressCacheWarmupMiddleware } from '../../../../src/server/cache-warmup';
+import { createWordPressSurrogateKeyMiddleware } from '../../../../src/server/surrogate-keys';
+
+const purgeUrl = process.env.WP_CDN_PURGE_URL;
+
+if (purgeUrl) {
+  registerWordPressCdnPurgeAdapter(
+    // Node's HTTP parser used by the stand-in rejects the `BAN` method.
+    createHttpBanPurgeAdapter({
+      url: purgeUrl,
+      method: 'PURGE',
+      headers: { 'X-Purge-Secret': 'wp-astrojs-integration-purge-test' },
+    }),
+  );
+}
+
+export const onRequest = sequence(
+  createWordPressSurrogateKeyMiddleware(),
+  // Personalized routes render differently without the visitor's headers.
+  createWordPressCacheWarmupMiddleware({
+    include: (route) => !route.startsWith('/api/user-profile'),
+  }),
+);
@@ -7,7 +7,7 @@ import { vi } from 'vitest';
 export function createMockStore() {
   const entries = new Map<
     string,
-    { data: unknown; rendered?: { html: string } }
+    { data: unknown; digest?: string; rendered?: { html: string } }
   >();
 
   const store = {
@@ -16,16 +16,47 @@ export function createMockStore() {
       ({
         id,
         data,
+        digest,
         rendered,
       }: {
         id: string;
         data: unknown;
+        digest?: string;
         rendered?: { html: string };
       }) => {
-        entries.set(id, { data, rendered });
+        entries.set(id, { data, digest, rendered });
       },
     ),
+    get: vi.fn((id: string) => {
+      const entry = entries.get(id);
+      return entry ? { id, ...entry } : undefined;
+    }),
+    has: vi.fn((id: string) => entries.has(id)),
+    keys: vi.fn(() => [...entries.keys()]),
+    delete: vi.fn((id: string) => {
+      entries.delete(id);
+    }),
   };
 
   return { store, entries };
 }
+
+/**
+ * Mimics the Astro MetaStore interface used by static loaders for sync cursors
+ */
+export function createMockMeta() {
+  const values = new Map<string, string>();
+
+  const meta = {
+    get: vi.fn((key: string) => values.get(key)),
+    set: vi.fn((key: string, value: string) => {
+      values.set(key, value);
+    }),
+    has: vi.fn((key: string) => values.has(key)),
+    delete: vi.fn((key: string) => {
+      values.delete(key);
+    }),
+  };
+
+  return { meta, values };
+}
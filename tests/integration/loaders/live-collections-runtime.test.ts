@@ -76,6 +76,62 @@ describe('Live Collections: Astro runtime', () => {
   });
 });
 
+describe('Live Pagination: Astro runtime', () => {
+  it('exposes paging metadata and renders prev/next/numbered links', async () => {
+    const response = await fetch(`${getAstroDevUrl()}/live-archive?page=3`);
+    const html = await response.text();
+
+    if (response.status !== 200) {
+      throw new Error(
+        `Expected status 200 but got ${response.status}: ${html}`,
+      );
+    }
+
+    const total = Number(
+      html.match(/<p id="live-archive-total">(\d+)<\/p>/)?.[1],
+    );
+    const totalPages = Number(
+      html.match(/<p id="live-archive-total-pages">(\d+)<\/p>/)?.[1],
+    );
+
+    expect(html).not.toContain('id="live-archive-error"');
+    expect(html).toContain('Live Archive Posts (20)');
+    expect(html).toContain('<p id="live-archive-page">3</p>');
+    expect(total).toBeGreaterThanOrEqual(150);
+    expect(totalPages).toBe(Math.ceil(total / 20));
+    expect(html).toMatch(/id="live-archive-prev" href="[^"]*\?page=2"/);
+    expect(html).toMatch(/id="live-archive-next" href="[^"]*\?page=4"/);
+    expect(html).toMatch(
+      /data-page="1" data-gap="false" href="[^"?]*live-archive"/,
+    );
+    expect(html).toMatch(/data-page="3"[^>]*aria-current="page"/);
+    expect(html).toContain(`data-page="${totalPages}" data-gap="true"`);
+    expect(html).not.toContain('data-page="6"');
+  });
+});
+
+describe('Live Search: Astro runtime', () => {
+  it('renders mixed search results with paging metadata and entry cache tags', async () => {
+    const response = await fetch(`${getAstroDevUrl()}/live-search?q=001`);
+    const html = await response.text();
+
+    if (response.status !== 200) {
+      throw new Error(
+        `Expected status 200 but got ${response.status}: ${html}`,
+      );
+    }
+
+    expect(html).not.toContain('id="live-search-error"');
+    expect(html).toContain('data-subtype="post"');
+    expect(html).toContain('data-subtype="book"');
+    expect(html).toContain('data-resource="books"');
+    expect(html).toMatch(/<p id="live-search-total">\d+<\/p>/);
+    expect(html).toMatch(/<p id="live-search-total-pages">\d+<\/p>/);
+    expect(html).toMatch(/id="live-search-cache-tags">[^<]*wp:entry:posts:\d+/);
+    expect(html).toMatch(/id="live-search-cache-tags">[^<]*wp:entry:books:\d+/);
+  });
+});
+
 describe('Live Entry: Astro runtime', () => {
   it('renders seeded post, page, category, and book entries through getLiveEntry', async () => {
     const response = await fetch(`${getAstroDevUrl()}/live-entry`);
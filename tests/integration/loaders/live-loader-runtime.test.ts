@@ -1,4 +1,5 @@
 import { describe, expect, it } from 'vitest';
+import type { WordPressCacheInspectorReport } from '../../../src/toolbar/cache-inspector-report';
 import { getAstroDevUrl } from '../../helpers/action-client';
 
 /**
@@ -37,4 +38,36 @@ describe('Live Loaders: Astro runtime', () => {
     expect(html).toContain('data-status="In progress"');
     expect(html).toContain('Project status: In progress');
   });
+
+  it('embeds live loader calls for the dev toolbar cache inspector', async () => {
+    const response = await fetch(`${getAstroDevUrl()}/live-posts`);
+    const html = await response.text();
+    const match = html.match(
+      /<script type="application\/json" id="wp-astrojs-cache-inspector">(.*?)<\/script>/s,
+    );
+
+    expect(match).not.toBeNull();
+
+    const report = JSON.parse(match![1]) as WordPressCacheInspectorReport;
+    const call = report.calls.find((item) => item.kind === 'collection');
+
+    expect(report.route).toBe('/live-posts');
+    expect(report.invalidateRoute).toBe('/_wp-astrojs/cache-invalidate');
+    expect(call).toMatchObject({ resource: 'posts', entries: 100 });
+    expect(call?.tags).toContain('wp:collection:posts');
+    expect(call?.error).toBeUndefined();
+  });
+
+  it('rejects cache inspector invalidations without tags', async () => {
+    const response = await fetch(
+      `${getAstroDevUrl()}/_wp-astrojs/cache-invalidate`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tags: [] }),
+      },
+    );
+
+    expect(response.status).toBe(400);
+  });
 });
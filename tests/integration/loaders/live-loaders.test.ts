@@ -1,15 +1,42 @@
+import { LiveEntryNotFoundError } from 'astro/content/runtime';
 import { createJwtAuthHeader, WordPressClient } from 'fluent-wp-client';
-import { beforeAll, describe, expect, it } from 'vitest';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+  createContentInvalidationTags,
+  createContentMembershipInvalidationTags,
+} from '../../../src/cache/hints';
+import {
+  createWordPressMemoryCache,
+  invalidateWordPressLiveCaches,
+} from '../../../src/cache/memory';
+import { getWordPressAcfRelations } from '../../../src/loaders/acf-relations';
+import {
+  WordPressForbiddenError,
+  WordPressLoaderError,
+  WordPressNotFoundError,
+  WordPressUnauthorizedError,
+  WordPressUpstreamError,
+} from '../../../src/loaders/errors';
 import {
   wordPressCategoryLoader,
+  wordPressCommentLoader,
   wordPressContentLoader,
   wordPressMediaLoader,
+  wordPressMenuLoader,
   wordPressPageLoader,
   wordPressPostLoader,
+  wordPressSearchLoader,
+  wordPressSettingsLoader,
   wordPressTagLoader,
   wordPressTermLoader,
   wordPressUserLoader,
 } from '../../../src/loaders/live';
+import { getWordPressPagination } from '../../../src/loaders/pagination';
+import {
+  createRequestClientResolver,
+  runWithWordPressClient,
+} from '../../../src/loaders/request-client';
+import { getWordPressStaleResult } from '../../../src/loaders/resilience';
 import { getAcfChoiceLabels } from '../../helpers/acf-choice-catalog';
 import { getBaseUrl } from '../../helpers/wp-client';
 
@@ -97,6 +124,29 @@ describe('Live Loaders', () => {
       expect(first.rendered?.html).toBe(first.data.content.rendered);
     });
 
+    it('exposes paging metadata from the X-WP-Total headers', async () => {
+      const loader = wordPressPostLoader(createPublicClient());
+      const filter = { page: 2, perPage: 25 };
+      const result = (await loader.loadCollection!({ filter } as never)) as {
+        entries: Array<{ id: string }>;
+        pagination?: {
+          page: number;
+          perPage: number;
+          total: number;
+          totalPages: number;
+        };
+      };
+
+      expect(result.entries).toHaveLength(25);
+      expect(result.pagination?.page).toBe(2);
+      expect(result.pagination?.perPage).toBe(25);
+      expect(result.pagination?.total).toBeGreaterThanOrEqual(150);
+      expect(result.pagination?.totalPages).toBe(
+        Math.ceil((result.pagination?.total ?? 0) / 25),
+      );
+      expect(getWordPressPagination(filter)).toEqual(result.pagination);
+    });
+
     it('returns plain data objects suitable for serialization', async () => {
       const loader = wordPressPostLoader(createPublicClient());
       const result = (await loader.loadCollection!({
@@ -159,6 +209,35 @@ describe('Live Loaders', () => {
       expect(result.data.acf?.acf_subtitle).toBe('posts:Mapped label');
     });
 
+    it('resolves relation IDs into collection references after mapping', async () => {
+      const loader = wordPressPostLoader(createPublicClient(), {
+        relations: { author: 'wpUsers', categories: 'wpCategories' },
+      });
+
+      const result = (await loader.loadEntry!({
+        filter: { slug: 'test-post-001' },
+      } as never)) as {
+        data: {
+          author?: { collection: string; id: string };
+          categories?: Array<{ collection: string; id: string }>;
+        };
+        cacheHint?: { tags?: string[] };
+      };
+
+      expect(result.data.author).toEqual({
+        collection: 'wpUsers',
+        id: expect.any(String),
+      });
+      expect(result.data.categories?.length).toBeGreaterThan(0);
+      for (const category of result.data.categories ?? []) {
+        expect(category.collection).toBe('wpCategories');
+        expect(Number.isFinite(Number(category.id))).toBe(true);
+      }
+      expect(result.cacheHint?.tags).toContain(
+        `wp:author:${result.data.author?.id}`,
+      );
+    });
+
     it('supports callback-driven ACF choice labels from live REST API', async () => {
       const choiceLabels = await getAcfChoiceLabels(baseUrl);
       const loader = wordPressPostLoader(createPublicClient(), {
@@ -215,6 +294,47 @@ describe('Live Loaders', () => {
       );
     });
 
+    it('tags entries with the targets of ACF relationship and post-object fields', async () => {
+      const loader = wordPressContentLoader(createPublicClient(), {
+        resource: 'books',
+        acfRelations: { acf_featured_post: 'posts' },
+      });
+      const result = (await loader.loadEntry!({
+        filter: { slug: 'test-book-001' },
+      } as never)) as {
+        data: { id: number; acf?: { acf_featured_post?: unknown } };
+        cacheHint?: { tags?: string[] };
+      };
+      const featured = result.data.acf?.acf_featured_post;
+      const featuredId =
+        typeof featured === 'object' && featured !== null
+          ? (featured as { ID: number }).ID
+          : Number(featured);
+
+      expect(Number.isFinite(featuredId)).toBe(true);
+      expect(result.cacheHint?.tags).toContain(
+        `wp:entry:books:${result.data.id}`,
+      );
+      expect(result.cacheHint?.tags).toContain(`wp:entry:posts:${featuredId}`);
+    });
+
+    it('derives ACF relation maps from the annotated discovery catalog', async () => {
+      const catalog = await createPublicClient().explore({
+        include: ['content', 'terms'],
+        refresh: true,
+      });
+
+      expect(getWordPressAcfRelations(catalog, 'books')).toEqual(
+        expect.objectContaining({
+          acf_featured_post: ['posts'],
+          acf_related_posts: ['posts'],
+        }),
+      );
+      expect(getWordPressAcfRelations(catalog, 'missing-resource')).toBe(
+        undefined,
+      );
+    });
+
     it('returns collection cache hints with the newest lastModified', async () => {
       const loader = wordPressPostLoader(createPublicClient());
       const result = (await loader.loadCollection!({
@@ -424,6 +544,42 @@ describe('Live Loaders', () => {
         `wp:author:${result.data.author}`,
       );
     });
+
+    it('resolves nested pages by full hierarchical path', async () => {
+      const loader = wordPressPageLoader(createPublicClient());
+      const result = (await loader.loadEntry!({
+        filter: { path: '/services/portfolio/testimonials/' },
+      } as never)) as { data: { slug: string; parent: number } };
+
+      expect(result.data.slug).toBe('testimonials');
+      expect(result.data.parent).toBeGreaterThan(0);
+    });
+
+    it('returns not-found errors for paths with a mismatched parent chain', async () => {
+      const loader = wordPressPageLoader(createPublicClient());
+      const result = (await loader.loadEntry!({
+        filter: { path: 'about/testimonials' },
+      } as never)) as { error?: Error };
+
+      expect(result.error).toBeInstanceOf(Error);
+    });
+
+    it('adds hierarchical paths to collection entries when enabled', async () => {
+      const loader = wordPressPageLoader(createPublicClient(), {
+        hierarchical: true,
+      });
+      const result = (await loader.loadCollection!({
+        filter: { slug: ['team', 'testimonials'] },
+      } as never)) as { entries: Array<{ data: { path: string } }> };
+      const paths = result.entries.map((entry) => entry.data.path);
+
+      expect(paths).toEqual(
+        expect.arrayContaining([
+          'about/team',
+          'services/portfolio/testimonials',
+        ]),
+      );
+    });
   });
 
   describe('wordPressCategoryLoader', () => {
@@ -442,6 +598,22 @@ describe('Live Loaders', () => {
       }
     });
 
+    it('falls back to the default page and page size in paging metadata', async () => {
+      const loader = wordPressCategoryLoader(createPublicClient());
+      const result = (await loader.loadCollection!({
+        filter: { hideEmpty: false },
+      } as never)) as {
+        entries: Array<{ id: string }>;
+        pagination?: { page: number; perPage: number; total: number };
+      };
+
+      expect(result.pagination?.page).toBe(1);
+      expect(result.pagination?.perPage).toBe(10);
+      expect(result.pagination?.total).toBeGreaterThanOrEqual(
+        result.entries.length,
+      );
+    });
+
     it('returns taxonomy-focused cache tags without timestamps', async () => {
       const loader = wordPressCategoryLoader(createPublicClient());
       const result = (await loader.loadEntry!({
@@ -664,6 +836,1142 @@ describe('Live Loaders', () => {
     });
   });
 
+  describe('request-scoped clients', () => {
+    /**
+     * Resolves the seeded post that carries the held comment fixture.
+     */
+    async function getCommentedPostId(): Promise<number> {
+      const post = await createPublicClient()
+        .content('posts')
+        .item('test-post-001');
+
+      return post!.id;
+    }
+
+    it('reads with the request client and skips cache hints when authenticated', async () => {
+      const postId = await getCommentedPostId();
+      const loader = wordPressCommentLoader(
+        createRequestClientResolver(createPublicClient()),
+      );
+      const result = (await runWithWordPressClient(createJwtClient(), () =>
+        loader.loadCollection!({
+          filter: { post: postId, status: 'hold' },
+        } as never),
+      )) as {
+        entries: Array<{
+          data: { content: { rendered: string } };
+          cacheHint?: unknown;
+        }>;
+        cacheHint?: unknown;
+      };
+
+      expect(result.entries).toHaveLength(1);
+      expect(result.entries[0].data.content.rendered).toContain(
+        'Pending comment',
+      );
+      expect(result.cacheHint).toBeUndefined();
+      expect(result.entries[0].cacheHint).toBeUndefined();
+    });
+
+    it('falls back to the public client with cache hints outside a request scope', async () => {
+      const loader = wordPressPostLoader(
+        createRequestClientResolver(createPublicClient()),
+      );
+      const collection = (await loader.loadCollection!({
+        filter: undefined,
+      } as never)) as {
+        entries: Array<{ cacheHint?: { tags?: string[] } }>;
+        cacheHint?: { tags?: string[] };
+      };
+      const held = (await wordPressCommentLoader(
+        createRequestClientResolver(createPublicClient()),
+      ).loadCollection!({
+        filter: { post: await getCommentedPostId(), status: 'hold' },
+      } as never)) as { error?: Error };
+
+      expect(collection.cacheHint?.tags).toContain('wp:resource:posts');
+      expect(collection.entries[0].cacheHint?.tags).toContain('wp');
+      expect(held.error).toBeInstanceOf(Error);
+    });
+
+    it('skips entry cache hints for authenticated entry reads', async () => {
+      const loader = wordPressPostLoader(
+        createRequestClientResolver(createPublicClient()),
+      );
+      const result = (await runWithWordPressClient(createJwtClient(), () =>
+        loader.loadEntry!({ filter: { slug: 'test-post-001' } } as never),
+      )) as { id: string; cacheHint?: unknown };
+
+      expect(result.id).toBeDefined();
+      expect(result.cacheHint).toBeUndefined();
+    });
+  });
+
+  describe('live memory cache', () => {
+    /**
+     * Creates one public client that counts its REST requests.
+     */
+    function createCountingClient(): {
+      client: WordPressClient;
+      getRequestCount: () => number;
+    } {
+      let requestCount = 0;
+
+      return {
+        client: new WordPressClient({
+          baseUrl,
+          fetch: async (input, init) => {
+            requestCount += 1;
+            return fetch(input, init);
+          },
+        }),
+        getRequestCount: () => requestCount,
+      };
+    }
+
+    it('serves repeated entry and collection reads from memory', async () => {
+      const { client, getRequestCount } = createCountingClient();
+      const loader = wordPressPostLoader(client, {
+        cache: createWordPressMemoryCache(),
+      });
+
+      const first = (await loader.loadEntry!({
+        filter: { slug: 'test-post-001' },
+      } as never)) as { data: { slug: string }; cacheHint?: unknown };
+      const afterEntry = getRequestCount();
+      const second = (await loader.loadEntry!({
+        filter: { slug: 'test-post-001' },
+      } as never)) as { data: { slug: string }; cacheHint?: unknown };
+
+      await loader.loadCollection!({
+        filter: { perPage: 5, page: 1 },
+      } as never);
+      const afterCollection = getRequestCount();
+      const collection = (await loader.loadCollection!({
+        filter: { page: 1, perPage: 5 },
+      } as never)) as { entries: unknown[]; cacheHint?: unknown };
+
+      expect(second.data.slug).toBe(first.data.slug);
+      expect(second.cacheHint).toEqual(first.cacheHint);
+      expect(getRequestCount()).toBe(afterCollection);
+      expect(afterCollection).toBeGreaterThan(afterEntry);
+      expect(collection.entries).toHaveLength(5);
+      expect(collection.cacheHint).toBeDefined();
+    });
+
+    it('evicts records by the shared cache tags', async () => {
+      const { client, getRequestCount } = createCountingClient();
+      const cache = createWordPressMemoryCache();
+      const loader = wordPressPostLoader(client, { cache });
+      const entry = (await loader.loadEntry!({
+        filter: { slug: 'test-post-001' },
+      } as never)) as { data: { id: number } };
+
+      await loader.loadCollection!({ filter: { perPage: 100 } } as never);
+
+      const beforeInvalidation = getRequestCount();
+
+      await invalidateWordPressLiveCaches(
+        createContentInvalidationTags('posts', entry.data.id),
+      );
+      await loader.loadEntry!({ filter: { slug: 'test-post-001' } } as never);
+      await loader.loadCollection!({ filter: { perPage: 100 } } as never);
+
+      expect(getRequestCount()).toBe(beforeInvalidation + 2);
+    });
+
+    it('serves stale records while one background request revalidates them', async () => {
+      const { client, getRequestCount } = createCountingClient();
+      const loader = wordPressPostLoader(client, {
+        cache: createWordPressMemoryCache({ ttl: 0, staleWhileRevalidate: 60 }),
+      });
+
+      await loader.loadEntry!({ filter: { slug: 'test-post-001' } } as never);
+
+      const afterMiss = getRequestCount();
+      const [stale] = (await Promise.all([
+        loader.loadEntry!({ filter: { slug: 'test-post-001' } } as never),
+        loader.loadEntry!({ filter: { slug: 'test-post-001' } } as never),
+      ])) as Array<{ data: { slug: string } }>;
+
+      expect(stale.data.slug).toBe('test-post-001');
+      await vi.waitFor(() => {
+        expect(getRequestCount()).toBe(afterMiss * 2);
+      });
+    });
+
+    it('evicts the least recently used record beyond maxEntries', async () => {
+      const { client, getRequestCount } = createCountingClient();
+      const loader = wordPressPostLoader(client, {
+        cache: createWordPressMemoryCache({ maxEntries: 1 }),
+      });
+
+      await loader.loadEntry!({ filter: { slug: 'test-post-001' } } as never);
+      await loader.loadEntry!({ filter: { slug: 'test-post-002' } } as never);
+
+      const beforeReload = getRequestCount();
+
+      await loader.loadEntry!({ filter: { slug: 'test-post-002' } } as never);
+      expect(getRequestCount()).toBe(beforeReload);
+
+      await loader.loadEntry!({ filter: { slug: 'test-post-001' } } as never);
+      expect(getRequestCount()).toBeGreaterThan(beforeReload);
+    });
+
+    it('bypasses the cache for authenticated reads and missing entries', async () => {
+      const { client, getRequestCount } = createCountingClient();
+      const loader = wordPressPostLoader(createRequestClientResolver(client), {
+        cache: createWordPressMemoryCache(),
+      });
+
+      await runWithWordPressClient(createJwtClient(), () =>
+        loader.loadEntry!({ filter: { slug: 'test-post-001' } } as never),
+      );
+      await loader.loadEntry!({ filter: { slug: 'test-post-001' } } as never);
+
+      const afterPublicRead = getRequestCount();
+
+      await loader.loadEntry!({ filter: { slug: 'missing-post' } } as never);
+
+      const afterMissing = getRequestCount();
+      const missing = (await loader.loadEntry!({
+        filter: { slug: 'missing-post' },
+      } as never)) as { error?: Error };
+
+      expect(afterPublicRead).toBeGreaterThan(0);
+      expect(afterMissing).toBeGreaterThan(afterPublicRead);
+      expect(getRequestCount()).toBeGreaterThan(afterMissing);
+      expect(missing.error).toBeInstanceOf(Error);
+    });
+  });
+
+  describe('filter-aware collection tags', () => {
+    it('scopes taxonomy and author archives to their filter values', async () => {
+      const [post] = await createPublicClient()
+        .content('posts')
+        .list({ perPage: 1 } as never);
+      const categoryId = post.categories[0];
+      const loader = wordPressPostLoader(createPublicClient());
+
+      const archive = (await loader.loadCollection!({
+        filter: { categories: [categoryId], author: post.author },
+      } as never)) as { cacheHint?: { tags?: string[] } };
+      const listing = (await loader.loadCollection!({
+        filter: { perPage: 5 },
+      } as never)) as { cacheHint?: { tags?: string[] } };
+
+      expect(archive.cacheHint?.tags).toEqual(
+        expect.arrayContaining([
+          'wp:resource:posts',
+          `wp:collection:posts:categories:${categoryId}`,
+          `wp:collection:posts:author:${post.author}`,
+        ]),
+      );
+      expect(archive.cacheHint?.tags).not.toContain('wp:collection:posts');
+      expect(listing.cacheHint?.tags).toContain('wp:collection:posts');
+    });
+
+    it('scopes custom taxonomy filters passed as taxonomies', async () => {
+      const loader = wordPressContentLoader(createPublicClient(), {
+        resource: 'books',
+        taxonomies: ['genres'],
+      });
+
+      const result = (await loader.loadCollection!({
+        filter: { genres: 3 },
+      } as never)) as { cacheHint?: { tags?: string[] } };
+
+      expect(result.cacheHint?.tags).toContain('wp:collection:books:genres:3');
+      expect(result.cacheHint?.tags).not.toContain('wp:collection:books');
+    });
+
+    it('fires the terms a post joins or leaves plus unscoped listings', () => {
+      const tags = createContentMembershipInvalidationTags(
+        'posts',
+        { id: 9, status: 'publish', author: 1, categories: [5], tags: [2] },
+        { id: 9, status: 'publish', author: 1, categories: [7], tags: [2] },
+      );
+      const unchanged = createContentMembershipInvalidationTags(
+        'posts',
+        { id: 9, status: 'publish', author: 1, categories: [5] },
+        { id: 9, status: 'publish', author: 1, categories: [5] },
+      );
+      const stuck = createContentMembershipInvalidationTags(
+        'posts',
+        { id: 9, status: 'publish', sticky: false },
+        { id: 9, status: 'publish', sticky: true },
+      );
+
+      expect(tags).toEqual([
+        'wp:entry:posts:9',
+        'wp:collection:posts',
+        'wp:collection:posts:categories:5',
+        'wp:collection:posts:categories:7',
+      ]);
+      expect(unchanged).toEqual(['wp:entry:posts:9']);
+      expect(stuck).toContain('wp:collection:posts');
+    });
+
+    it('fires every listing of both states when visibility changes', () => {
+      const published = createContentMembershipInvalidationTags(
+        'posts',
+        { id: 9, status: 'draft', categories: [5] },
+        { id: 9, status: 'publish', categories: [5] },
+      );
+      const created = createContentMembershipInvalidationTags(
+        'books',
+        undefined,
+        { id: 4, status: 'publish', genres: [3] },
+      );
+
+      expect(published).toEqual(
+        expect.arrayContaining([
+          'wp:collection:posts',
+          'wp:collection:posts:status:draft',
+          'wp:collection:posts:status:publish',
+          'wp:collection:posts:categories:5',
+        ]),
+      );
+      expect(created).toEqual(
+        expect.arrayContaining([
+          'wp:entry:books:4',
+          'wp:collection:books',
+          'wp:collection:books:genres:3',
+        ]),
+      );
+    });
+
+    it('evicts only cached archives of the changed terms', async () => {
+      const [post] = await createPublicClient()
+        .content('posts')
+        .list({ perPage: 1 } as never);
+      const categoryId = post.categories[0];
+      let requestCount = 0;
+      const loader = wordPressPostLoader(
+        new WordPressClient({
+          baseUrl,
+          fetch: async (input, init) => {
+            requestCount += 1;
+            return fetch(input, init);
+          },
+        }),
+        { cache: createWordPressMemoryCache() },
+      );
+
+      await loader.loadCollection!({
+        filter: { categories: [categoryId] },
+      } as never);
+      await loader.loadCollection!({ filter: { author: 999 } } as never);
+
+      const beforeInvalidation = requestCount;
+
+      await invalidateWordPressLiveCaches(
+        createContentMembershipInvalidationTags(
+          'posts',
+          { id: 999999, status: 'publish', categories: [] },
+          { id: 999999, status: 'publish', categories: [categoryId] },
+        ),
+      );
+      await loader.loadCollection!({ filter: { author: 999 } } as never);
+
+      expect(requestCount).toBe(beforeInvalidation);
+
+      await loader.loadCollection!({
+        filter: { categories: [categoryId] },
+      } as never);
+
+      expect(requestCount).toBe(beforeInvalidation + 1);
+    });
+  });
+
+  describe('exclusion listings', () => {
+    it('refreshes a categories_exclude listing after a category move', async () => {
+      const [post] = await createPublicClient()
+        .content('posts')
+        .list({ perPage: 1 } as never);
+      const categoryId = post.categories[0];
+      let requestCount = 0;
+      const loader = wordPressPostLoader(
+        new WordPressClient({
+          baseUrl,
+          fetch: async (input, init) => {
+            requestCount += 1;
+            return fetch(input, init);
+          },
+        }),
+        { cache: createWordPressMemoryCache() },
+      );
+
+      const listing = (await loader.loadCollection!({
+        filter: { categoriesExclude: [categoryId], author: post.author },
+      } as never)) as { cacheHint?: { tags?: string[] } };
+
+      expect(listing.cacheHint?.tags).toEqual(
+        expect.arrayContaining([
+          'wp:collection:posts',
+          `wp:collection:posts:author:${post.author}`,
+        ]),
+      );
+
+      const beforeInvalidation = requestCount;
+
+      await invalidateWordPressLiveCaches(
+        createContentMembershipInvalidationTags(
+          'posts',
+          { id: 999999, status: 'publish', categories: [categoryId] },
+          { id: 999999, status: 'publish', categories: [999998] },
+        ),
+      );
+      await loader.loadCollection!({
+        filter: { categoriesExclude: [categoryId], author: post.author },
+      } as never);
+
+      expect(requestCount).toBe(beforeInvalidation + 1);
+    });
+  });
+
+  describe('batched entry lookups', () => {
+    it('coalesces concurrent ID lookups into one include request', async () => {
+      const posts = await createPublicClient()
+        .content('posts')
+        .list({ perPage: 5 } as never);
+      let requestCount = 0;
+      const loader = wordPressPostLoader(
+        new WordPressClient({
+          baseUrl,
+          fetch: async (input, init) => {
+            requestCount += 1;
+            return fetch(input, init);
+          },
+        }),
+      );
+
+      const results = (await Promise.all(
+        posts.map((post) =>
+          loader.loadEntry!({ filter: { id: post.id } } as never),
+        ),
+      )) as Array<{ id: string; cacheHint?: { tags?: string[] } }>;
+
+      expect(posts).toHaveLength(5);
+      expect(requestCount).toBe(1);
+      expect(results.map((result) => result.id)).toEqual(
+        posts.map((post) => String(post.id)),
+      );
+
+      for (const [index, result] of results.entries()) {
+        expect(result.cacheHint?.tags).toContain(
+          `wp:entry:posts:${posts[index].id}`,
+        );
+      }
+    });
+
+    it('shares in-flight requests for identical filters', async () => {
+      let requestCount = 0;
+      const loader = wordPressPageLoader(
+        new WordPressClient({
+          baseUrl,
+          fetch: async (input, init) => {
+            requestCount += 1;
+            return fetch(input, init);
+          },
+        }),
+      );
+
+      await loader.loadEntry!({ filter: { slug: 'about' } } as never);
+
+      const singleLookupCount = requestCount;
+      const [first, second] = (await Promise.all([
+        loader.loadEntry!({ filter: { slug: 'about' } } as never),
+        loader.loadEntry!({ filter: { slug: 'about' } } as never),
+      ])) as Array<{ id: string; data: { slug: string } }>;
+
+      expect(requestCount).toBe(singleLookupCount * 2);
+      expect(first.id).toBe(second.id);
+      expect(second.data.slug).toBe('about');
+    });
+
+    it('returns not-found errors for missing IDs in one batch', async () => {
+      const [post] = await createPublicClient()
+        .content('posts')
+        .list({ perPage: 1 } as never);
+      const loader = wordPressPostLoader(createPublicClient());
+
+      const [found, missing] = (await Promise.all([
+        loader.loadEntry!({ filter: { id: post.id } } as never),
+        loader.loadEntry!({ filter: { id: 999999 } } as never),
+      ])) as Array<{ id?: string; error?: Error }>;
+
+      expect(found.id).toBe(String(post.id));
+      expect(missing.error).toBeInstanceOf(Error);
+    });
+  });
+
+  describe('field projection', () => {
+    it('requests only the selected fields plus id and cache hint fields', async () => {
+      const requestedUrls: string[] = [];
+      const loader = wordPressPostLoader(
+        new WordPressClient({
+          baseUrl,
+          fetch: async (input, init) => {
+            requestedUrls.push(String(input));
+            return fetch(input, init);
+          },
+        }),
+        { fields: ['slug', 'title'] },
+      );
+
+      const result = await loader.loadCollection!({
+        filter: { perPage: 3 },
+      } as never);
+
+      if ('error' in result && result.error) throw result.error;
+
+      const [url] = requestedUrls;
+      const fields = new URL(url).searchParams.get('_fields')?.split(',');
+
+      expect(fields).toEqual([
+        'id',
+        'slug',
+        'title',
+        'author',
+        'categories',
+        'tags',
+        'featured_media',
+        'modified_gmt',
+        'modified',
+      ]);
+      expect(result.entries.length).toBeGreaterThan(0);
+
+      for (const entry of result.entries) {
+        expect(entry.data).not.toHaveProperty('content');
+        expect(entry.rendered).toBeUndefined();
+      }
+    });
+
+    it('keeps relationship tags and lastModified on projected entries', async () => {
+      const loader = wordPressPostLoader(createPublicClient(), {
+        fields: ['slug', 'title'],
+      });
+      const result = (await loader.loadEntry!({
+        filter: { slug: 'test-post-001' },
+      } as never)) as {
+        data: {
+          id: number;
+          author: number;
+          categories?: number[];
+          tags?: number[];
+        };
+        cacheHint?: { lastModified?: Date; tags?: string[] };
+      };
+
+      expect(result.cacheHint?.lastModified).toBeInstanceOf(Date);
+      expect(result.cacheHint?.tags).toContain(
+        `wp:author:${result.data.author}`,
+      );
+      expect(result.cacheHint?.tags).toContain(
+        `wp:term:category:${result.data.categories?.[0]}`,
+      );
+      expect(result.cacheHint?.tags).toContain(
+        `wp:term:post_tag:${result.data.tags?.[0]}`,
+      );
+    });
+
+    it('keeps the fields embeds and path lookups depend on', async () => {
+      const requestedUrls: string[] = [];
+      const loader = wordPressPageLoader(
+        new WordPressClient({
+          baseUrl,
+          fetch: async (input, init) => {
+            requestedUrls.push(String(input));
+            return fetch(input, init);
+          },
+        }),
+        { fields: ['title'], embed: true },
+      );
+
+      const result = await loader.loadEntry!({
+        filter: { slug: 'about' },
+      } as never);
+
+      if (!result || ('error' in result && result.error)) {
+        throw new Error('Expected the about page.');
+      }
+
+      const fields = new URL(requestedUrls[0]).searchParams
+        .get('_fields')
+        ?.split(',');
+
+      expect(fields).toEqual(
+        expect.arrayContaining(['id', 'title', '_links', '_embedded', 'slug']),
+      );
+      expect(result.data.slug).toBe('about');
+    });
+  });
+
+  describe('resilient reads', () => {
+    /**
+     * Creates one client whose origin can be switched to 503 responses.
+     */
+    function createFlakyClient(): {
+      client: WordPressClient;
+      origin: { down: boolean; requests: number };
+    } {
+      const origin = { down: false, requests: 0 };
+      const client = new WordPressClient({
+        baseUrl,
+        fetch: async (input, init) => {
+          origin.requests += 1;
+
+          return origin.down
+            ? new Response('Service Unavailable', { status: 503 })
+            : fetch(input, init);
+        },
+      });
+
+      return { client, origin };
+    }
+
+    it('retries transient failures with backoff', async () => {
+      let failuresLeft = 1;
+      let requestCount = 0;
+      const loader = wordPressPageLoader(
+        new WordPressClient({
+          baseUrl,
+          fetch: async (input, init) => {
+            requestCount += 1;
+
+            if (failuresLeft > 0) {
+              failuresLeft -= 1;
+              return new Response('Bad Gateway', { status: 502 });
+            }
+
+            return fetch(input, init);
+          },
+        }),
+        { resilience: { retries: 2, retryDelay: 1 } },
+      );
+
+      const result = (await loader.loadEntry!({
+        filter: { slug: 'about' },
+      } as never)) as { data?: { slug: string }; error?: Error };
+
+      expect(result.error).toBeUndefined();
+      expect(result.data?.slug).toBe('about');
+      expect(requestCount).toBe(2);
+    });
+
+    it('fails reads that exceed the timeout', async () => {
+      const loader = wordPressPostLoader(
+        new WordPressClient({
+          baseUrl,
+          fetch: async (input, init) => {
+            await new Promise((resolve) => setTimeout(resolve, 200));
+            return fetch(input, init);
+          },
+        }),
+        { resilience: { timeout: 20 } },
+      );
+
+      const result = (await loader.loadCollection!({
+        filter: { perPage: 1 },
+      } as never)) as { error?: Error };
+
+      expect(result.error?.message).toContain('timed out');
+    });
+
+    it('stops calling WordPress while the circuit is open', async () => {
+      const { client, origin } = createFlakyClient();
+      const loader = wordPressPostLoader(client, {
+        resilience: {
+          circuitBreaker: { failureThreshold: 2, resetTimeout: 60_000 },
+        },
+      });
+
+      origin.down = true;
+
+      for (let read = 0; read < 2; read += 1) {
+        await loader.loadCollection!({ filter: { perPage: 1 } } as never);
+      }
+
+      const requestsBeforeOpenRead = origin.requests;
+      const result = (await loader.loadCollection!({
+        filter: { perPage: 1 },
+      } as never)) as { error?: Error };
+
+      expect(result.error?.message).toContain('circuit is open');
+      expect(origin.requests).toBe(requestsBeforeOpenRead);
+    });
+
+    it('serves the last-known-good result marked as stale', async () => {
+      const { client, origin } = createFlakyClient();
+      const loader = wordPressPostLoader(client, {
+        resilience: { fallback: true },
+      });
+
+      const fresh = (await loader.loadCollection!({
+        filter: { perPage: 2 },
+      } as never)) as {
+        entries: Array<{ id: string }>;
+        cacheHint?: { tags?: string[] };
+      };
+
+      origin.down = true;
+
+      const filter = { perPage: 2 };
+      const stale = (await loader.loadCollection!({ filter } as never)) as {
+        entries: Array<{ id: string; cacheHint?: unknown }>;
+        cacheHint?: unknown;
+        error?: Error;
+      };
+
+      expect(fresh.cacheHint?.tags).toContain('wp:resource:posts');
+      expect(stale.error).toBeUndefined();
+      expect(stale.entries.map((entry) => entry.id)).toEqual(
+        fresh.entries.map((entry) => entry.id),
+      );
+      expect(stale.cacheHint).toBeUndefined();
+      expect(stale.entries[0].cacheHint).toBeUndefined();
+      expect(getWordPressStaleResult(filter)?.error).toBeInstanceOf(Error);
+    });
+
+    it('does not fall back for filters that never loaded', async () => {
+      const { client, origin } = createFlakyClient();
+      const loader = wordPressPostLoader(client, {
+        resilience: { fallback: true },
+      });
+
+      origin.down = true;
+
+      const result = (await loader.loadCollection!({
+        filter: { perPage: 3 },
+      } as never)) as { error?: Error };
+
+      expect(result.error).toBeInstanceOf(Error);
+    });
+  });
+
+  describe('typed loader errors', () => {
+    /**
+     * Creates one client whose every request answers with one WordPress error.
+     */
+    function createErrorClient(status: number, code: string): WordPressClient {
+      return new WordPressClient({
+        baseUrl,
+        fetch: async () =>
+          Response.json(
+            { code, message: `WordPress error ${status}`, data: { status } },
+            { status },
+          ),
+      });
+    }
+
+    it('returns not-found errors with status, resource and filter', async () => {
+      const loader = wordPressPostLoader(createPublicClient());
+      const filter = { slug: 'missing-post-slug-for-errors' };
+
+      const result = (await loader.loadEntry!({ filter } as never)) as {
+        error?: WordPressLoaderError;
+      };
+
+      expect(result.error).toBeInstanceOf(WordPressNotFoundError);
+      expect(result.error?.status).toBe(404);
+      expect(result.error?.code).toBe('not_found');
+      expect(result.error?.resource).toBe('posts');
+      expect(result.error?.filter).toEqual(filter);
+      expect(LiveEntryNotFoundError.is(result.error)).toBe(true);
+    });
+
+    it.each([
+      [401, 'rest_not_logged_in', WordPressUnauthorizedError],
+      [403, 'rest_forbidden', WordPressForbiddenError],
+      [503, 'service_unavailable', WordPressUpstreamError],
+    ])(
+      'maps HTTP %i responses onto loader errors',
+      async (status, code, ErrorClass) => {
+        const loader = wordPressPageLoader(createErrorClient(status, code));
+
+        const result = (await loader.loadCollection!({
+          filter: { perPage: 1 },
+        } as never)) as { error?: WordPressLoaderError };
+
+        expect(result.error).toBeInstanceOf(ErrorClass);
+        expect(result.error?.status).toBe(status);
+        expect(result.error?.resource).toBe('pages');
+      },
+    );
+
+    it('reports failing mappers as generic loader errors', async () => {
+      const loader = wordPressPostLoader(createPublicClient(), {
+        mapEntry: () => {
+          throw new Error('Mapper failed');
+        },
+      });
+
+      const result = (await loader.loadCollection!({
+        filter: { perPage: 1 },
+      } as never)) as { error?: WordPressLoaderError };
+
+      expect(result.error).toBeInstanceOf(WordPressLoaderError);
+      expect(result.error?.code).toBe('loader_failed');
+      expect(result.error?.status).toBe(500);
+      expect(result.error?.message).toBe('Mapper failed');
+    });
+  });
+
+  describe('wordPressSearchLoader', () => {
+    type SearchData = {
+      id: number;
+      title: string;
+      type: string;
+      subtype: string;
+      resource: string;
+      entry?: { id: number; slug?: string };
+    };
+
+    it('returns mixed post types with a subtype discriminator and paging metadata', async () => {
+      const loader = wordPressSearchLoader(createPublicClient());
+      const filter = { search: '001', perPage: 5 };
+      const result = (await loader.loadCollection!({ filter } as never)) as {
+        entries: Array<{
+          id: string;
+          data: SearchData;
+          cacheHint?: { tags?: string[] };
+        }>;
+        pagination?: { page: number; perPage: number; total: number };
+      };
+
+      const post = result.entries.find(
+        (entry) => entry.data.subtype === 'post',
+      );
+      const book = result.entries.find(
+        (entry) => entry.data.subtype === 'book',
+      );
+
+      expect(post?.id).toBe(`posts:${post?.data.id}`);
+      expect(book?.data.resource).toBe('books');
+      expect(result.entries.every((entry) => entry.data.type === 'post')).toBe(
+        true,
+      );
+      expect(result.pagination?.page).toBe(1);
+      expect(result.pagination?.perPage).toBe(5);
+      expect(result.pagination?.total).toBeGreaterThanOrEqual(2);
+      expect(getWordPressPagination(filter)).toEqual(result.pagination);
+      expect(post?.cacheHint?.tags).toContain(
+        `wp:entry:posts:${post?.data.id}`,
+      );
+      expect(book?.cacheHint?.tags).toContain(
+        `wp:entry:books:${book?.data.id}`,
+      );
+    });
+
+    it('searches terms and tags them by taxonomy', async () => {
+      const loader = wordPressSearchLoader(createPublicClient());
+      const result = (await loader.loadCollection!({
+        filter: { search: 'Technology', type: 'term' },
+      } as never)) as {
+        entries: Array<{
+          id: string;
+          data: SearchData;
+          cacheHint?: { tags?: string[] };
+        }>;
+      };
+
+      const category = result.entries.find(
+        (entry) => entry.data.subtype === 'category',
+      );
+
+      expect(category?.id).toBe(`categories:${category?.data.id}`);
+      expect(category?.cacheHint?.tags).toContain(
+        `wp:term:category:${category?.data.id}`,
+      );
+    });
+
+    it('hydrates full entries per result when enabled', async () => {
+      const loader = wordPressSearchLoader(createPublicClient(), {
+        hydrate: true,
+      });
+      const result = (await loader.loadCollection!({
+        filter: { search: '001' },
+      } as never)) as {
+        entries: Array<{ data: SearchData }>;
+      };
+
+      expect(result.entries.length).toBeGreaterThan(0);
+
+      for (const entry of result.entries) {
+        expect(entry.data.entry?.id).toBe(entry.data.id);
+      }
+    });
+
+    it('loads one result by its resource-qualified id', async () => {
+      const loader = wordPressSearchLoader(createPublicClient());
+      const collection = (await loader.loadCollection!({
+        filter: { search: '001', subtype: 'post' },
+      } as never)) as {
+        entries: Array<{ id: string; data: SearchData }>;
+      };
+      const result = (await loader.loadEntry!({
+        filter: { id: collection.entries[0].id },
+      } as never)) as {
+        id: string;
+        data: SearchData;
+      };
+
+      expect(result.id).toBe(collection.entries[0].id);
+      expect(result.data.title).toBe(collection.entries[0].data.title);
+    });
+  });
+
+  describe('wordPressCommentLoader', () => {
+    type CommentData = {
+      id: number;
+      post: number;
+      content: { rendered: string };
+      replies?: CommentData[];
+    };
+
+    /**
+     * Resolves the seeded post that carries the comment fixtures.
+     */
+    async function getCommentedPostId(): Promise<number> {
+      const post = await createPublicClient()
+        .content('posts')
+        .item('test-post-001');
+
+      return post!.id;
+    }
+
+    it('loads approved comments for one post with rendered html', async () => {
+      const postId = await getCommentedPostId();
+      const loader = wordPressCommentLoader(createPublicClient());
+      const result = (await loader.loadCollection!({
+        filter: { post: postId },
+      } as never)) as {
+        entries: Array<{
+          id: string;
+          data: CommentData;
+          rendered?: { html: string };
+        }>;
+      };
+
+      expect(result.entries).toHaveLength(3);
+      expect(result.entries.every((entry) => entry.data.post === postId)).toBe(
+        true,
+      );
+      expect(result.entries[0].id).toBe(String(result.entries[0].data.id));
+      expect(result.entries[0].rendered?.html).toBe(
+        result.entries[0].data.content.rendered,
+      );
+    });
+
+    it('includes held comments when filtering by status with auth', async () => {
+      const postId = await getCommentedPostId();
+      const loader = wordPressCommentLoader(createJwtClient());
+      const result = (await loader.loadCollection!({
+        filter: { post: postId, status: 'hold' },
+      } as never)) as {
+        entries: Array<{ data: CommentData }>;
+      };
+
+      expect(result.entries).toHaveLength(1);
+      expect(result.entries[0].data.content.rendered).toContain(
+        'Pending comment',
+      );
+    });
+
+    it('assembles replies into threads when threaded', async () => {
+      const postId = await getCommentedPostId();
+      const loader = wordPressCommentLoader(createPublicClient(), {
+        threaded: true,
+      });
+      const result = (await loader.loadCollection!({
+        filter: { post: postId },
+      } as never)) as {
+        entries: Array<{ data: CommentData }>;
+      };
+
+      const first = result.entries.find((entry) =>
+        entry.data.content.rendered.includes('First comment'),
+      );
+
+      expect(result.entries).toHaveLength(2);
+      expect(first?.data.replies).toHaveLength(1);
+      expect(first?.data.replies?.[0].content.rendered).toContain(
+        'Reply to first comment',
+      );
+    });
+
+    it('tags comments with their parent post and per-post comment tag', async () => {
+      const postId = await getCommentedPostId();
+      const loader = wordPressCommentLoader(createPublicClient());
+      const collection = (await loader.loadCollection!({
+        filter: { post: postId },
+      } as never)) as {
+        entries: Array<{ data: CommentData }>;
+        cacheHint?: { tags?: string[] };
+      };
+      const result = (await loader.loadEntry!({
+        filter: { id: collection.entries[0].data.id },
+      } as never)) as {
+        data: CommentData;
+        cacheHint?: { tags?: string[] };
+      };
+
+      expect(collection.cacheHint?.tags).toContain(
+        `wp:post-comments:${postId}`,
+      );
+      expect(result.cacheHint?.tags).toContain(
+        `wp:entry:comments:${result.data.id}`,
+      );
+      expect(result.cacheHint?.tags).toContain(`wp:entry:posts:${postId}`);
+      expect(result.cacheHint?.tags).toContain(`wp:post-comments:${postId}`);
+    });
+  });
+
+  describe('wordPressSettingsLoader', () => {
+    type SettingsData = {
+      id: string;
+      title: string;
+      url: string;
+      timezone: string;
+      date_format?: string;
+      show_on_front?: string;
+      authenticated: boolean;
+    };
+
+    it('returns public site identity as one singleton entry', async () => {
+      const loader = wordPressSettingsLoader(createPublicClient());
+      const result = (await loader.loadCollection!({
+        filter: undefined,
+      } as never)) as {
+        entries: Array<{ id: string; data: SettingsData }>;
+        cacheHint?: { tags?: string[] };
+      };
+
+      expect(result.entries).toHaveLength(1);
+      expect(result.entries[0].id).toBe('site');
+      expect(result.entries[0].data.title.length).toBeGreaterThan(0);
+      expect(result.entries[0].data.url).toMatch(/^https?:\/\//);
+      expect(result.entries[0].data.authenticated).toBe(false);
+      expect(result.entries[0].data.date_format).toBeUndefined();
+      expect(result.cacheHint?.tags).toContain('wp:settings');
+    });
+
+    it('reports the singleton collection as one page', async () => {
+      const loader = wordPressSettingsLoader(createPublicClient());
+      const result = (await loader.loadCollection!({
+        filter: undefined,
+      } as never)) as {
+        pagination?: { page: number; total: number; totalPages: number };
+      };
+
+      expect(result.pagination).toMatchObject({
+        page: 1,
+        total: 1,
+        totalPages: 1,
+      });
+    });
+
+    it('merges authenticated settings when credentials are available', async () => {
+      const loader = wordPressSettingsLoader(createJwtClient());
+      const result = (await loader.loadEntry!({
+        filter: { id: 'site' },
+      } as never)) as {
+        data: SettingsData;
+        cacheHint?: { tags?: string[] };
+      };
+
+      expect(result.data.authenticated).toBe(true);
+      expect(typeof result.data.date_format).toBe('string');
+      expect(['posts', 'page']).toContain(result.data.show_on_front);
+      expect(result.cacheHint?.tags).toEqual(['wp', 'wp:settings']);
+    });
+  });
+
+  describe('wordPressMenuLoader', () => {
+    type MenuItemData = {
+      title: string;
+      object: string;
+      objectId?: number;
+      path?: string;
+      children: MenuItemData[];
+    };
+
+    it('returns menus with nested item trees', async () => {
+      const loader = wordPressMenuLoader(createJwtClient());
+      const result = (await loader.loadCollection!({
+        filter: undefined,
+      } as never)) as {
+        entries: Array<{
+          id: string;
+          data: { id: number; slug: string; items: MenuItemData[] };
+        }>;
+      };
+
+      const menu = result.entries.find(
+        (entry) => entry.data.slug === 'main-navigation',
+      );
+
+      expect(menu?.id).toBe(String(menu?.data.id));
+      expect(menu?.data.items.map((item) => item.title)).toEqual([
+        'Home',
+        'About',
+        'Services',
+        'Technology',
+      ]);
+
+      const about = menu?.data.items.find((item) => item.title === 'About');
+      expect(about?.children.map((item) => item.title)).toEqual(['Team']);
+      expect(about?.object).toBe('page');
+      expect(about?.objectId).toBeGreaterThan(0);
+    });
+
+    it('resolves object paths and references for linked items', async () => {
+      const loader = wordPressMenuLoader(createJwtClient());
+      const result = (await loader.loadEntry!({
+        filter: { slug: 'main-navigation' },
+      } as never)) as {
+        data: { items: MenuItemData[] };
+      };
+
+      const home = result.data.items.find((item) => item.title === 'Home');
+      const technology = result.data.items.find(
+        (item) => item.title === 'Technology',
+      );
+
+      expect(home?.object).toBe('custom');
+      expect(home?.path).toBeUndefined();
+      expect(technology?.object).toBe('category');
+      expect(technology?.path?.startsWith('/')).toBe(true);
+    });
+
+    it('resolves one menu by theme location with per-menu cache tags', async () => {
+      const loader = wordPressMenuLoader(createJwtClient());
+      const result = (await loader.loadEntry!({
+        filter: { location: 'primary' },
+      } as never)) as {
+        data: { id: number; slug: string; locations: string[] };
+        cacheHint?: { tags?: string[] };
+      };
+
+      expect(result.data.slug).toBe('main-navigation');
+      expect(result.data.locations).toContain('primary');
+      expect(result.cacheHint?.tags).toContain(
+        `wp:entry:menus:${result.data.id}`,
+      );
+      expect(result.cacheHint?.tags).toContain('wp:menu-location:primary');
+    });
+
+    it('returns an error result for unknown menu locations', async () => {
+      const loader = wordPressMenuLoader(createJwtClient());
+      const result = (await loader.loadEntry!({
+        filter: { location: 'footer' },
+      } as never)) as { error?: Error };
+
+      expect(result.error).toBeInstanceOf(Error);
+    });
+  });
+
   describe('wordPressContentLoader', () => {
     it('loads custom post type collection through resource config', async () => {
       const loader = wordPressContentLoader(createPublicClient(), {
@@ -0,0 +1,198 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createWordPressPreviewToken } from '../../../src/server/preview';
+import { getAstroDevUrl } from '../../helpers/action-client';
+import { getBaseUrl } from '../../helpers/wp-client';
+
+/**
+ * Sends one JWT-authenticated REST request to WordPress.
+ */
+async function wpRequest<T>(
+  path: string,
+  method: string,
+  body?: Record<string, unknown>,
+): Promise<T> {
+  const response = await fetch(`${getBaseUrl()}/wp-json/wp/v2/${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${process.env.WP_JWT_TOKEN!}`,
+      'Content-Type': 'application/json',
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    throw new Error(`${method} ${path} failed: ${await response.text()}`);
+  }
+
+  return (await response.json()) as T;
+}
+
+/**
+ * Extracts the `name=value` pair of the preview cookie from one response.
+ */
+function getPreviewCookie(response: Response): string | undefined {
+  return response.headers
+    .getSetCookie()
+    .find((cookie) => cookie.startsWith('wp_astro_preview='));
+}
+
+/**
+ * Runtime tests for the draft preview routes injected by `wordpress({ preview })`.
+ */
+describe('Draft Preview: Astro runtime', () => {
+  const secret = process.env.WP_PREVIEW_SECRET!;
+  let publishedId: number;
+  let draftId: number;
+
+  beforeAll(async () => {
+    const published = await wpRequest<{ id: number }>('posts', 'POST', {
+      title: 'Preview published title',
+      content: 'Published body',
+      status: 'publish',
+    });
+    const draft = await wpRequest<{ id: number }>('posts', 'POST', {
+      title: 'Preview draft title',
+      content: 'Draft body',
+      status: 'draft',
+    });
+
+    publishedId = published.id;
+    draftId = draft.id;
+
+    await wpRequest(`posts/${publishedId}/autosaves`, 'POST', {
+      title: 'Preview autosaved title',
+      content: 'Autosaved body',
+    });
+  });
+
+  afterAll(async () => {
+    for (const id of [publishedId, draftId]) {
+      if (id) {
+        await wpRequest(`posts/${id}?force=true`, 'DELETE').catch(
+          () => undefined,
+        );
+      }
+    }
+  });
+
+  /**
+   * Starts preview mode for one post and returns the preview cookie pair.
+   */
+  async function enterPreview(id: number): Promise<string> {
+    const token = await createWordPressPreviewToken(
+      { resource: 'posts', id },
+      secret,
+    );
+    const response = await fetch(
+      `${getAstroDevUrl()}/api/wp-preview?token=${token}&redirect=${encodeURIComponent(`/live-preview?id=${id}`)}`,
+      { redirect: 'manual' },
+    );
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get('location')).toBe(`/live-preview?id=${id}`);
+
+    const cookie = getPreviewCookie(response);
+    expect(cookie).toContain('HttpOnly');
+
+    return cookie!.split(';')[0];
+  }
+
+  it('rejects invalid preview tokens', async () => {
+    const forged = await createWordPressPreviewToken(
+      { resource: 'posts', id: publishedId },
+      'not-the-preview-secret',
+    );
+    const response = await fetch(
+      `${getAstroDevUrl()}/api/wp-preview?token=${forged}`,
+      { redirect: 'manual' },
+    );
+
+    expect(response.status).toBe(401);
+    expect(getPreviewCookie(response)).toBeUndefined();
+  });
+
+  it('serves the latest autosave of a published post without cache hints', async () => {
+    const cookie = await enterPreview(publishedId);
+    const response = await fetch(
+      `${getAstroDevUrl()}/live-preview?id=${publishedId}`,
+      { headers: { Cookie: cookie } },
+    );
+    const html = await response.text();
+
+    expect(html).toContain('Preview autosaved title');
+    expect(html).toContain('<p id="live-preview-cache-tags"></p>');
+    expect(response.headers.get('cache-control')).toBe('private, no-store');
+  });
+
+  it('keeps serving the published post outside preview mode', async () => {
+    const response = await fetch(
+      `${getAstroDevUrl()}/live-preview?id=${publishedId}`,
+    );
+    const html = await response.text();
+
+    expect(html).toContain('Preview published title');
+    expect(html).toContain(`wp:entry:posts:${publishedId}`);
+  });
+
+  it('serves unpublished drafts by id in preview mode only', async () => {
+    const cookie = await enterPreview(draftId);
+    const previewHtml = await (
+      await fetch(`${getAstroDevUrl()}/live-preview?id=${draftId}`, {
+        headers: { Cookie: cookie },
+      })
+    ).text();
+    const publicHtml = await (
+      await fetch(`${getAstroDevUrl()}/live-preview?id=${draftId}`)
+    ).text();
+
+    expect(previewHtml).toContain('Preview draft title');
+    expect(previewHtml).toContain('data-status="draft"');
+    expect(publicHtml).toContain('id="live-preview-error"');
+  });
+
+  it('accepts a WordPress REST nonce with the editor cookies', async () => {
+    const response = await fetch(
+      `${getAstroDevUrl()}/api/wp-preview?resource=posts&id=${draftId}&nonce=${process.env.WP_REST_NONCE}`,
+      {
+        redirect: 'manual',
+        headers: { Cookie: process.env.WP_COOKIE_AUTH_HEADER! },
+      },
+    );
+    const rejected = await fetch(
+      `${getAstroDevUrl()}/api/wp-preview?resource=posts&id=${draftId}&nonce=invalid`,
+      {
+        redirect: 'manual',
+        headers: { Cookie: process.env.WP_COOKIE_AUTH_HEADER! },
+      },
+    );
+
+    expect(response.status).toBe(302);
+    expect(getPreviewCookie(response)).toBeDefined();
+    expect(rejected.status).toBe(401);
+  });
+
+  it('clears the preview cookie on the exit route', async () => {
+    const cookie = await enterPreview(publishedId);
+    const response = await fetch(
+      `${getAstroDevUrl()}/api/wp-preview/exit?redirect=/live-preview`,
+      { redirect: 'manual', headers: { Cookie: cookie } },
+    );
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get('location')).toBe('/live-preview');
+    expect(getPreviewCookie(response)).toMatch(/Max-Age=0|Expires=/i);
+  });
+
+  it.each(['/\\evil.com', '/%09/evil.com'])(
+    'keeps exit redirects to %s on the current site',
+    async (redirect) => {
+      const response = await fetch(
+        `${getAstroDevUrl()}/api/wp-preview/exit?redirect=${redirect}`,
+        { redirect: 'manual' },
+      );
+
+      expect(response.status).toBe(302);
+      expect(response.headers.get('location')).toBe('/');
+    },
+  );
+});
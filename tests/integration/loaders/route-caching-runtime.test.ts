@@ -1,7 +1,19 @@
-import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createServer } from 'node:http';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+  createWordPressHashedSurrogateKey,
+  formatWordPressSurrogateKeyHeader,
+  purgeWordPressCdnCaches,
+  registerWordPressCdnPurgeAdapter,
+} from '../../../src/cache/cdn';
+import {
+  createCloudflarePurgeAdapter,
+  createFastlyPurgeAdapter,
+} from '../../../src/cache/purge-adapters';
 import { callAction } from '../../helpers/action-client';
 import { startAstroPreviewServer } from '../../helpers/astro-preview';
 import { request } from '../../helpers/http-client';
+import { getBaseUrl } from '../../helpers/wp-client';
 
 type PreviewSession = Awaited<ReturnType<typeof startAstroPreviewServer>>;
 
@@ -21,6 +33,24 @@ type CachedPostEntryResponse = {
   renderToken: string;
 };
 
+type WebhookDelivery = {
+  headers: Record<string, string>;
+  body: string;
+};
+
+type PurgeRequest = {
+  method: string;
+  path: string;
+  headers: Record<string, string | string[] | undefined>;
+  body: string;
+};
+
+type PurgeStandIn = {
+  url: string;
+  requests: PurgeRequest[];
+  stop: () => Promise<void>;
+};
+
 type UserProfileResponse = {
   renderToken: string;
   user: {
@@ -91,6 +121,117 @@ async function fetchCachedPostEntry(
   return response.json();
 }
 
+/**
+ * Sends one JWT-authenticated REST request to WordPress.
+ */
+async function wpRequest<T>(
+  path: string,
+  method: string,
+  body?: Record<string, unknown>,
+): Promise<T> {
+  const response = await request(`${getBaseUrl()}/wp-json/${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${process.env.WP_JWT_TOKEN!}`,
+      'Content-Type': 'application/json',
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    throw new Error(`${method} ${path} failed: ${await response.text()}`);
+  }
+
+  return (await response.json()) as T;
+}
+
+/**
+ * Returns the latest signed webhook the test mu-plugin emitted for one entry.
+ */
+async function findWebhookDelivery(
+  entity: string,
+  id: number,
+): Promise<WebhookDelivery> {
+  const outbox = await wpRequest<WebhookDelivery[]>(
+    'wp-astrojs-integration/v1/webhooks',
+    'GET',
+  );
+  const delivery = [...outbox].reverse().find((candidate) => {
+    const payload = JSON.parse(candidate.body) as {
+      entity: string;
+      id: number;
+    };
+
+    return payload.entity === entity && payload.id === id;
+  });
+
+  if (!delivery) {
+    throw new Error(`No ${entity} webhook was emitted for ${id}.`);
+  }
+
+  return delivery;
+}
+
+/**
+ * Replays one webhook delivery against the injected webhook route.
+ */
+async function sendWebhook(
+  baseUrl: string,
+  delivery: WebhookDelivery,
+): Promise<Response> {
+  return request(`${baseUrl}/api/wp-webhook`, {
+    method: 'POST',
+    headers: delivery.headers,
+    body: delivery.body,
+  });
+}
+
+/**
+ * Starts one local HTTP server standing in for a CDN purge API. Requests
+ * below `/fail` are rejected so adapters can be checked for error handling.
+ */
+async function startPurgeStandIn(): Promise<PurgeStandIn> {
+  const requests: PurgeRequest[] = [];
+  const server = createServer((incoming, outgoing) => {
+    const chunks: Buffer[] = [];
+
+    incoming.on('data', (chunk: Buffer) => chunks.push(chunk));
+    incoming.on('end', () => {
+      const path = incoming.url ?? '/';
+
+      requests.push({
+        method: incoming.method ?? 'GET',
+        path,
+        headers: incoming.headers,
+        body: Buffer.concat(chunks).toString('utf8'),
+      });
+      const rejected = path.startsWith('/fail');
+
+      outgoing.statusCode = rejected ? 500 : 200;
+      outgoing.end(rejected ? 'purge rejected' : '{"success":true}');
+    });
+  });
+
+  await new Promise<void>((resolve) => {
+    server.listen(0, '127.0.0.1', () => resolve());
+  });
+
+  const address = server.address();
+
+  if (!address || typeof address === 'string') {
+    throw new Error('Failed to start the CDN purge stand-in.');
+  }
+
+  return {
+    url: `http://127.0.0.1:${address.port}`,
+    requests,
+    stop: () =>
+      new Promise<void>((resolve) => {
+        server.close(() => resolve());
+      }),
+  };
+}
+
 async function fetchUserProfilePersonalized(
   baseUrl: string,
   authHeader: string,
@@ -120,13 +261,18 @@ describe('Route Caching: Astro preview runtime', () => {
   const basicAuth = `Basic ${btoa(`admin:${process.env.WP_APP_PASSWORD!}`)}`;
 
   let previewSession: PreviewSession;
+  let purgeStandIn: PurgeStandIn;
 
   beforeAll(async () => {
+    purgeStandIn = await startPurgeStandIn();
+    process.env.WP_CDN_PURGE_URL = `${purgeStandIn.url}/ban`;
     previewSession = await startAstroPreviewServer();
   });
 
   afterAll(async () => {
     await previewSession?.stop();
+    await purgeStandIn?.stop();
+    delete process.env.WP_CDN_PURGE_URL;
   });
 
   it('caches live content responses and invalidates them through the content cache action', async () => {
@@ -351,6 +497,597 @@ describe('Route Caching: Astro preview runtime', () => {
     }
   });
 
+  it('invalidates deduplicated tags in chunks and reports each bulk item', async () => {
+    const firstResponse = await request(
+      `${previewSession.baseUrl}/live-cached-book`,
+    );
+    const firstHtml = await firstResponse.text();
+    const firstToken = extractRenderToken(firstHtml);
+    const originalTitle = extractDataAttribute(firstHtml, 'data-book-title');
+
+    const idMatch = firstHtml.match(/data-book-id="(\d+)"/);
+    expect(idMatch).not.toBeNull();
+
+    const bookId = Number.parseInt(idMatch![1], 10);
+    const updatedTitle = `Bulk cache title ${Date.now()}`;
+
+    try {
+      await callAction(
+        'updateBook',
+        { id: bookId, title: updatedTitle },
+        {
+          authHeader: basicAuth,
+          baseUrl: previewSession.baseUrl,
+        },
+      );
+
+      const cachedResponse = await request(
+        `${previewSession.baseUrl}/live-cached-book`,
+      );
+      expect(extractRenderToken(await cachedResponse.text())).toBe(firstToken);
+
+      const result = await callAction<{
+        invalidated: boolean;
+        tags: string[];
+        items: Array<{ index: number; status: string; error?: string }>;
+      }>(
+        'wpCacheBulkInvalidate',
+        {
+          items: [
+            { entity: 'post', id: bookId, post_type: 'book' },
+            { entity: 'tag', tag: `wp:entry:books:${bookId}` },
+            { entity: 'resource', resource: 'books' },
+            { entity: 'taxonomy', taxonomy: 'genre' },
+            { entity: 'post', id: bookId, post_type: 'missing_type' },
+          ],
+        },
+        {
+          authHeader: basicAuth,
+          baseUrl: previewSession.baseUrl,
+        },
+      );
+
+      expect(result.invalidated).toBe(false);
+      expect(result.tags).toEqual([
+        `wp:entry:books:${bookId}`,
+        'wp:resource:books',
+        'wp:taxonomy:genre',
+      ]);
+      expect(result.items.map((item) => item.status)).toEqual([
+        'invalidated',
+        'invalidated',
+        'invalidated',
+        'invalidated',
+        'failed',
+      ]);
+      expect(result.items[4].error).toContain('missing_type');
+
+      const refreshedResponse = await request(
+        `${previewSession.baseUrl}/live-cached-book`,
+      );
+      const refreshedHtml = await refreshedResponse.text();
+
+      expect(extractRenderToken(refreshedHtml)).not.toBe(firstToken);
+      expect(refreshedHtml).toContain(`data-book-title="${updatedTitle}"`);
+    } finally {
+      await callAction(
+        'updateBookInvalidatingCache',
+        { id: bookId, title: originalTitle },
+        {
+          authHeader: basicAuth,
+          baseUrl: previewSession.baseUrl,
+        },
+      ).catch(() => undefined);
+    }
+  });
+
+  it('invalidates cached live content from update actions created with invalidateCache', async () => {
+    const firstResponse = await request(
+      `${previewSession.baseUrl}/live-cached-book`,
+    );
+    const firstHtml = await firstResponse.text();
+    const firstToken = extractRenderToken(firstHtml);
+    const originalTitle = extractDataAttribute(firstHtml, 'data-book-title');
+
+    const idMatch = firstHtml.match(/data-book-id="(\d+)"/);
+    expect(idMatch).not.toBeNull();
+
+    const bookId = Number.parseInt(idMatch![1], 10);
+    const updatedTitle = `Write action cache title ${Date.now()}`;
+
+    try {
+      const secondResponse = await request(
+        `${previewSession.baseUrl}/live-cached-book`,
+      );
+      expect(extractRenderToken(await secondResponse.text())).toBe(firstToken);
+
+      const updated = await callAction<{
+        id: number;
+        cacheInvalidation?: {
+          invalidated: boolean;
+          resource: string;
+          tags: string[];
+        };
+      }>(
+        'updateBookInvalidatingCache',
+        {
+          id: bookId,
+          title: updatedTitle,
+        },
+        {
+          authHeader: basicAuth,
+          baseUrl: previewSession.baseUrl,
+        },
+      );
+
+      expect(updated.id).toBe(bookId);
+      expect(updated.cacheInvalidation?.invalidated).toBe(true);
+      expect(updated.cacheInvalidation?.resource).toBe('books');
+      expect(updated.cacheInvalidation?.tags).toContain(
+        `wp:entry:books:${bookId}`,
+      );
+      expect(updated.cacheInvalidation?.tags).not.toContain(
+        'wp:collection:books',
+      );
+
+      const thirdResponse = await request(
+        `${previewSession.baseUrl}/live-cached-book`,
+      );
+      const thirdHtml = await thirdResponse.text();
+
+      expect(extractRenderToken(thirdHtml)).not.toBe(firstToken);
+      expect(thirdHtml).toContain(`data-book-title="${updatedTitle}"`);
+    } finally {
+      await callAction(
+        'updateBookInvalidatingCache',
+        {
+          id: bookId,
+          title: originalTitle,
+        },
+        {
+          authHeader: basicAuth,
+          baseUrl: previewSession.baseUrl,
+        },
+      ).catch(() => undefined);
+    }
+  });
+
+  it('queues warming of routes that rendered with invalidated tags and lists them in the action result', async () => {
+    const firstResponse = await request(
+      `${previewSession.baseUrl}/live-cached-book`,
+    );
+    const firstHtml = await firstResponse.text();
+    const firstToken = extractRenderToken(firstHtml);
+    const idMatch = firstHtml.match(/data-book-id="(\d+)"/);
+    expect(idMatch).not.toBeNull();
+
+    const bookId = Number.parseInt(idMatch![1], 10);
+
+    await resetRouteCacheMetrics(previewSession.baseUrl);
+
+    const invalidation = await callAction<{
+      invalidated: boolean;
+      tags: string[];
+      warmed: string[];
+    }>(
+      'wpCacheInvalidate',
+      {
+        id: bookId,
+        entity: 'post',
+        post_type: 'book',
+      },
+      {
+        authHeader: basicAuth,
+        baseUrl: previewSession.baseUrl,
+      },
+    );
+
+    expect(invalidation.invalidated).toBe(true);
+    expect(invalidation.warmed.map((url) => new URL(url).pathname)).toContain(
+      '/live-cached-book',
+    );
+
+    // The background warm request renders the route once before any visitor.
+    const warmFetches = await vi.waitFor(
+      async () => {
+        const metrics = await getRouteCacheMetrics(previewSession.baseUrl);
+        const fetches = metrics.entries['books:slug:test-book-001'];
+
+        expect(fetches).toBeGreaterThan(0);
+        return fetches;
+      },
+      { timeout: 10_000, interval: 100 },
+    );
+    // Let the warm render finish storing the route before visiting it.
+    await new Promise((resolve) => setTimeout(resolve, 250));
+
+    const warmedResponse = await request(
+      `${previewSession.baseUrl}/live-cached-book`,
+    );
+    const warmedToken = extractRenderToken(await warmedResponse.text());
+    const metricsAfterVisit = await getRouteCacheMetrics(
+      previewSession.baseUrl,
+    );
+
+    expect(warmedToken).not.toBe(firstToken);
+    expect(metricsAfterVisit.entries['books:slug:test-book-001']).toBe(
+      warmFetches,
+    );
+  });
+
+  it('records routes that load live data in child components for warming', async () => {
+    const response = await request(
+      `${previewSession.baseUrl}/live-component-book`,
+    );
+    const idMatch = (await response.text()).match(/data-book-id="(\d+)"/);
+    expect(idMatch).not.toBeNull();
+
+    const invalidation = await callAction<{
+      invalidated: boolean;
+      warmed: string[];
+    }>(
+      'wpCacheInvalidate',
+      {
+        id: Number.parseInt(idMatch![1], 10),
+        entity: 'post',
+        post_type: 'book',
+      },
+      {
+        authHeader: basicAuth,
+        baseUrl: previewSession.baseUrl,
+      },
+    );
+
+    expect(invalidation.invalidated).toBe(true);
+    expect(invalidation.warmed.map((url) => new URL(url).pathname)).toContain(
+      '/live-component-book',
+    );
+  });
+
+  it('writes surrogate key headers for live data loaded in child components', async () => {
+    const response = await request(
+      `${previewSession.baseUrl}/live-component-book`,
+    );
+    const html = await response.text();
+    const idMatch = html.match(/data-book-id="(\d+)"/);
+    expect(idMatch).not.toBeNull();
+
+    expect(response.headers.get('surrogate-key')?.split(' ')).toContain(
+      `wp:entry:books:${idMatch![1]}`,
+    );
+  });
+
+  it('writes surrogate key headers and purges them through the HTTP BAN adapter', async () => {
+    const firstResponse = await request(
+      `${previewSession.baseUrl}/live-cached-book`,
+    );
+    const firstHtml = await firstResponse.text();
+    const originalTitle = extractDataAttribute(firstHtml, 'data-book-title');
+
+    const idMatch = firstHtml.match(/data-book-id="(\d+)"/);
+    expect(idMatch).not.toBeNull();
+
+    const bookId = Number.parseInt(idMatch![1], 10);
+    const entryTag = `wp:entry:books:${bookId}`;
+
+    // The memory cache provider strips `Cache-Tag`; `Surrogate-Key` passes.
+    expect(firstResponse.headers.get('surrogate-key')?.split(' ')).toContain(
+      entryTag,
+    );
+
+    purgeStandIn.requests.length = 0;
+
+    try {
+      await callAction(
+        'updateBookInvalidatingCache',
+        { id: bookId, title: `Surrogate key title ${Date.now()}` },
+        {
+          authHeader: basicAuth,
+          baseUrl: previewSession.baseUrl,
+        },
+      );
+
+      const bans = purgeStandIn.requests.filter(
+        (purge) => purge.method === 'PURGE' && purge.path === '/ban',
+      );
+      const keys = bans.flatMap((purge) =>
+        String(purge.headers['x-cache-tags']).split('|'),
+      );
+
+      expect(bans.length).toBeGreaterThan(0);
+      expect(bans[0].headers['x-purge-secret']).toBe(
+        'wp-astrojs-integration-purge-test',
+      );
+      expect(keys).toContain(entryTag);
+      expect(keys).toContain(await createWordPressHashedSurrogateKey(entryTag));
+    } finally {
+      await callAction(
+        'updateBookInvalidatingCache',
+        { id: bookId, title: originalTitle },
+        {
+          authHeader: basicAuth,
+          baseUrl: previewSession.baseUrl,
+        },
+      ).catch(() => undefined);
+    }
+  });
+
+  it('hashes surrogate keys deterministically when tags exceed the header limit', async () => {
+    const tags = ['wp:resource:books', 'wp:entry:books:1', 'wp:entry:books:1'];
+
+    await expect(
+      formatWordPressSurrogateKeyHeader(tags, { name: 'Surrogate-Key' }),
+    ).resolves.toBe('wp:entry:books:1 wp:resource:books');
+
+    const hashed = await formatWordPressSurrogateKeyHeader(tags, {
+      name: 'Cache-Tag',
+      separator: ',',
+      maxLength: 20,
+    });
+
+    expect(hashed).toBe(
+      [
+        await createWordPressHashedSurrogateKey('wp:entry:books:1'),
+        await createWordPressHashedSurrogateKey('wp:resource:books'),
+      ]
+        .sort()
+        .join(','),
+    );
+    await expect(
+      formatWordPressSurrogateKeyHeader([...tags].reverse(), {
+        name: 'Cache-Tag',
+        separator: ',',
+        maxLength: 20,
+      }),
+    ).resolves.toBe(hashed);
+    await expect(
+      formatWordPressSurrogateKeyHeader(tags, {
+        name: 'Cache-Tag',
+        maxLength: 5,
+      }),
+    ).resolves.toBeUndefined();
+  });
+
+  it('sends Cloudflare and Fastly purge requests in chunks', async () => {
+    purgeStandIn.requests.length = 0;
+
+    await createCloudflarePurgeAdapter({
+      zoneId: 'zone-1',
+      apiToken: 'cloudflare-token',
+      apiUrl: `${purgeStandIn.url}/client/v4/`,
+      chunkSize: 2,
+    }).purge(['wp:a', 'wp:b', 'wp:c']);
+
+    await createFastlyPurgeAdapter({
+      serviceId: 'service-1',
+      apiToken: 'fastly-token',
+      apiUrl: purgeStandIn.url,
+      softPurge: true,
+    }).purge(['wp:a', 'wp:b']);
+
+    const [firstCloudflare, secondCloudflare, fastly] = purgeStandIn.requests;
+
+    expect(firstCloudflare.method).toBe('POST');
+    expect(firstCloudflare.path).toBe('/client/v4/zones/zone-1/purge_cache');
+    expect(firstCloudflare.headers.authorization).toBe(
+      'Bearer cloudflare-token',
+    );
+    expect(JSON.parse(firstCloudflare.body)).toEqual({
+      tags: ['wp:a', 'wp:b'],
+    });
+    expect(JSON.parse(secondCloudflare.body)).toEqual({ tags: ['wp:c'] });
+
+    expect(fastly.method).toBe('POST');
+    expect(fastly.path).toBe('/service/service-1/purge');
+    expect(fastly.headers['fastly-key']).toBe('fastly-token');
+    expect(fastly.headers['surrogate-key']).toBe('wp:a wp:b');
+    expect(fastly.headers['fastly-soft-purge']).toBe('1');
+
+    await expect(
+      createCloudflarePurgeAdapter({
+        zoneId: 'zone-1',
+        apiToken: 'cloudflare-token',
+        apiUrl: `${purgeStandIn.url}/fail`,
+      }).purge(['wp:a']),
+    ).rejects.toThrow('Cloudflare purge failed with HTTP 500');
+  });
+
+  it('runs every purge adapter and reports the ones that failed', async () => {
+    const purged: string[][] = [];
+    const unregister = [
+      registerWordPressCdnPurgeAdapter(
+        createCloudflarePurgeAdapter({
+          zoneId: 'zone-1',
+          apiToken: 'cloudflare-token',
+          apiUrl: `${purgeStandIn.url}/fail`,
+        }),
+      ),
+      registerWordPressCdnPurgeAdapter({
+        name: 'recording',
+        purge: async (keys) => {
+          purged.push(keys);
+        },
+      }),
+    ];
+
+    try {
+      const failures = await purgeWordPressCdnCaches(['wp:a']);
+
+      expect(purged).toEqual([['wp:a']]);
+      expect(failures).toEqual([
+        {
+          adapter: 'cloudflare',
+          error: expect.stringContaining('HTTP 500'),
+        },
+      ]);
+    } finally {
+      for (const release of unregister) {
+        release();
+      }
+    }
+  });
+
+  it('invalidates term entries, related content, and taxonomy listings from term update actions', async () => {
+    const firstResponse = await request(
+      `${previewSession.baseUrl}/live-cached-category`,
+    );
+    const firstHtml = await firstResponse.text();
+    const firstToken = extractRenderToken(firstHtml);
+    const originalName = extractDataAttribute(firstHtml, 'data-category-name');
+
+    const idMatch = firstHtml.match(/data-category-id="(\d+)"/);
+    expect(idMatch).not.toBeNull();
+
+    const categoryId = Number.parseInt(idMatch![1], 10);
+    const updatedName = `Technology Write Cache ${Date.now()}`;
+
+    try {
+      const updated = await callAction<{
+        name: string;
+        cacheInvalidation?: { resource: string; tags: string[] };
+      }>(
+        'updateCategoryInvalidatingCache',
+        {
+          id: categoryId,
+          name: updatedName,
+        },
+        {
+          authHeader: basicAuth,
+          baseUrl: previewSession.baseUrl,
+        },
+      );
+
+      expect(updated.name).toBe(updatedName);
+      expect(updated.cacheInvalidation?.resource).toBe('categories');
+      expect(updated.cacheInvalidation?.tags).toEqual(
+        expect.arrayContaining([
+          `wp:entry:categories:${categoryId}`,
+          `wp:term:category:${categoryId}`,
+          'wp:taxonomy:category',
+        ]),
+      );
+
+      const secondResponse = await request(
+        `${previewSession.baseUrl}/live-cached-category`,
+      );
+      const secondHtml = await secondResponse.text();
+
+      expect(extractRenderToken(secondHtml)).not.toBe(firstToken);
+      expect(secondHtml).toContain(`data-category-name="${updatedName}"`);
+    } finally {
+      await callAction(
+        'updateCategoryInvalidatingCache',
+        {
+          id: categoryId,
+          name: originalName,
+        },
+        {
+          authHeader: basicAuth,
+          baseUrl: previewSession.baseUrl,
+        },
+      ).catch(() => undefined);
+    }
+  });
+
+  it('invalidates cached live content from signed WordPress webhooks', async () => {
+    const firstResponse = await request(
+      `${previewSession.baseUrl}/live-cached-book`,
+    );
+    const firstHtml = await firstResponse.text();
+    const firstToken = extractRenderToken(firstHtml);
+    const originalTitle = extractDataAttribute(firstHtml, 'data-book-title');
+
+    const idMatch = firstHtml.match(/data-book-id="(\d+)"/);
+    expect(idMatch).not.toBeNull();
+
+    const bookId = Number.parseInt(idMatch![1], 10);
+    const updatedTitle = `Webhook cache title ${Date.now()}`;
+
+    try {
+      await wpRequest(`wp/v2/books/${bookId}`, 'POST', {
+        title: updatedTitle,
+      });
+
+      const cachedResponse = await request(
+        `${previewSession.baseUrl}/live-cached-book`,
+      );
+      expect(extractRenderToken(await cachedResponse.text())).toBe(firstToken);
+
+      const delivery = await findWebhookDelivery('post', bookId);
+      const webhookResponse = await sendWebhook(
+        previewSession.baseUrl,
+        delivery,
+      );
+      const result = (await webhookResponse.json()) as {
+        invalidated: boolean;
+        entity: string;
+        tags: string[];
+      };
+
+      expect(webhookResponse.status).toBe(200);
+      expect(result.invalidated).toBe(true);
+      expect(result.entity).toBe('post');
+      expect(result.tags).toContain(`wp:entry:books:${bookId}`);
+
+      const refreshedResponse = await request(
+        `${previewSession.baseUrl}/live-cached-book`,
+      );
+      const refreshedHtml = await refreshedResponse.text();
+
+      expect(extractRenderToken(refreshedHtml)).not.toBe(firstToken);
+      expect(refreshedHtml).toContain(`data-book-title="${updatedTitle}"`);
+    } finally {
+      await wpRequest(`wp/v2/books/${bookId}`, 'POST', {
+        title: originalTitle,
+      }).catch(() => undefined);
+
+      await findWebhookDelivery('post', bookId)
+        .then((delivery) => sendWebhook(previewSession.baseUrl, delivery))
+        .catch(() => undefined);
+    }
+  });
+
+  it('rejects replayed, tampered, and unsigned webhook deliveries', async () => {
+    const category = await wpRequest<{ id: number; name: string }>(
+      'wp/v2/categories',
+      'POST',
+      { name: `Webhook replay ${Date.now()}` },
+    );
+
+    try {
+      const delivery = await findWebhookDelivery('term', category.id);
+
+      const accepted = await sendWebhook(previewSession.baseUrl, delivery);
+      expect(accepted.status).toBe(200);
+      expect(((await accepted.json()) as { tags: string[] }).tags).toEqual(
+        expect.arrayContaining([
+          `wp:entry:categories:${category.id}`,
+          'wp:taxonomy:category',
+        ]),
+      );
+
+      const replayed = await sendWebhook(previewSession.baseUrl, delivery);
+      expect(replayed.status).toBe(409);
+
+      const tampered = await sendWebhook(previewSession.baseUrl, {
+        headers: delivery.headers,
+        body: delivery.body.replace(`"id":${category.id}`, '"id":1'),
+      });
+      expect(tampered.status).toBe(401);
+
+      const unsigned = await sendWebhook(previewSession.baseUrl, {
+        headers: { 'Content-Type': 'application/json' },
+        body: delivery.body,
+      });
+      expect(unsigned.status).toBe(401);
+    } finally {
+      await wpRequest(
+        `wp/v2/categories/${category.id}?force=true`,
+        'DELETE',
+      ).catch(() => undefined);
+    }
+  });
+
   it('keeps the cached post list while refreshing only the invalidated post entry', async () => {
     await resetRouteCacheMetrics(previewSession.baseUrl);
 
@@ -427,6 +1164,17 @@ describe('Route Caching: Astro preview runtime', () => {
         },
       );
 
+      // Wait for the background warm request of the invalidated entry route.
+      await vi.waitFor(
+        async () => {
+          const metrics = await getRouteCacheMetrics(previewSession.baseUrl);
+
+          expect(metrics.entries[`id:${changedEntry.id}`]).toBe(2);
+        },
+        { timeout: 10_000, interval: 100 },
+      );
+      await new Promise((resolve) => setTimeout(resolve, 250));
+
       const listAfterInvalidation = await fetchCachedPostList(
         previewSession.baseUrl,
       );
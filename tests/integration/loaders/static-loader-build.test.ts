@@ -326,6 +326,15 @@ export default defineConfig({
         '<p id="has-posts-response-schema">true</p>',
       );
       expect(catalogHtml).toMatch(/<p id="catalog-posts-count">\d+<\/p>/);
+      expect(catalogHtml).toMatch(/<p id="catalog-post-category">[^<]+<\/p>/);
+      expect(catalogHtml).not.toContain(
+        '<p id="catalog-post-category">missing</p>',
+      );
+      expect(catalogHtml).toMatch(/<p id="site-title">[^<]+<\/p>/);
+      expect(catalogHtml).not.toContain('<p id="site-title">missing</p>');
+      expect(catalogHtml).toContain(
+        '<p id="site-settings-authenticated">false</p>',
+      );
 
       const catalogJson = await readFile(
         path.join(
@@ -1,18 +1,22 @@
-import { WordPressClient } from 'fluent-wp-client';
-import { beforeAll, describe, expect, it } from 'vitest';
+import { WordPressClient, type WordPressPost } from 'fluent-wp-client';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import type { WordPressEmbeddedEntry } from '../../../src/loaders/embeds';
 import {
   wordPressCategoryStaticLoader,
+  wordPressCommentStaticLoader,
   wordPressContentStaticLoader,
+  wordPressMenuStaticLoader,
   wordPressPageStaticLoader,
   wordPressPostStaticLoader,
+  wordPressSettingsStaticLoader,
   wordPressTagStaticLoader,
   wordPressTermStaticLoader,
   wordPressUserStaticLoader,
 } from '../../../src/loaders/static';
 import { getAcfChoiceLabels } from '../../helpers/acf-choice-catalog';
 import { createMockLogger } from '../../helpers/mock-logger';
-import { createMockStore } from '../../helpers/mock-store';
-import { getBaseUrl } from '../../helpers/wp-client';
+import { createMockMeta, createMockStore } from '../../helpers/mock-store';
+import { createAuthClient, getBaseUrl } from '../../helpers/wp-client';
 
 /**
  * Legacy helper method keys from fluent-wp-client v1 content wrappers.
@@ -40,8 +44,9 @@ function expectSerializableContentData(data: Record<string, unknown>): void {
 /**
  * Astro static-loader integration focused on build-time store behavior.
  *
- * This suite validates Astro-facing semantics: clear-before-load, entry key
- * normalization, rendered-html mapping, and non-rendered taxonomy behavior.
+ * This suite validates Astro-facing semantics: stale-entry pruning, digest-based
+ * change detection, entry key normalization, rendered-html mapping, and
+ * non-rendered taxonomy behavior.
  */
 describe('Static Loaders', () => {
   let baseUrl: string;
@@ -58,7 +63,7 @@ describe('Static Loaders', () => {
   }
 
   describe('wordPressPostStaticLoader', () => {
-    it('clears the Astro store and then writes normalized entries', async () => {
+    it('removes stale store entries and then writes normalized entries', async () => {
       const loader = wordPressPostStaticLoader(createClient());
       const { store, entries } = createMockStore();
       const logger = createMockLogger();
@@ -69,7 +74,7 @@ describe('Static Loaders', () => {
 
       await loader.load({ store, logger } as never);
 
-      expect(store.clear).toHaveBeenCalledTimes(1);
+      expect(store.delete).toHaveBeenCalledWith('999');
       expect(entries.has('999')).toBe(false);
       expect(entries.size).toBeGreaterThan(0);
     });
@@ -89,6 +94,25 @@ describe('Static Loaders', () => {
       expect(first.rendered?.html).toBe(first.data.content.rendered);
     });
 
+    it('stores only the projected fields when fields are selected', async () => {
+      const loader = wordPressPostStaticLoader(createClient(), {
+        fields: ['slug', 'title'],
+        incremental: false,
+      });
+      const { store, entries } = createMockStore();
+      const logger = createMockLogger();
+
+      await loader.load({ store, logger } as never);
+
+      const first = entries.values().next().value as {
+        data: Record<string, unknown>;
+        rendered?: { html: string };
+      };
+
+      expect(Object.keys(first.data).sort()).toEqual(['id', 'slug', 'title']);
+      expect(first.rendered).toBeUndefined();
+    });
+
     it('uses stringified numeric ids as datastore keys', async () => {
       const loader = wordPressPostStaticLoader(createClient());
       const { store, entries } = createMockStore();
@@ -194,6 +218,39 @@ describe('Static Loaders', () => {
     });
   });
 
+  describe('hierarchical page paths', () => {
+    it('stores the full parent path on every page', async () => {
+      const loader = wordPressPageStaticLoader(createClient(), {
+        hierarchical: true,
+      });
+      const { store, entries } = createMockStore();
+
+      await loader.load({ store, logger: createMockLogger() } as never);
+
+      const paths = [...entries.values()].map(
+        (entry) => (entry.data as { path?: string }).path,
+      );
+
+      expect(paths).toContain('about');
+      expect(paths).toContain('about/team');
+      expect(paths).toContain('services/portfolio/testimonials');
+    });
+
+    it('uses paths as entry ids and skips incremental cursors', async () => {
+      const loader = wordPressPageStaticLoader(createClient(), {
+        idFromPath: true,
+      });
+      const { store, entries } = createMockStore();
+      const { meta } = createMockMeta();
+
+      await loader.load({ store, meta, logger: createMockLogger() } as never);
+
+      expect(entries.has('about/team')).toBe(true);
+      expect(entries.has('services/portfolio/testimonials')).toBe(true);
+      expect(meta.set).not.toHaveBeenCalled();
+    });
+  });
+
   describe('taxonomy static loaders', () => {
     it('does not attach rendered html for categories', async () => {
       const loader = wordPressCategoryStaticLoader(createClient());
@@ -270,6 +327,91 @@ describe('Static Loaders', () => {
     });
   });
 
+  describe('wordPressCommentStaticLoader', () => {
+    it('stores threaded comments for one post with rendered html', async () => {
+      const post = await createClient().content('posts').item('test-post-001');
+      const loader = wordPressCommentStaticLoader(createClient(), {
+        filter: { post: post!.id },
+        threaded: true,
+      });
+      const { store, entries } = createMockStore();
+      const logger = createMockLogger();
+
+      await loader.load({ store, logger } as never);
+
+      const stored = [...entries.values()] as Array<{
+        data: {
+          content: { rendered: string };
+          replies?: Array<{ id: number }>;
+        };
+        rendered?: { html: string };
+      }>;
+
+      expect(stored).toHaveLength(2);
+      expect(stored[0].rendered?.html).toBe(stored[0].data.content.rendered);
+      expect(stored.flatMap((entry) => entry.data.replies ?? [])).toHaveLength(
+        1,
+      );
+    });
+  });
+
+  describe('wordPressSettingsStaticLoader', () => {
+    it('stores authenticated site settings as one site entry', async () => {
+      const loader = wordPressSettingsStaticLoader(createAuthClient());
+      const { store, entries } = createMockStore();
+      const logger = createMockLogger();
+
+      await loader.load({ store, logger } as never);
+
+      const settings = entries.get('site') as
+        | {
+            data: {
+              title: string;
+              timezone: string;
+              date_format?: string;
+              authenticated: boolean;
+            };
+          }
+        | undefined;
+
+      expect([...entries.keys()]).toEqual(['site']);
+      expect(settings?.data.title.length).toBeGreaterThan(0);
+      expect(typeof settings?.data.date_format).toBe('string');
+      expect(settings?.data.authenticated).toBe(true);
+    });
+  });
+
+  describe('wordPressMenuStaticLoader', () => {
+    it('stores menus with nested item trees and no rendered html', async () => {
+      const loader = wordPressMenuStaticLoader(createAuthClient(), {
+        filter: { location: 'primary' },
+      });
+      const { store, entries } = createMockStore();
+      const logger = createMockLogger();
+
+      await loader.load({ store, logger } as never);
+
+      expect(entries.size).toBe(1);
+
+      const [entry] = [...entries.values()] as Array<{
+        data: {
+          slug: string;
+          items: Array<{ title: string; children: Array<{ title: string }> }>;
+        };
+        rendered?: unknown;
+      }>;
+      const services = entry.data.items.find(
+        (item) => item.title === 'Services',
+      );
+
+      expect(entry.data.slug).toBe('main-navigation');
+      expect(entry.rendered).toBeUndefined();
+      expect(services?.children.map((item) => item.title)).toEqual([
+        'Portfolio',
+      ]);
+    });
+  });
+
   describe('wordPressContentStaticLoader', () => {
     it('stores CPT entries with string ids and rendered html', async () => {
       const loader = wordPressContentStaticLoader(createClient(), {
@@ -304,7 +446,7 @@ describe('Static Loaders', () => {
       }
     });
 
-    it('clears store before loading CPT entries', async () => {
+    it('removes stale store entries before loading CPT entries', async () => {
       const loader = wordPressContentStaticLoader(createClient(), {
         resource: 'books',
       });
@@ -317,7 +459,7 @@ describe('Static Loaders', () => {
 
       await loader.load({ store, logger } as never);
 
-      expect(store.clear).toHaveBeenCalledTimes(1);
+      expect(store.delete).toHaveBeenCalledWith('999');
       expect(entries.has('999')).toBe(false);
       expect(entries.size).toBeGreaterThan(0);
     });
@@ -371,6 +513,247 @@ describe('Static Loaders', () => {
     });
   });
 
+  describe('incremental sync', () => {
+    it('persists a sync cursor from the newest modified_gmt on the first load', async () => {
+      const loader = wordPressPostStaticLoader(createClient());
+      const { store, entries } = createMockStore();
+      const { meta, values } = createMockMeta();
+
+      await loader.load({ store, meta, logger: createMockLogger() } as never);
+
+      const newest = [...entries.values()]
+        .map((entry) => (entry.data as { modified_gmt: string }).modified_gmt)
+        .sort()
+        .at(-1);
+
+      expect(entries.size).toBeGreaterThan(0);
+      expect(values.get('wordpress-sync-cursor')).toBe(
+        new Date(newest!).toISOString(),
+      );
+    });
+
+    it('upserts changed entries and removes deleted ones without clearing the store', async () => {
+      const loader = wordPressPostStaticLoader(createClient());
+      const { store, entries } = createMockStore();
+      const { meta } = createMockMeta();
+
+      await loader.load({ store, meta, logger: createMockLogger() } as never);
+
+      const initialSize = entries.size;
+      entries.set('999999', { data: { id: 999999 } });
+
+      await loader.load({ store, meta, logger: createMockLogger() } as never);
+
+      expect(store.clear).not.toHaveBeenCalled();
+      expect(store.set).toHaveBeenCalledTimes(initialSize);
+      expect(entries.has('999999')).toBe(false);
+      expect(entries.size).toBe(initialSize);
+    });
+
+    it('restores published entries missing from the store without a newer modification time', async () => {
+      const loader = wordPressPostStaticLoader(createClient());
+      const { store, entries } = createMockStore();
+      const { meta, values } = createMockMeta();
+
+      await loader.load({ store, meta, logger: createMockLogger() } as never);
+
+      const [missingKey] = entries.keys();
+      const initialSize = entries.size;
+      // A future cursor makes `modified_after` match nothing, like a scheduled
+      // post WordPress published without touching `post_modified`.
+      const futureCursor = '2999-01-01T00:00:00.000Z';
+
+      entries.delete(missingKey);
+      values.set('wordpress-sync-cursor', futureCursor);
+
+      await loader.load({ store, meta, logger: createMockLogger() } as never);
+
+      expect(store.clear).not.toHaveBeenCalled();
+      expect(entries.has(missingKey)).toBe(true);
+      expect(entries.size).toBe(initialSize);
+      expect(values.get('wordpress-sync-cursor')).toBe(futureCursor);
+    });
+
+    it('keeps full reloads when incremental syncs are disabled', async () => {
+      const loader = wordPressContentStaticLoader(createClient(), {
+        resource: 'books',
+        incremental: false,
+      });
+      const { store } = createMockStore();
+      const { meta, values } = createMockMeta();
+
+      await loader.load({ store, meta, logger: createMockLogger() } as never);
+      await loader.load({ store, meta, logger: createMockLogger() } as never);
+
+      expect(meta.set).not.toHaveBeenCalled();
+      expect(values.size).toBe(0);
+    });
+  });
+
+  describe('content digests', () => {
+    it('stores one digest per entry', async () => {
+      const loader = wordPressPostStaticLoader(createClient());
+      const { store, entries } = createMockStore();
+
+      await loader.load({ store, logger: createMockLogger() } as never);
+
+      expect(entries.size).toBeGreaterThan(0);
+      for (const entry of entries.values()) {
+        expect(typeof entry.digest).toBe('string');
+        expect(entry.digest!.length).toBeGreaterThan(0);
+      }
+    });
+
+    it('uses the loader context digest generator when available', async () => {
+      const loader = wordPressTagStaticLoader(createClient());
+      const { store, entries } = createMockStore();
+      const generateDigest = vi.fn(
+        (data: Record<string, unknown>) => `digest-${data.id}`,
+      );
+
+      await loader.load({
+        store,
+        generateDigest,
+        logger: createMockLogger(),
+      } as never);
+
+      expect(generateDigest).toHaveBeenCalledTimes(entries.size);
+      for (const [key, entry] of entries) {
+        expect(entry.digest).toBe(`digest-${key}`);
+      }
+    });
+
+    it('skips mapEntry and store.set for unchanged entries', async () => {
+      const mapEntry = vi.fn((entry) => entry);
+      const loader = wordPressContentStaticLoader(createClient(), {
+        resource: 'books',
+        incremental: false,
+        mapEntry,
+      });
+      const { store, entries } = createMockStore();
+
+      await loader.load({ store, logger: createMockLogger() } as never);
+
+      const initialSize = entries.size;
+
+      await loader.load({ store, logger: createMockLogger() } as never);
+
+      expect(initialSize).toBeGreaterThan(0);
+      expect(mapEntry).toHaveBeenCalledTimes(initialSize);
+      expect(store.set).toHaveBeenCalledTimes(initialSize);
+      expect(entries.size).toBe(initialSize);
+    });
+  });
+
+  describe('embedded relations', () => {
+    it('normalizes embedded author and terms into typed fields', async () => {
+      const loader = wordPressPostStaticLoader(createClient(), {
+        embed: true,
+        filter: { search: 'Test Post 001' },
+      });
+      const { store, entries } = createMockStore();
+
+      await loader.load({ store, logger: createMockLogger() } as never);
+
+      expect(entries.size).toBeGreaterThan(0);
+      for (const entry of entries.values()) {
+        const data = entry.data as WordPressEmbeddedEntry<WordPressPost>;
+
+        expect('_embedded' in data).toBe(false);
+        expect(data.authorData?.id).toBe(data.author);
+        expect(data.terms?.category?.map((term) => term.id)).toEqual(
+          expect.arrayContaining(data.categories),
+        );
+      }
+    });
+
+    it('requests only the configured embed relations', async () => {
+      const loader = wordPressPostStaticLoader(createClient(), {
+        embed: ['author'],
+        filter: { search: 'Test Post 001' },
+      });
+      const { store, entries } = createMockStore();
+
+      await loader.load({ store, logger: createMockLogger() } as never);
+
+      expect(entries.size).toBeGreaterThan(0);
+      for (const entry of entries.values()) {
+        const data = entry.data as WordPressEmbeddedEntry<WordPressPost>;
+
+        expect(data.authorData).toBeDefined();
+        expect(data.terms).toBeUndefined();
+      }
+    });
+
+    it('keeps raw entries when embed is not configured', async () => {
+      const loader = wordPressPageStaticLoader(createClient());
+      const { store, entries } = createMockStore();
+
+      await loader.load({ store, logger: createMockLogger() } as never);
+
+      for (const entry of entries.values()) {
+        const data = entry.data as Record<string, unknown>;
+
+        expect(data.authorData).toBeUndefined();
+        expect(data.terms).toBeUndefined();
+      }
+    });
+  });
+
+  describe('relation references', () => {
+    it('stores relation fields as collection references', async () => {
+      const loader = wordPressPostStaticLoader(createClient(), {
+        filter: { search: 'Test Post 001' },
+        relations: {
+          author: 'wpUsers',
+          categories: 'wpCategories',
+          featured_media: 'wpMedia',
+        },
+      });
+      const { store, entries } = createMockStore();
+
+      await loader.load({ store, logger: createMockLogger() } as never);
+
+      expect(entries.size).toBeGreaterThan(0);
+      for (const entry of entries.values()) {
+        const data = entry.data as {
+          author?: { collection: string; id: string };
+          categories?: Array<{ collection: string; id: string }>;
+          featured_media?: unknown;
+        };
+
+        expect(data.author?.collection).toBe('wpUsers');
+        expect(
+          data.categories?.every((c) => c.collection === 'wpCategories'),
+        ).toBe(true);
+        expect(
+          data.featured_media === undefined ||
+            typeof data.featured_media === 'object',
+        ).toBe(true);
+      }
+    });
+
+    it('resolves relations from the mapped entry', async () => {
+      const loader = wordPressContentStaticLoader(createClient(), {
+        resource: 'books',
+        incremental: false,
+        mapEntry: (entry) => ({ ...entry, author: 1 }),
+        relations: { author: 'wpUsers' },
+      });
+      const { store, entries } = createMockStore();
+
+      await loader.load({ store, logger: createMockLogger() } as never);
+
+      expect(entries.size).toBeGreaterThan(0);
+      for (const entry of entries.values()) {
+        expect((entry.data as { author?: unknown }).author).toEqual({
+          collection: 'wpUsers',
+          id: '1',
+        });
+      }
+    });
+  });
+
   describe('build-time filters', () => {
     it('scopes post collection at build time with search filter', async () => {
       const loader = wordPressPostStaticLoader(createClient(), {
@@ -267,6 +267,11 @@ export async function setup(): Promise<void> {
     WP_REST_NONCE: cookieAuthSession.restNonce,
     WP_ALICE_JWT_TOKEN: aliceJwtToken,
     WP_BOB_JWT_TOKEN: bobJwtToken,
+    WP_PREVIEW_URL: baseUrl,
+    WP_PREVIEW_SECRET: 'wp-astrojs-integration-preview-test-secret',
+    WP_PREVIEW_USERNAME: DEFAULT_ADMIN_USERNAME,
+    WP_PREVIEW_PASSWORD: appPassword,
+    WP_WEBHOOK_SECRET: 'wp-astrojs-integration-webhook-test-secret',
   };
 
   // Also set in this process so the Astro dev server picks them up via Vite
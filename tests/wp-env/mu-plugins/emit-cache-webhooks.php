@@ -0,0 +1,269 @@
+<?php
+/**
+ * Emits signed cache invalidation webhooks for content, term, user, media,
+ * menu, and comment changes, matching the route injected by
+ * `wordpress({ webhook })`.
+ *
+ * Deliveries are signed with `WP_ASTRO_WEBHOOK_SECRET`, sent to
+ * `WP_ASTRO_WEBHOOK_URL` when defined, and kept in an outbox so integration
+ * tests can replay them against an Astro server the container cannot reach.
+ *
+ * Endpoint: GET /wp-json/wp-astrojs-integration/v1/webhooks
+ */
+
+const WP_ASTROJS_WEBHOOK_OUTBOX = 'wp_astrojs_webhook_outbox';
+
+/**
+ * Signs one payload, sends it when a receiver URL is configured, and records
+ * the delivery in the outbox.
+ */
+function wp_astrojs_emit_webhook( array $payload ) {
+	if ( ! defined( 'WP_ASTRO_WEBHOOK_SECRET' ) || '' === WP_ASTRO_WEBHOOK_SECRET ) {
+		return;
+	}
+
+	$body      = wp_json_encode( $payload );
+	$timestamp = (string) time();
+	$headers   = [
+		'Content-Type'           => 'application/json',
+		'X-WP-Webhook-Timestamp' => $timestamp,
+		'X-WP-Webhook-Signature' => 'sha256=' . hash_hmac( 'sha256', "$timestamp.$body", WP_ASTRO_WEBHOOK_SECRET ),
+	];
+
+	if ( defined( 'WP_ASTRO_WEBHOOK_URL' ) && WP_ASTRO_WEBHOOK_URL ) {
+		wp_remote_post(
+			WP_ASTRO_WEBHOOK_URL,
+			[
+				'headers'  => $headers,
+				'body'     => $body,
+				'blocking' => false,
+				'timeout'  => 1,
+			]
+		);
+	}
+
+	$outbox   = get_option( WP_ASTROJS_WEBHOOK_OUTBOX, [] );
+	$outbox[] = [
+		'headers' => $headers,
+		'body'    => $body,
+	];
+
+	update_option( WP_ASTROJS_WEBHOOK_OUTBOX, array_slice( $outbox, -50 ), false );
+}
+
+/**
+ * Returns the REST base of one post type, or null when it is not exposed.
+ */
+function wp_astrojs_webhook_post_resource( $post_type ) {
+	$type = get_post_type_object( $post_type );
+
+	if ( ! $type || ! $type->show_in_rest ) {
+		return null;
+	}
+
+	return $type->rest_base ? $type->rest_base : $type->name;
+}
+
+/**
+ * Reads the REST fields of one post that decide which listings contain it.
+ */
+function wp_astrojs_webhook_post_state( WP_Post $post ) {
+	$state = [
+		'status'         => $post->post_status,
+		'author'         => (int) $post->post_author,
+		'parent'         => (int) $post->post_parent,
+		'featured_media' => (int) get_post_thumbnail_id( $post ),
+	];
+
+	foreach ( get_object_taxonomies( $post->post_type, 'objects' ) as $taxonomy ) {
+		if ( ! $taxonomy->show_in_rest ) {
+			continue;
+		}
+
+		$terms = wp_get_object_terms( $post->ID, $taxonomy->name, [ 'fields' => 'ids' ] );
+		$state[ $taxonomy->rest_base ? $taxonomy->rest_base : $taxonomy->name ] =
+			is_wp_error( $terms ) ? [] : array_map( 'intval', $terms );
+	}
+
+	return $state;
+}
+
+/**
+ * Reports whether one post change should emit a content webhook.
+ */
+function wp_astrojs_webhook_tracks_post( WP_Post $post ) {
+	return ! wp_is_post_revision( $post )
+		&& ! wp_is_post_autosave( $post )
+		&& ! in_array( $post->post_type, [ 'attachment', 'nav_menu_item', 'wp_navigation' ], true )
+		&& 'auto-draft' !== $post->post_status
+		&& null !== wp_astrojs_webhook_post_resource( $post->post_type );
+}
+
+/**
+ * Post states captured before updates and deletions, keyed by post ID.
+ */
+$GLOBALS['wp_astrojs_webhook_post_states'] = [];
+
+add_action( 'pre_post_update', function ( $post_id ) {
+	$post = get_post( $post_id );
+
+	if ( $post && wp_astrojs_webhook_tracks_post( $post ) ) {
+		$GLOBALS['wp_astrojs_webhook_post_states'][ $post_id ] = wp_astrojs_webhook_post_state( $post );
+	}
+} );
+
+add_action( 'wp_after_insert_post', function ( $post_id, $post, $update ) {
+	if ( 'wp_navigation' === $post->post_type ) {
+		wp_astrojs_emit_webhook( [ 'entity' => 'menu', 'source' => 'navigation', 'id' => $post_id ] );
+		return;
+	}
+
+	if ( ! wp_astrojs_webhook_tracks_post( $post ) ) {
+		return;
+	}
+
+	$before = $update ? ( $GLOBALS['wp_astrojs_webhook_post_states'][ $post_id ] ?? null ) : null;
+	unset( $GLOBALS['wp_astrojs_webhook_post_states'][ $post_id ] );
+
+	wp_astrojs_emit_webhook( [
+		'entity'   => 'post',
+		'resource' => wp_astrojs_webhook_post_resource( $post->post_type ),
+		'id'       => $post_id,
+		'before'   => $before,
+		'after'    => wp_astrojs_webhook_post_state( $post ),
+	] );
+}, 10, 3 );
+
+add_action( 'before_delete_post', function ( $post_id, $post ) {
+	if ( wp_astrojs_webhook_tracks_post( $post ) ) {
+		$GLOBALS['wp_astrojs_webhook_post_states'][ $post_id ] = wp_astrojs_webhook_post_state( $post );
+	}
+}, 10, 2 );
+
+add_action( 'deleted_post', function ( $post_id, $post ) {
+	if ( ! isset( $GLOBALS['wp_astrojs_webhook_post_states'][ $post_id ] ) ) {
+		return;
+	}
+
+	$before = $GLOBALS['wp_astrojs_webhook_post_states'][ $post_id ];
+	unset( $GLOBALS['wp_astrojs_webhook_post_states'][ $post_id ] );
+
+	wp_astrojs_emit_webhook( [
+		'entity'   => 'post',
+		'resource' => wp_astrojs_webhook_post_resource( $post->post_type ),
+		'id'       => $post_id,
+		'before'   => $before,
+		'after'    => null,
+	] );
+}, 10, 2 );
+
+/**
+ * Emits one term webhook when the taxonomy is exposed over REST.
+ */
+function wp_astrojs_emit_term_webhook( $term_id, $taxonomy, $parent ) {
+	$object = get_taxonomy( $taxonomy );
+
+	if ( ! $object || ! $object->show_in_rest ) {
+		return;
+	}
+
+	wp_astrojs_emit_webhook( [
+		'entity'   => 'term',
+		'resource' => $object->rest_base ? $object->rest_base : $object->name,
+		'id'       => (int) $term_id,
+		'taxonomy' => $taxonomy,
+		'parent'   => (int) $parent,
+	] );
+}
+
+add_action( 'saved_term', function ( $term_id, $tt_id, $taxonomy ) {
+	$term = get_term( $term_id, $taxonomy );
+
+	if ( $term && ! is_wp_error( $term ) && 'nav_menu' !== $taxonomy ) {
+		wp_astrojs_emit_term_webhook( $term_id, $taxonomy, $term->parent );
+	}
+}, 10, 3 );
+
+add_action( 'delete_term', function ( $term_id, $tt_id, $taxonomy, $deleted_term ) {
+	if ( 'nav_menu' !== $taxonomy ) {
+		wp_astrojs_emit_term_webhook( $term_id, $taxonomy, $deleted_term->parent );
+	}
+}, 10, 4 );
+
+add_action( 'user_register', function ( $user_id ) {
+	wp_astrojs_emit_webhook( [ 'entity' => 'user', 'id' => (int) $user_id ] );
+} );
+
+add_action( 'profile_update', function ( $user_id ) {
+	wp_astrojs_emit_webhook( [ 'entity' => 'user', 'id' => (int) $user_id ] );
+} );
+
+add_action( 'deleted_user', function ( $user_id, $reassign ) {
+	wp_astrojs_emit_webhook( array_filter( [
+		'entity'   => 'user',
+		'id'       => (int) $user_id,
+		'reassign' => $reassign ? (int) $reassign : null,
+	] ) );
+}, 10, 2 );
+
+foreach ( [ 'add_attachment', 'attachment_updated', 'delete_attachment' ] as $media_hook ) {
+	add_action( $media_hook, function ( $attachment_id ) {
+		wp_astrojs_emit_webhook( [ 'entity' => 'media', 'id' => (int) $attachment_id ] );
+	} );
+}
+
+/**
+ * Emits one classic menu webhook with the locations the menu is assigned to.
+ */
+function wp_astrojs_emit_menu_webhook( $menu_id ) {
+	wp_astrojs_emit_webhook( [
+		'entity'    => 'menu',
+		'source'    => 'menus',
+		'id'        => (int) $menu_id,
+		'locations' => array_keys( array_filter(
+			get_nav_menu_locations(),
+			function ( $assigned ) use ( $menu_id ) {
+				return (int) $assigned === (int) $menu_id;
+			}
+		) ),
+	] );
+}
+
+add_action( 'wp_update_nav_menu', 'wp_astrojs_emit_menu_webhook' );
+add_action( 'wp_delete_nav_menu', 'wp_astrojs_emit_menu_webhook' );
+
+/**
+ * Emits one comment webhook with the post the comment belongs to.
+ */
+function wp_astrojs_emit_comment_webhook( $comment_id, $comment = null ) {
+	$comment = $comment ? $comment : get_comment( $comment_id );
+
+	if ( $comment ) {
+		wp_astrojs_emit_webhook( [
+			'entity' => 'comment',
+			'id'     => (int) $comment->comment_ID,
+			'post'   => (int) $comment->comment_post_ID,
+		] );
+	}
+}
+
+add_action( 'wp_insert_comment', 'wp_astrojs_emit_comment_webhook', 10, 2 );
+add_action( 'edit_comment', 'wp_astrojs_emit_comment_webhook' );
+add_action( 'wp_set_comment_status', 'wp_astrojs_emit_comment_webhook' );
+add_action( 'delete_comment', 'wp_astrojs_emit_comment_webhook', 10, 2 );
+
+add_action( 'rest_api_init', function () {
+	register_rest_route(
+		'wp-astrojs-integration/v1',
+		'/webhooks',
+		[
+			'methods'             => 'GET',
+			'callback'            => function () {
+				return rest_ensure_response( get_option( WP_ASTROJS_WEBHOOK_OUTBOX, [] ) );
+			},
+			'permission_callback' => function () {
+				return current_user_can( 'manage_options' );
+			},
+		]
+	);
+} );
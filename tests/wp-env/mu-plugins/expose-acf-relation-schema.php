@@ -0,0 +1,44 @@
+<?php
+/**
+ * Annotates ACF relation fields in the REST schema with their field settings.
+ *
+ * ACF's REST schema describes relationship and post object values as plain
+ * integers, so consumers cannot tell which post types, taxonomy, or media an
+ * ID points to. This adds the settings under an `x-acf` keyword on each field
+ * schema, which the discovery catalog keeps and `getWordPressAcfRelations()`
+ * reads to derive cache tags for related entries.
+ *
+ * ACF registers the `acf` REST field per request in `rest_pre_dispatch`, so
+ * the annotation runs after it at a later priority.
+ */
+add_filter( 'rest_pre_dispatch', function ( $response ) {
+	global $wp_rest_additional_fields;
+
+	if ( ! function_exists( 'acf_get_field' ) || ! is_array( $wp_rest_additional_fields ) ) {
+		return $response;
+	}
+
+	$relation_types = [ 'relationship', 'post_object', 'taxonomy', 'user', 'image', 'file', 'gallery' ];
+
+	foreach ( $wp_rest_additional_fields as $object_type => $fields ) {
+		if ( empty( $fields['acf']['schema']['properties'] ) ) {
+			continue;
+		}
+
+		foreach ( $fields['acf']['schema']['properties'] as $name => $schema ) {
+			$field = acf_get_field( $name );
+
+			if ( ! $field || ! in_array( $field['type'], $relation_types, true ) ) {
+				continue;
+			}
+
+			$wp_rest_additional_fields[ $object_type ]['acf']['schema']['properties'][ $name ]['x-acf'] = array_filter( [
+				'type'      => $field['type'],
+				'post_type' => empty( $field['post_type'] ) ? null : array_values( (array) $field['post_type'] ),
+				'taxonomy'  => empty( $field['taxonomy'] ) ? null : $field['taxonomy'],
+			] );
+		}
+	}
+
+	return $response;
+}, 20 );
@@ -0,0 +1,13 @@
+<?php
+/**
+ * Registers classic menu locations for integration testing.
+ *
+ * Block themes do not declare nav menu locations, so the test instance adds
+ * `primary` and `footer` to validate menu loaders and location lookups.
+ */
+add_action( 'after_setup_theme', function () {
+	register_nav_menus([
+		'primary' => 'Primary Menu',
+		'footer'  => 'Footer Menu',
+	]);
+});
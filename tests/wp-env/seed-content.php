@@ -10,7 +10,10 @@
  *  - 4 genres taxonomy terms (sci-fi, fantasy, mystery, biography)
  *  - 150 posts ("Test Post 001" – "Test Post 150"), 30 per category
  *  - 10 pages (About, Contact, Services, FAQ, Team, Blog, Portfolio, Testimonials, Privacy Policy, Terms of Service)
+ *    with nested paths about/team and services/portfolio/testimonials
  *  - 10 books ("Test Book 001" – "Test Book 010") — custom post type registered by mu-plugin
+ *  - 1 navigation menu (main-navigation) assigned to the primary location
+ *  - 4 comments on test-post-001: 2 approved threads with 1 reply, 1 held for moderation
  *
  * Deletes the default "Hello world!" post, "Sample Page", and auto-draft
  * content so the DB starts clean.
@@ -199,10 +202,10 @@ $page_definitions = [
 	[ 'title' => 'Contact',         'slug' => 'contact',         'content' => 'Get in touch with us through our contact form.' ],
 	[ 'title' => 'Services',        'slug' => 'services',        'content' => 'Explore the services we offer to our clients.' ],
 	[ 'title' => 'FAQ',             'slug' => 'faq',             'content' => 'Frequently asked questions and their answers.' ],
-	[ 'title' => 'Team',            'slug' => 'team',            'content' => 'Meet the people behind the project.' ],
+	[ 'title' => 'Team',            'slug' => 'team',            'content' => 'Meet the people behind the project.', 'path' => 'about/team' ],
 	[ 'title' => 'Blog',            'slug' => 'blog',            'content' => 'Our latest articles and updates.' ],
-	[ 'title' => 'Portfolio',       'slug' => 'portfolio',       'content' => 'A showcase of our recent work and projects.' ],
-	[ 'title' => 'Testimonials',    'slug' => 'testimonials',    'content' => 'What our clients say about working with us.' ],
+	[ 'title' => 'Portfolio',       'slug' => 'portfolio',       'content' => 'A showcase of our recent work and projects.', 'path' => 'services/portfolio' ],
+	[ 'title' => 'Testimonials',    'slug' => 'testimonials',    'content' => 'What our clients say about working with us.', 'path' => 'services/portfolio/testimonials' ],
 	[ 'title' => 'Privacy Policy',  'slug' => 'privacy-policy',  'content' => 'How we handle and protect your personal data.' ],
 	[ 'title' => 'Terms of Service','slug' => 'terms-of-service','content' => 'The terms and conditions for using our services.' ],
 ];
@@ -210,9 +213,21 @@ $page_definitions = [
 $page_count = 0;
 
 foreach ( $page_definitions as $index => $def ) {
-	$existing = get_page_by_path( $def['slug'], OBJECT, 'page' );
+	// Nested pages are resolved by full path; the flat slug lookup reparents
+	// pages seeded before the hierarchy existed.
+	$existing  = get_page_by_path( $def['path'] ?? $def['slug'], OBJECT, 'page' )
+		?: get_page_by_path( $def['slug'], OBJECT, 'page' );
+	$parent    = isset( $def['path'] ) ? get_page_by_path( dirname( $def['path'] ), OBJECT, 'page' ) : null;
+	$parent_id = $parent ? $parent->ID : 0;
 
 	if ( $existing ) {
+		if ( (int) $existing->post_parent !== $parent_id ) {
+			wp_update_post([
+				'ID'          => $existing->ID,
+				'post_parent' => $parent_id,
+			]);
+		}
+
 		// Ensure pre-existing pages (e.g. WP's default Privacy Policy draft) are published
 		if ( $existing->post_status !== 'publish' ) {
 			wp_update_post([
@@ -232,6 +247,7 @@ foreach ( $page_definitions as $index => $def ) {
 		'post_content' => "<!-- wp:paragraph -->\n<p>{$def['content']}</p>\n<!-- /wp:paragraph -->",
 		'post_status'  => 'publish',
 		'post_type'    => 'page',
+		'post_parent'  => $parent_id,
 		'menu_order'   => $index + 1,
 		'post_date'    => gmdate( 'Y-m-d H:i:s', strtotime( "2025-01-01 +{$index} hours" ) ),
 	], true );
@@ -502,6 +518,101 @@ foreach ( $test_users as $def ) {
 
 WP_CLI::success( 'Test users created/verified: alice, bob' );
 
+/* ------------------------------------------------------------------ */
+/* Navigation menu                                                    */
+/* ------------------------------------------------------------------ */
+
+// Main Navigation (primary location):
+//   Home (custom) | About > Team | Services > Portfolio | Technology (category)
+$menu = wp_get_nav_menu_object( 'main-navigation' );
+
+if ( $menu ) {
+	foreach ( wp_get_nav_menu_items( $menu->term_id ) ?: [] as $item ) {
+		wp_delete_post( $item->ID, true );
+	}
+	$menu_id = $menu->term_id;
+} else {
+	$menu_id = wp_create_nav_menu( 'Main Navigation' );
+}
+
+if ( is_wp_error( $menu_id ) ) {
+	WP_CLI::error( 'Failed to create menu: ' . $menu_id->get_error_message() );
+}
+
+$add_menu_page = function ( string $path, int $parent_item_id, int $position ) use ( $menu_id ): int {
+	$page = get_page_by_path( $path, OBJECT, 'page' );
+
+	return (int) wp_update_nav_menu_item( $menu_id, 0, [
+		'menu-item-object-id' => $page ? $page->ID : 0,
+		'menu-item-object'    => 'page',
+		'menu-item-type'      => 'post_type',
+		'menu-item-parent-id' => $parent_item_id,
+		'menu-item-position'  => $position,
+		'menu-item-status'    => 'publish',
+	]);
+};
+
+wp_update_nav_menu_item( $menu_id, 0, [
+	'menu-item-title'    => 'Home',
+	'menu-item-url'      => home_url( '/' ),
+	'menu-item-type'     => 'custom',
+	'menu-item-position' => 1,
+	'menu-item-status'   => 'publish',
+]);
+
+$about_item_id    = $add_menu_page( 'about', 0, 2 );
+$add_menu_page( 'about/team', $about_item_id, 3 );
+$services_item_id = $add_menu_page( 'services', 0, 4 );
+$add_menu_page( 'services/portfolio', $services_item_id, 5 );
+
+wp_update_nav_menu_item( $menu_id, 0, [
+	'menu-item-object-id' => $category_ids['technology'],
+	'menu-item-object'    => 'category',
+	'menu-item-type'      => 'taxonomy',
+	'menu-item-position'  => 6,
+	'menu-item-status'    => 'publish',
+]);
+
+$menu_locations            = get_theme_mod( 'nav_menu_locations', [] );
+$menu_locations['primary'] = $menu_id;
+set_theme_mod( 'nav_menu_locations', $menu_locations );
+
+WP_CLI::success( 'Navigation menu created/verified: main-navigation' );
+
+/* ------------------------------------------------------------------ */
+/* Comments                                                           */
+/* ------------------------------------------------------------------ */
+
+// test-post-001:
+//   First comment > Reply to first comment | Second comment | Pending comment (hold)
+$commented_post = get_page_by_path( 'test-post-001', OBJECT, 'post' );
+
+if ( $commented_post ) {
+	foreach ( get_comments( [ 'post_id' => $commented_post->ID, 'status' => 'all' ] ) as $comment ) {
+		wp_delete_comment( $comment->comment_ID, true );
+	}
+
+	$add_comment = function ( string $content, int $parent, int $approved, string $date ) use ( $commented_post ): int {
+		return (int) wp_insert_comment( [
+			'comment_post_ID'      => $commented_post->ID,
+			'comment_parent'       => $parent,
+			'comment_content'      => $content,
+			'comment_author'       => 'Seed Commenter',
+			'comment_author_email' => 'commenter@example.com',
+			'comment_approved'     => $approved,
+			'comment_date'         => $date,
+			'comment_date_gmt'     => $date,
+		] );
+	};
+
+	$first_comment_id = $add_comment( 'First comment', 0, 1, '2024-01-01 10:00:00' );
+	$add_comment( 'Reply to first comment', $first_comment_id, 1, '2024-01-01 11:00:00' );
+	$add_comment( 'Second comment', 0, 1, '2024-01-02 10:00:00' );
+	$add_comment( 'Pending comment', 0, 0, '2024-01-03 10:00:00' );
+
+	WP_CLI::success( 'Comments created/verified on test-post-001' );
+}
+
 /* ------------------------------------------------------------------ */
 /* Summary                                                            */
 /* ------------------------------------------------------------------ */